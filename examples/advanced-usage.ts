@@ -42,10 +42,10 @@ async function advancedUsageExamples() {
       });
 
       console.log(`✓ Email validation: ${result.isValid ? 'Passed' : 'Failed'}`);
-      console.log(`✓ AWS SES test: ${result.deliverabilityTests.awsSes?.success ? 'Passed' : 'Failed'}`);
+      console.log(`✓ AWS SES test: ${result.deliverabilityTests['aws-ses']?.success ? 'Passed' : 'Failed'}`);
       
-      if (result.deliverabilityTests.awsSes?.error) {
-        console.log(`❌ AWS SES error: ${result.deliverabilityTests.awsSes.error}`);
+      if (result.deliverabilityTests['aws-ses']?.error) {
+        console.log(`❌ AWS SES error: ${result.deliverabilityTests['aws-ses'].error}`);
       }
     } else {
       console.log('⚠️  AWS SES not configured. Set AWS credentials to test SES functionality.');
@@ -1,6 +1,7 @@
 import { 
   EmailDeliverabilityTester, 
   EmailSender, 
+  TemplateEngine,
   quickEmailValidation,
   quickSendEmail 
 } from '../src/index';
@@ -97,32 +98,38 @@ async function bulkEmailWorkflowExample() {
   if (validEmails.length > 0) {
     console.log(`\n3. Sending newsletter to ${validEmails.length} valid emails...`);
     
+    const templates = new TemplateEngine({
+      templates: {
+        newsletter: {
+          subject: 'Monthly Newsletter - Email Deliverability Tips',
+          text: `Hello! Welcome to our monthly newsletter with email deliverability tips.`,
+          html: `
+            <h2>Monthly Newsletter</h2>
+            <p>Hello!</p>
+            <p>Welcome to our monthly newsletter with email deliverability tips.</p>
+            <h3>This Month's Tips:</h3>
+            <ul>
+              <li>Always validate email addresses before sending</li>
+              <li>Check domain reputation and MX records</li>
+              <li>Implement SPF and DMARC records</li>
+              <li>Monitor bounce rates and engagement</li>
+            </ul>
+            <p>Thank you for subscribing!</p>
+            <hr>
+            <small>You received this email because your address ({{email}}) passed our deliverability validation.</small>
+          `
+        }
+      }
+    });
+
     const sender = new EmailSender({
-      defaultFrom: process.env.EMAIL_FROM || 'newsletter@example.com'
+      defaultFrom: process.env.EMAIL_FROM || 'newsletter@example.com',
+      templates
     });
 
     // Send to valid emails
     for (const email of validEmails) {
-      const sendResult = await sender.send({
-        to: email,
-        subject: 'Monthly Newsletter - Email Deliverability Tips',
-        text: `Hello! Welcome to our monthly newsletter with email deliverability tips.`,
-        html: `
-          <h2>Monthly Newsletter</h2>
-          <p>Hello!</p>
-          <p>Welcome to our monthly newsletter with email deliverability tips.</p>
-          <h3>This Month's Tips:</h3>
-          <ul>
-            <li>Always validate email addresses before sending</li>
-            <li>Check domain reputation and MX records</li>
-            <li>Implement SPF and DMARC records</li>
-            <li>Monitor bounce rates and engagement</li>
-          </ul>
-          <p>Thank you for subscribing!</p>
-          <hr>
-          <small>You received this email because your address (${email}) passed our deliverability validation.</small>
-        `
-      });
+      const sendResult = await sender.sendTemplate('newsletter', { email }, email);
 
       console.log(`   ✓ Sent to ${email}: ${sendResult.success ? 'Success' : 'Failed'}`);
       if (!sendResult.success) {
@@ -0,0 +1,313 @@
+import { isValidEmailAddress } from './email-address';
+import { SuppressionEntry, SuppressionList, normalizeSuppressedAddress } from './suppression-list';
+
+/**
+ * Action field of a DSN recipient block (RFC 3464 section 2.3.3)
+ */
+export type DsnAction = 'failed' | 'delayed' | 'delivered' | 'relayed' | 'expanded';
+
+/**
+ * Hard bounces will keep failing; soft bounces may succeed later; 'none' is a successful DSN
+ */
+export type BounceClassification = 'hard' | 'soft' | 'none';
+
+/**
+ * Delivery outcome for one recipient of the original message
+ */
+export interface BounceRecipient {
+  recipient: string; // Final-Recipient, or the address found in a non-standard bounce
+  originalRecipient?: string; // Original-Recipient, when the MTA reports it
+  action?: DsnAction;
+  status?: string; // Enhanced status code (RFC 3463), e.g. '5.1.1'
+  diagnosticCode?: string; // Remote server response, e.g. '550 5.1.1 User unknown'
+  remoteMta?: string;
+  classification: BounceClassification;
+}
+
+/**
+ * A parsed bounce message
+ */
+export interface ParsedBounce {
+  isBounce: boolean; // The message reports a failed or delayed delivery
+  standard: boolean; // multipart/report with a delivery-status part (RFC 3464)
+  reportingMta?: string;
+  // Message-ID header of the bounced message. It equals EmailSendResult.messageId for SMTP sends only;
+  // SES reports its own id there, so match SES bounces with the notification's mail.messageId instead.
+  originalMessageId?: string;
+  originalEnvelopeId?: string;
+  originalSubject?: string;
+  recipients: BounceRecipient[];
+}
+
+/**
+ * Options for suppressBouncedRecipients
+ */
+export interface BounceSuppressionOptions {
+  softBounceTtlMs?: number; // Also suppress soft bounces for this long; by default only hard bounces are suppressed
+  source?: string; // Default: 'bounce'
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+const DSN_ACTIONS: DsnAction[] = ['failed', 'delayed', 'delivered', 'relayed', 'expanded'];
+
+/**
+ * Permanent failures that usually clear up on their own (mailbox full, message too large for now)
+ */
+const SOFT_PERMANENT_STATUSES = new Set(['5.2.2', '5.3.4']);
+
+const BOUNCE_SUBJECT_PATTERN = /undeliver|undelivered|delivery (status notification|failure|has failed)|failure notice|returned mail|mail delivery failed|delivery incomplete|could not be delivered/i;
+const ENHANCED_STATUS_PATTERN = /\b([245])\.(\d{1,3})\.(\d{1,3})\b/;
+const ADDRESS_PATTERN = /<?([^\s<>()[\]";:,@]+@[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)+)>?/i;
+
+/**
+ * Split a message or part into unfolded headers (names lower-cased) and body
+ */
+function parsePart(content: string): MimePart {
+  const normalized = content.replace(/\r\n/g, '\n');
+  const separator = normalized.search(/\n\n/);
+  const head = separator === -1 ? normalized : normalized.slice(0, separator);
+  const body = separator === -1 ? '' : normalized.slice(separator + 2);
+
+  const headers = new Map<string, string>();
+  for (const line of head.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!headers.has(name)) {
+        headers.set(name, line.slice(colon + 1).trim());
+      }
+    }
+  }
+  return { headers, body };
+}
+
+/**
+ * Media type and parameters of a Content-Type header
+ */
+function parseContentType(value = 'text/plain'): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  for (const match of rest.join(';').matchAll(/([\w-]+)\s*=\s*(?:"([^"]*)"|([^\s;]+))/g)) {
+    params[match[1].toLowerCase()] = match[2] ?? match[3];
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers.get('content-transfer-encoding') || '').toLowerCase();
+  if (encoding === 'base64') {
+    return Buffer.from(part.body.replace(/\s+/g, ''), 'base64').toString('utf8');
+  }
+  if (encoding === 'quoted-printable') {
+    const bytes = part.body
+      .replace(/=\n/g, '')
+      .replace(/=([0-9a-f]{2})/gi, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    return Buffer.from(bytes, 'latin1').toString('utf8');
+  }
+  return part.body;
+}
+
+/**
+ * Flatten a MIME tree into its leaf parts, keeping message/* parts as leaves
+ */
+function collectParts(part: MimePart, parts: MimePart[] = []): MimePart[] {
+  const { type, params } = parseContentType(part.headers.get('content-type'));
+  if (!type.startsWith('multipart/') || !params.boundary) {
+    parts.push(part);
+    return parts;
+  }
+
+  const delimiter = `--${params.boundary}`;
+  let section: string[] | undefined;
+  for (const line of part.body.split('\n')) {
+    const trimmed = line.trimEnd();
+    if (trimmed === delimiter || trimmed === `${delimiter}--`) {
+      if (section) {
+        collectParts(parsePart(section.join('\n')), parts);
+      }
+      if (trimmed !== delimiter) {
+        return parts; // Closing delimiter: the rest is the epilogue
+      }
+      section = [];
+    } else {
+      section?.push(line);
+    }
+  }
+
+  // Truncated message without a closing delimiter
+  if (section) {
+    collectParts(parsePart(section.join('\n')), parts);
+  }
+  return parts;
+}
+
+/**
+ * Split a delivery-status body into its field groups: per-message fields first, then one per recipient
+ */
+function parseFieldGroups(body: string): Array<Map<string, string>> {
+  return body
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .filter(group => group.trim())
+    .map(group => parsePart(`${group.trim()}\n\n`).headers);
+}
+
+/**
+ * Value of a typed field such as "rfc822; user@example.com" or "smtp; 550 5.1.1 User unknown"
+ */
+function stripType(value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const semicolon = value.indexOf(';');
+  return (semicolon === -1 ? value : value.slice(semicolon + 1)).trim() || undefined;
+}
+
+function stripAngles(address: string): string {
+  return address.replace(/^<|>$/g, '').trim();
+}
+
+function normalizeMessageId(value?: string): string | undefined {
+  const id = value?.trim().match(/<[^>]+>|\S+/)?.[0];
+  return id ? (id.startsWith('<') ? id : `<${id}>`) : undefined;
+}
+
+/**
+ * Classify a recipient by its action and status code
+ */
+export function classifyBounce(action?: string, status?: string): BounceClassification {
+  if (action === 'delivered' || action === 'relayed' || action === 'expanded' || status?.startsWith('2')) {
+    return 'none';
+  }
+  if (action === 'delayed' || status?.startsWith('4')) {
+    return 'soft';
+  }
+  if (status?.startsWith('5')) {
+    return SOFT_PERMANENT_STATUSES.has(status) ? 'soft' : 'hard';
+  }
+  return action === 'failed' && !status ? 'hard' : 'soft';
+}
+
+function toRecipient(fields: Map<string, string>): BounceRecipient | undefined {
+  const finalRecipient = stripType(fields.get('final-recipient'));
+  const originalRecipient = stripType(fields.get('original-recipient'));
+  const recipient = finalRecipient || originalRecipient;
+  if (!recipient) {
+    return undefined;
+  }
+
+  const actionValue = fields.get('action')?.toLowerCase().match(/^\w+/)?.[0];
+  const action = DSN_ACTIONS.find(candidate => candidate === actionValue);
+  const diagnosticCode = stripType(fields.get('diagnostic-code'));
+  const status = fields.get('status')?.match(ENHANCED_STATUS_PATTERN)?.[0] || diagnosticCode?.match(ENHANCED_STATUS_PATTERN)?.[0];
+
+  return {
+    recipient: stripAngles(recipient),
+    originalRecipient: originalRecipient && stripAngles(originalRecipient),
+    action,
+    status,
+    diagnosticCode,
+    remoteMta: stripType(fields.get('remote-mta')),
+    classification: classifyBounce(action, status)
+  };
+}
+
+/**
+ * Best-effort reading of bounces that are not RFC 3464 reports (qmail, older Exchange and the like):
+ * the first status code and the first address in the human-readable text that is not the sender's
+ */
+function parseNonStandard(message: MimePart, parts: MimePart[]): BounceRecipient[] {
+  const text = parts
+    .filter(part => parseContentType(part.headers.get('content-type')).type.startsWith('text/plain'))
+    .map(decodeBody)
+    .join('\n');
+  const statusMatch = text.match(ENHANCED_STATUS_PATTERN);
+  const smtpMatch = text.match(/\b([45])\d\d\b(?=[ -])/);
+  const from = message.headers.get('from')?.match(ADDRESS_PATTERN)?.[1]?.toLowerCase();
+
+  const recipient = [...text.matchAll(new RegExp(ADDRESS_PATTERN.source, 'gi'))]
+    .map(match => match[1])
+    .find(address => address.toLowerCase() !== from && !/^(mailer-daemon|postmaster)@/i.test(address));
+  if (!recipient || (!statusMatch && !smtpMatch)) {
+    return [];
+  }
+
+  const status = statusMatch?.[0];
+  const diagnosticLine = text.split('\n').find(line => (status && line.includes(status)) || (smtpMatch && line.includes(smtpMatch[0])));
+  return [{
+    recipient,
+    action: 'failed',
+    status,
+    diagnosticCode: diagnosticLine?.trim(),
+    classification: status ? classifyBounce('failed', status) : smtpMatch![1] === '4' ? 'soft' : 'hard'
+  }];
+}
+
+/**
+ * Parse a bounce message. RFC 3464 delivery status notifications are read field by field; other
+ * bounce formats are recognised by their subject or sender and scanned for a recipient and status code.
+ */
+export function parseBounce(raw: string | Buffer): ParsedBounce {
+  const message = parsePart(typeof raw === 'string' ? raw : raw.toString('utf8'));
+  const parts = collectParts(message);
+  const typeOf = (part: MimePart) => parseContentType(part.headers.get('content-type')).type;
+
+  const originalPart = parts.find(part => /^(message\/rfc822|text\/rfc822-headers|message\/global|message\/global-headers)$/.test(typeOf(part)));
+  const originalHeaders = originalPart ? parsePart(decodeBody(originalPart)).headers : undefined;
+  const statusPart = parts.find(part => /^message\/(global-)?delivery-status$/.test(typeOf(part)));
+
+  const result: ParsedBounce = {
+    isBounce: false,
+    standard: !!statusPart,
+    originalMessageId: normalizeMessageId(originalHeaders?.get('message-id')),
+    originalSubject: originalHeaders?.get('subject'),
+    recipients: []
+  };
+
+  if (statusPart) {
+    const [messageFields, ...recipientFields] = parseFieldGroups(decodeBody(statusPart));
+    result.reportingMta = stripType(messageFields?.get('reporting-mta'));
+    result.originalEnvelopeId = messageFields?.get('original-envelope-id');
+    result.recipients = recipientFields.map(toRecipient).filter((recipient): recipient is BounceRecipient => !!recipient);
+  } else {
+    const subject = message.headers.get('subject') || '';
+    const from = message.headers.get('from') || '';
+    if (BOUNCE_SUBJECT_PATTERN.test(subject) || /mailer-daemon|postmaster/i.test(from)) {
+      result.recipients = parseNonStandard(message, parts);
+      result.originalMessageId = result.originalMessageId ||
+        normalizeMessageId(parts.map(decodeBody).join('\n').match(/^message-id:\s*(<[^>]+>)/im)?.[1]);
+    }
+  }
+
+  result.isBounce = result.recipients.some(recipient => recipient.classification !== 'none');
+  return result;
+}
+
+/**
+ * Add the bounced recipients to a suppression list: hard bounces permanently, soft bounces only
+ * when `softBounceTtlMs` is given. Existing stronger suppressions, such as complaints, are kept and
+ * invalid addresses are skipped. Returns the suppression in effect for each recipient.
+ */
+export async function suppressBouncedRecipients(list: SuppressionList, bounce: ParsedBounce, options: BounceSuppressionOptions = {}): Promise<SuppressionEntry[]> {
+  const entries: SuppressionEntry[] = [];
+
+  for (const recipient of bounce.recipients) {
+    const soft = recipient.classification === 'soft';
+    if (recipient.classification === 'none' || (soft && options.softBounceTtlMs === undefined)
+      || !isValidEmailAddress(normalizeSuppressedAddress(recipient.recipient))) {
+      continue;
+    }
+    entries.push(await list.add(recipient.recipient, {
+      reason: soft ? 'soft-bounce' : 'hard-bounce',
+      source: options.source || 'bounce',
+      ttlMs: soft ? options.softBounceTtlMs : undefined,
+      note: recipient.diagnosticCode || recipient.status,
+      keepStronger: true
+    }));
+  }
+  return entries;
+}
@@ -2,11 +2,14 @@
 
 import { EmailDeliverabilityTester, EmailTestConfig, EmailTestResult } from './email-tester';
 import { EmailSender, EmailOptions } from './email-sender';
+import { SuppressionList, SuppressionReason } from './suppression-list';
+import { parseBounce, suppressBouncedRecipients } from './bounce-parser';
+import { promises as fs } from 'fs';
 
 interface CLIOptions {
   email?: string;
   emails?: string[];
-  provider?: 'aws-ses' | 'smtp' | 'both';
+  provider?: string; // aws-ses, smtp, both or all
   smtpHost?: string;
   smtpPort?: number;
   smtpUser?: string;
@@ -22,6 +25,16 @@ interface CLIOptions {
   sendSubject?: string;
   sendMessage?: string;
   sendHtml?: string;
+  suppressionList?: string;
+  suppress?: string;
+  unsuppress?: string;
+  listSuppressed?: boolean;
+  importSuppressions?: string;
+  exportSuppressions?: string;
+  reason?: string;
+  note?: string;
+  expires?: string;
+  parseBounce?: string;
 }
 
 class EmailTestCLI {
@@ -45,7 +58,7 @@ class EmailTestCLI {
           break;
         case '--provider':
         case '-p':
-          options.provider = nextArg as 'aws-ses' | 'smtp' | 'both';
+          options.provider = nextArg;
           i++;
           break;
         case '--smtp-host':
@@ -103,6 +116,45 @@ class EmailTestCLI {
           options.sendHtml = nextArg;
           i++;
           break;
+        case '--suppression-list':
+          options.suppressionList = nextArg;
+          i++;
+          break;
+        case '--suppress':
+          options.suppress = nextArg;
+          i++;
+          break;
+        case '--unsuppress':
+          options.unsuppress = nextArg;
+          i++;
+          break;
+        case '--list-suppressed':
+          options.listSuppressed = true;
+          break;
+        case '--import-suppressions':
+          options.importSuppressions = nextArg;
+          i++;
+          break;
+        case '--export-suppressions':
+          options.exportSuppressions = nextArg;
+          i++;
+          break;
+        case '--reason':
+          options.reason = nextArg;
+          i++;
+          break;
+        case '--note':
+          options.note = nextArg;
+          i++;
+          break;
+        case '--expires':
+          options.expires = nextArg;
+          i++;
+          break;
+        case '--parse-bounce':
+          options.parseBounce = nextArg;
+          i++;
+          break;
         case '--help':
         case '-h':
           options.help = true;
@@ -135,8 +187,24 @@ SENDING OPTIONS:
   --send-message <text>        Email message (plain text)
   --send-html <html>           Email message (HTML)
 
+SUPPRESSION LIST OPTIONS:
+  --suppression-list <file>    Suppression list file, consulted before sending and testing
+                               (optional if SUPPRESSION_LIST_PATH env var set)
+  --suppress <email>           Add an address to the suppression list
+  --reason <reason>            hard-bounce, soft-bounce, complaint, unsubscribe or manual (default)
+  --note <text>                Note stored with the suppression
+  --expires <date>             Allow sending again after this date (ISO 8601)
+  --unsuppress <email>         Remove an address from the suppression list
+  --list-suppressed            List suppressed addresses (filter with --reason)
+  --import-suppressions <file> Import addresses from JSON, CSV or one-per-line text
+  --export-suppressions <file> Export the list as CSV (.csv) or JSON
+
+BOUNCE OPTIONS:
+  --parse-bounce <file>        Read a bounce message (DSN); with --suppression-list, hard
+                               bounces are added to the suppression list
+
 PROVIDER OPTIONS:
-  --provider, -p <provider>    Email provider: aws-ses, smtp, both (default: both)
+  --provider, -p <provider>    Email provider: aws-ses, smtp, both, all (default: both)
   --smtp-host <host>           SMTP server hostname (optional if SMTP_HOST env var set)
   --smtp-port <port>           SMTP server port (optional, default: 587)
   --smtp-user <username>       SMTP username (optional if SMTP_USER env var set)
@@ -158,6 +226,7 @@ Environment Variables (Auto-detected):
   SMTP_PASS / SMTP_PASSWORD   SMTP password (auto-detected)
   SMPT_PASSWORD               Alternative SMTP password env var
   SMPT_EMAIL_FROM             SMTP specific from email
+  SUPPRESSION_LIST_PATH       Suppression list file
 
 Examples:
 
@@ -198,6 +267,14 @@ Examples:
     --provider smtp --smtp-host smtp.gmail.com --smtp-port 587 \\
     --smtp-user your@gmail.com --smtp-pass app-password
 
+  SUPPRESSION LIST EXAMPLES:
+  # Stop sending to an address that hard-bounced
+  email-test --suppression-list suppressions.jsonl --suppress bounced@example.com --reason hard-bounce
+
+  # List complaints, or export the whole list
+  email-test --suppression-list suppressions.jsonl --list-suppressed --reason complaint
+  email-test --suppression-list suppressions.jsonl --export-suppressions suppressions.csv
+
   # Test first, then send if valid (using env vars)
   email-test --email test@example.com --validate && \\
     email-test --send --send-to test@example.com --send-subject "Welcome"
@@ -208,19 +285,30 @@ Examples:
     console.log(`\n📧 Results for: ${result.email}`);
     console.log('─'.repeat(50));
     console.log(`✓ Valid format: ${result.isValid ? '✅ Yes' : '❌ No'}`);
-    console.log(`✓ Domain exists: ${result.domainExists ? '✅ Yes' : '❌ No'}`);
-    console.log(`✓ MX records: ${result.mxRecords.length > 0 ? `✅ ${result.mxRecords.length} found` : '❌ None'}`);
+    if (result.suppressed) {
+      console.log(`✓ Suppressed: 🚫 Yes (${result.suppressed.reason}), no test message sent`);
+    }
+    console.log(`✓ Domain exists: ${result.inconclusive ? `⚠️  Unknown (DNS ${result.dnsStatus})` : result.domainExists ? '✅ Yes' : '❌ No'}`);
+    const mxStatus = result.nullMx
+      ? '❌ Null MX (domain does not accept mail)'
+      : result.mxRecords.length > 0
+        ? `✅ ${result.mxRecords.length} found`
+        : result.implicitMx ? '⚠️  None (implicit MX via A/AAAA)' : '❌ None';
+    console.log(`✓ MX records: ${mxStatus}`);
     console.log(`✓ SPF record: ${result.spfRecord ? '✅ Found' : '⚠️  Not found'}`);
-    console.log(`✓ DMARC record: ${result.dmarcRecord ? '✅ Found' : '⚠️  Not found'}`);
-
-    if (result.deliverabilityTests.awsSes) {
-      const ses = result.deliverabilityTests.awsSes;
-      console.log(`✓ AWS SES: ${ses.success ? `✅ Success (${ses.messageId})` : `❌ Failed (${ses.error})`}`);
+    if (result.spf) {
+      const source = result.spf.ip ? ` for ${result.spf.ip}` : '';
+      console.log(`✓ Sender SPF (${result.spf.domain}${source}): ${result.spf.result === 'pass' ? '✅' : '⚠️ '} ${result.spf.result} (${result.spf.lookupCount} lookups)`);
+    }
+    console.log(`✓ DMARC record: ${result.dmarcRecord ? `✅ Found (${result.dmarc?.strength})` : '⚠️  Not found'}`);
+    if (result.dkim) {
+      const keys = result.dkim.selectors.map(key => `${key.selector}${key.keyBits ? ` ${key.keyType}-${key.keyBits}` : ''}`);
+      console.log(`✓ DKIM keys: ${keys.length > 0 ? `✅ ${keys.join(', ')}` : '⚠️  None found'}`);
     }
 
-    if (result.deliverabilityTests.smtp) {
-      const smtp = result.deliverabilityTests.smtp;
-      console.log(`✓ SMTP: ${smtp.success ? `✅ Success (${smtp.messageId})` : `❌ Failed (${smtp.error})`}`);
+    const providerLabels: Record<string, string> = { 'aws-ses': 'AWS SES', 'smtp': 'SMTP' };
+    for (const [provider, test] of Object.entries(result.deliverabilityTests)) {
+      console.log(`✓ ${providerLabels[provider] || provider}: ${test.success ? `✅ Success (${test.messageId})` : `❌ Failed (${test.error})`}`);
     }
 
     console.log(`\n💡 Recommendations:`);
@@ -241,6 +329,24 @@ Examples:
       return;
     }
 
+    const providers = ['aws-ses', 'smtp', 'both', 'all'];
+    if (options.provider && !providers.includes(options.provider)) {
+      console.error(`❌ Error: Unknown provider "${options.provider}". Use one of: ${providers.join(', ')}`);
+      process.exit(1);
+    }
+
+    // Handle bounce parsing
+    if (options.parseBounce) {
+      await this.handleBounceMode(options);
+      return;
+    }
+
+    // Handle suppression list management
+    if (options.suppress || options.unsuppress || options.listSuppressed || options.importSuppressions || options.exportSuppressions) {
+      await this.handleSuppressionMode(options);
+      return;
+    }
+
     // Handle send mode
     if (options.send) {
       await this.handleSendMode(options);
@@ -257,6 +363,102 @@ Examples:
     await this.handleTestMode(options);
   }
 
+  private getSuppressionList(options: CLIOptions): SuppressionList | undefined {
+    const path = options.suppressionList || process.env.SUPPRESSION_LIST_PATH;
+    return path ? new SuppressionList({ path }) : undefined;
+  }
+
+  private async handleBounceMode(options: CLIOptions): Promise<void> {
+    try {
+      const bounce = parseBounce(await fs.readFile(options.parseBounce!));
+
+      console.log(`\n📨 Bounce: ${options.parseBounce}`);
+      console.log('─'.repeat(50));
+      console.log(`✓ Bounce: ${bounce.isBounce ? '✅ Yes' : '❌ No'}${bounce.standard ? ' (RFC 3464 report)' : ''}`);
+      if (bounce.reportingMta) {
+        console.log(`✓ Reporting MTA: ${bounce.reportingMta}`);
+      }
+      console.log(`✓ Original Message-ID: ${bounce.originalMessageId || 'unknown'}`);
+      bounce.recipients.forEach(recipient => {
+        console.log(`✓ ${recipient.recipient}: ${recipient.classification} (${recipient.action || 'unknown action'}, ${recipient.status || 'no status'})`);
+        if (recipient.diagnosticCode) {
+          console.log(`     ${recipient.diagnosticCode}`);
+        }
+      });
+
+      const list = this.getSuppressionList(options);
+      if (list) {
+        const entries = await suppressBouncedRecipients(list, bounce, { source: 'cli' });
+        console.log(`\n🚫 Suppressed ${entries.length} addresses${entries.length ? `: ${entries.map(entry => entry.email).join(', ')}` : ''}`);
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  }
+
+  private async handleSuppressionMode(options: CLIOptions): Promise<void> {
+    const list = this.getSuppressionList(options);
+    if (!list) {
+      console.error('❌ Error: Please provide the suppression list file using --suppression-list or SUPPRESSION_LIST_PATH');
+      console.log('Use --help for usage information');
+      process.exit(1);
+    }
+
+    const reasons = ['hard-bounce', 'soft-bounce', 'complaint', 'unsubscribe', 'manual'];
+    if (options.reason && !reasons.includes(options.reason)) {
+      console.error(`❌ Error: Unknown reason "${options.reason}". Use one of: ${reasons.join(', ')}`);
+      process.exit(1);
+    }
+    const reason = options.reason as SuppressionReason | undefined;
+
+    try {
+      if (options.suppress) {
+        const expiresAt = options.expires ? Date.parse(options.expires) : undefined;
+        if (expiresAt !== undefined && isNaN(expiresAt)) {
+          throw new Error(`Invalid --expires date "${options.expires}"`);
+        }
+        const entry = await list.add(options.suppress, { reason, source: 'cli', note: options.note, expiresAt });
+        console.log(`🚫 Suppressed ${entry.email} (${entry.reason})${entry.expiresAt ? ` until ${new Date(entry.expiresAt).toISOString()}` : ''}`);
+      }
+
+      if (options.unsuppress) {
+        const removed = await list.remove(options.unsuppress);
+        console.log(removed ? `✅ Removed ${options.unsuppress} from the suppression list` : `⚠️  ${options.unsuppress} is not on the suppression list`);
+      }
+
+      if (options.importSuppressions) {
+        const result = await list.import(await fs.readFile(options.importSuppressions, 'utf8'), { reason, note: options.note });
+        console.log(`📥 Imported ${result.imported} addresses`);
+        result.invalid.forEach(value => console.log(`   ❌ Invalid: ${value}`));
+      }
+
+      if (options.exportSuppressions) {
+        const format = options.exportSuppressions.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+        await fs.writeFile(options.exportSuppressions, await list.export(format));
+        console.log(`📤 Exported the suppression list to ${options.exportSuppressions}`);
+      }
+
+      if (options.listSuppressed) {
+        const entries = await list.list(reason);
+        console.log(`🚫 ${entries.length} suppressed addresses${reason ? ` (${reason})` : ''}`);
+        entries.forEach(entry => {
+          const details = [
+            entry.reason,
+            entry.source,
+            new Date(entry.createdAt).toISOString(),
+            entry.expiresAt ? `expires ${new Date(entry.expiresAt).toISOString()}` : undefined,
+            entry.note
+          ].filter(Boolean).join(', ');
+          console.log(`   ${entry.email}  ${details}`);
+        });
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
+      process.exit(1);
+    }
+  }
+
   private async handleSendMode(options: CLIOptions): Promise<void> {
     if (!options.sendTo) {
       console.error('❌ Error: Please provide recipient email using --send-to');
@@ -304,7 +506,8 @@ Examples:
         aws: awsConfig,
         smtp: smtpConfig,
         defaultFrom: process.env.EMAIL_FROM || process.env.AWS_EMAIL_FROM || process.env.SMTP_EMAIL_FROM || 'no-reply@example.com',
-        autoDetectFromEnv: true // Enable auto-detection
+        autoDetectFromEnv: true, // Enable auto-detection
+        suppressionList: this.getSuppressionList(options)
       });
 
       // Build email options
@@ -316,7 +519,7 @@ Examples:
       };
 
       // Send email with specified provider or auto-detection
-      const providerToUse = options.provider === 'both' ? undefined : options.provider;
+      const providerToUse = options.provider === 'both' || options.provider === 'all' ? undefined : options.provider;
       const result = await sender.send(emailOptions, providerToUse);
 
       if (result.success) {
@@ -328,7 +531,13 @@ Examples:
       } else {
         console.log(`❌ Email sending failed!`);
         console.log(`   Provider: ${result.provider}`);
-        console.log(`   Error: ${result.error}`);
+        console.log(`   Error: ${result.error}${result.errorClass ? ` (${result.errorClass})` : ''}`);
+        if (result.attempts && result.attempts.length > 1) {
+          console.log(`   Attempts:`);
+          result.attempts.forEach((attempt, index) => {
+            console.log(`     ${index + 1}. ${attempt.provider}: ${attempt.error} (${attempt.errorClass}, ${attempt.action})`);
+          });
+        }
         process.exit(1);
       }
 
@@ -348,7 +557,7 @@ Examples:
         // dotenv not available, continue without it
       }
 
-      const tester = new EmailDeliverabilityTester();
+      const tester = new EmailDeliverabilityTester(undefined, undefined, { suppressionList: this.getSuppressionList(options) });
 
       // Build SMTP config if provided
       const smtpConfig = options.smtpHost ? {
@@ -388,6 +597,7 @@ Examples:
         console.log(`   Total: ${batchResult.total}`);
         console.log(`   Successful: ${batchResult.successful}`);
         console.log(`   Failed: ${batchResult.failed}`);
+        console.log(`   Inconclusive: ${batchResult.inconclusive}`);
         console.log(`   Duration: ${batchResult.duration}ms`);
 
       } else if (options.email) {
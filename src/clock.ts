@@ -0,0 +1,20 @@
+/**
+ * Time source used for delays, so tests can substitute a fake clock
+ */
+export interface Clock {
+  now(): number; // Milliseconds since the epoch
+  sleep(ms: number): Promise<void>;
+  setTimer?(callback: () => void, ms: number): () => void; // Returns a function that cancels the timer
+}
+
+/**
+ * Clock backed by Date.now and setTimeout
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms: number) => new Promise(resolve => setTimeout(resolve, ms)),
+  setTimer: (callback: () => void, ms: number) => {
+    const timer = setTimeout(callback, ms);
+    return () => clearTimeout(timer);
+  }
+};
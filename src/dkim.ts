@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import { DnsResolver, DnsStatus, classifyDnsError } from './dns-resolver';
+
+/**
+ * Selectors probed when none are configured. SES Easy DKIM selectors are random tokens
+ * and have to be passed explicitly.
+ */
+export const COMMON_DKIM_SELECTORS = [
+  'default',
+  'google',
+  'selector1',
+  'selector2',
+  's1',
+  's2',
+  'k1',
+  'dkim',
+  'mail',
+  'smtp'
+];
+
+/**
+ * RSA keys shorter than this are flagged as weak
+ */
+export const MIN_RSA_KEY_BITS = 1024;
+
+/**
+ * Parsed DKIM key record (RFC 6376 section 3.6.1)
+ */
+export interface DkimKeyRecord {
+  version?: string;
+  keyType: string; // k=, defaults to rsa
+  publicKey: string; // p=, empty when the key is revoked
+  hashAlgorithms?: string[]; // h=
+  serviceTypes: string[]; // s=
+  flags: string[]; // t=
+  notes?: string; // n=
+}
+
+/**
+ * Result of parsing a DKIM key record
+ */
+export interface DkimParseResult {
+  record?: DkimKeyRecord;
+  errors: string[];
+}
+
+/**
+ * DKIM key found (or not) at one selector
+ */
+export interface DkimSelectorResult {
+  selector: string;
+  name: string; // <selector>._domainkey.<domain>
+  found: boolean;
+  dnsStatus: DnsStatus;
+  cname?: string; // Target when the key is delegated, e.g. to SES
+  raw?: string;
+  record?: DkimKeyRecord;
+  keyType?: string;
+  keyBits?: number;
+  revoked: boolean;
+  weak: boolean;
+  testing: boolean; // t=y
+  errors: string[];
+}
+
+/**
+ * DKIM keys discovered for a domain
+ */
+export interface DkimCheckResult {
+  domain: string;
+  selectors: DkimSelectorResult[]; // Only selectors that publish a record
+  probedSelectors: string[];
+}
+
+/**
+ * Parse a DKIM key record into its tags
+ */
+export function parseDkimRecord(raw: string): DkimParseResult {
+  const errors: string[] = [];
+  const tags = new Map<string, string>();
+
+  raw.split(';').map(part => part.trim()).filter(Boolean).forEach((part, index) => {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      errors.push(`Malformed tag "${part}"`);
+      return;
+    }
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).replace(/\s+/g, '');
+
+    if (name === 'v' && index !== 0) {
+      errors.push('v= must be the first tag');
+    }
+    if (tags.has(name)) {
+      errors.push(`Duplicate tag "${name}"`);
+      return;
+    }
+    tags.set(name, value);
+  });
+
+  if (tags.has('v') && tags.get('v') !== 'DKIM1') {
+    errors.push(`Unsupported version "${tags.get('v')}"`);
+    return { errors };
+  }
+
+  if (!tags.has('p')) {
+    errors.push('Missing required p= tag');
+    return { errors };
+  }
+
+  const publicKey = tags.get('p')!;
+  if (publicKey && !/^[A-Za-z0-9+/]+=*$/.test(publicKey)) {
+    errors.push('p= is not valid base64');
+  }
+
+  const list = (value?: string) => value ? value.split(':').map(item => item.trim().toLowerCase()).filter(Boolean) : undefined;
+
+  return {
+    record: {
+      version: tags.get('v'),
+      keyType: (tags.get('k') || 'rsa').toLowerCase(),
+      publicKey,
+      hashAlgorithms: list(tags.get('h')),
+      serviceTypes: list(tags.get('s')) || ['*'],
+      flags: list(tags.get('t')) || [],
+      notes: tags.get('n')
+    },
+    errors
+  };
+}
+
+/**
+ * Determine the size in bits of a DKIM public key
+ */
+export function getDkimKeyBits(keyType: string, publicKey: string): number {
+  const der = Buffer.from(publicKey, 'base64');
+
+  if (keyType === 'ed25519') {
+    if (der.length !== 32) {
+      throw new Error(`Ed25519 key must be 32 bytes, got ${der.length}`);
+    }
+    return 256;
+  }
+
+  if (keyType !== 'rsa') {
+    throw new Error(`Unsupported key type "${keyType}"`);
+  }
+
+  // Keys are normally SubjectPublicKeyInfo, but some signers publish a bare RSAPublicKey
+  let key: crypto.KeyObject;
+  try {
+    key = crypto.createPublicKey({ key: der, format: 'der', type: 'spki' });
+  } catch {
+    key = crypto.createPublicKey({ key: der, format: 'der', type: 'pkcs1' });
+  }
+
+  const bits = key.asymmetricKeyDetails?.modulusLength;
+  if (key.asymmetricKeyType !== 'rsa' || !bits) {
+    throw new Error('p= does not contain an RSA public key');
+  }
+  return bits;
+}
+
+/**
+ * Look up and validate the DKIM key at a single selector
+ */
+export async function lookupDkimSelector(resolver: DnsResolver, domain: string, selector: string): Promise<DkimSelectorResult> {
+  const name = `${selector}._domainkey.${domain}`;
+  const result: DkimSelectorResult = {
+    selector,
+    name,
+    found: false,
+    dnsStatus: 'ok',
+    revoked: false,
+    weak: false,
+    testing: false,
+    errors: []
+  };
+
+  let txtRecords: string[][];
+  try {
+    txtRecords = await resolver.resolveTxt(name);
+  } catch (error) {
+    result.dnsStatus = classifyDnsError(error);
+    return result;
+  }
+
+  const records = txtRecords.map(chunks => chunks.join('')).filter(txt => /(^|;)\s*(v=DKIM1|p=)/.test(txt));
+  if (records.length === 0) {
+    return result;
+  }
+
+  result.found = true;
+  result.raw = records[0];
+  if (records.length > 1) {
+    result.errors.push(`${name} publishes ${records.length} DKIM records`);
+  }
+
+  if (resolver.resolveCname) {
+    result.cname = (await resolver.resolveCname(name).catch(() => []))[0];
+  }
+
+  const parsed = parseDkimRecord(result.raw);
+  result.errors.push(...parsed.errors);
+  result.record = parsed.record;
+  if (!parsed.record) {
+    return result;
+  }
+
+  result.keyType = parsed.record.keyType;
+  result.testing = parsed.record.flags.includes('y');
+  result.revoked = parsed.record.publicKey === '';
+
+  if (!result.revoked) {
+    try {
+      result.keyBits = getDkimKeyBits(parsed.record.keyType, parsed.record.publicKey);
+      result.weak = parsed.record.keyType === 'rsa' && result.keyBits < MIN_RSA_KEY_BITS;
+    } catch (error) {
+      result.errors.push(`Invalid public key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Probe a domain for DKIM keys at the given selectors (plus the common ones unless disabled)
+ */
+export async function discoverDkimSelectors(
+  resolver: DnsResolver,
+  domain: string,
+  selectors: string[] = [],
+  probeCommonSelectors = true
+): Promise<DkimCheckResult> {
+  const probedSelectors = [...new Set([...selectors, ...(probeCommonSelectors ? COMMON_DKIM_SELECTORS : [])])];
+  const results = await Promise.all(probedSelectors.map(selector => lookupDkimSelector(resolver, domain, selector)));
+
+  return {
+    domain,
+    selectors: results.filter(result => result.found),
+    probedSelectors
+  };
+}
@@ -0,0 +1,291 @@
+import { DnsResolver, DnsStatus, classifyDnsError, isTransientDnsStatus } from './dns-resolver';
+
+/**
+ * DMARC policy values
+ */
+export type DmarcPolicy = 'none' | 'quarantine' | 'reject';
+
+/**
+ * DMARC identifier alignment modes: relaxed or strict
+ */
+export type DmarcAlignment = 'r' | 's';
+
+/**
+ * How strongly a DMARC policy protects the domain
+ */
+export type DmarcStrength = 'missing' | 'invalid' | 'monitor' | 'partial' | 'quarantine' | 'reject';
+
+/**
+ * Parsed DMARC record (RFC 7489 section 6.3)
+ */
+export interface DmarcRecord {
+  p: DmarcPolicy;
+  sp?: DmarcPolicy;
+  pct: number;
+  adkim: DmarcAlignment;
+  aspf: DmarcAlignment;
+  rua: string[];
+  ruf: string[];
+  fo: string[];
+  ri: number;
+}
+
+/**
+ * Result of parsing a DMARC record
+ */
+export interface DmarcParseResult {
+  record?: DmarcRecord;
+  errors: string[];
+  warnings: string[]; // Valid but likely unhelpful settings, such as report URIs most receivers ignore
+}
+
+/**
+ * DMARC policy discovered for a domain
+ */
+export interface DmarcResult {
+  domain: string;
+  organizationalDomain: string;
+  recordDomain?: string; // Domain the record was found at
+  source?: 'domain' | 'organizational';
+  raw?: string;
+  record?: DmarcRecord;
+  effectivePolicy?: DmarcPolicy; // Policy applied to mail from `domain` (sp for subdomains)
+  strength: DmarcStrength;
+  errors: string[];
+  warnings: string[];
+  dnsStatus: DnsStatus;
+}
+
+// Public suffixes with more than one label. A compact subset of the Public Suffix List,
+// enough to find the organizational domain for the most common country-code registries.
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'me.uk', 'ltd.uk', 'plc.uk', 'net.uk',
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au',
+  'co.nz', 'org.nz', 'net.nz', 'govt.nz',
+  'co.jp', 'ne.jp', 'or.jp', 'ac.jp', 'go.jp',
+  'co.kr', 'or.kr', 'ne.kr',
+  'com.br', 'net.br', 'org.br', 'gov.br',
+  'com.cn', 'net.cn', 'org.cn', 'gov.cn',
+  'com.hk', 'org.hk', 'com.sg', 'com.tw', 'com.my',
+  'co.in', 'net.in', 'org.in', 'gov.in', 'ac.in',
+  'co.za', 'org.za', 'gov.za',
+  'com.mx', 'com.ar', 'com.co', 'com.tr', 'com.ua', 'com.pl',
+  'co.il', 'co.id', 'co.th'
+]);
+
+const POLICIES: DmarcPolicy[] = ['none', 'quarantine', 'reject'];
+
+/**
+ * Check whether a TXT string is a DMARC record
+ */
+export function isDmarcRecord(txt: string): boolean {
+  return /^v\s*=\s*DMARC1\s*(;|$)/i.test(txt);
+}
+
+/**
+ * Find the organizational domain (RFC 7489 section 3.2) using a built-in subset of public suffixes
+ */
+export function getOrganizationalDomain(domain: string): string {
+  const labels = domain.toLowerCase().replace(/\.$/, '').split('.');
+  if (labels.length <= 2) {
+    return labels.join('.');
+  }
+
+  const lastTwo = labels.slice(-2).join('.');
+  return MULTI_LABEL_SUFFIXES.has(lastTwo) ? labels.slice(-3).join('.') : lastTwo;
+}
+
+/**
+ * Validate a comma-separated DMARC URI list (rua/ruf)
+ */
+function parseUriList(tag: string, value: string, errors: string[], warnings: string[]): string[] {
+  const uris = value.split(',').map(uri => uri.trim()).filter(Boolean);
+  for (const uri of uris) {
+    if (!/^[a-z][a-z0-9+.-]*:[^!\s]+(![0-9]+[kmgt]?)?$/i.test(uri)) {
+      errors.push(`Invalid ${tag} URI: ${uri}`);
+    } else if (!/^mailto:/i.test(uri)) {
+      // RFC 7489 allows any URI scheme; receivers skip the ones they do not support
+      warnings.push(`${tag} URI ${uri} is not a mailto: address; most receivers only send reports by email`);
+    }
+  }
+  return uris;
+}
+
+/**
+ * Parse a DMARC TXT record into typed tags. Invalid tags are reported in `errors`
+ * and replaced by their defaults; the record is only dropped when it has no usable policy.
+ */
+export function parseDmarcRecord(raw: string): DmarcParseResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const tags = new Map<string, string>();
+
+  const parts = raw.split(';').map(part => part.trim()).filter(Boolean);
+  parts.forEach((part, index) => {
+    const separator = part.indexOf('=');
+    if (separator === -1) {
+      errors.push(`Malformed tag "${part}"`);
+      return;
+    }
+
+    const name = part.slice(0, separator).trim().toLowerCase();
+    const value = part.slice(separator + 1).trim();
+
+    if (index === 0 && (name !== 'v' || value.toUpperCase() !== 'DMARC1')) {
+      errors.push('Record must start with v=DMARC1');
+    }
+    if (tags.has(name)) {
+      errors.push(`Duplicate tag "${name}"`);
+      return;
+    }
+    tags.set(name, value);
+  });
+
+  if (!tags.has('v') || tags.get('v')?.toUpperCase() !== 'DMARC1') {
+    return { errors: errors.length ? errors : ['Record must start with v=DMARC1'], warnings };
+  }
+
+  const parsePolicy = (tag: string): DmarcPolicy | undefined => {
+    const value = tags.get(tag)?.toLowerCase();
+    if (value === undefined) return undefined;
+    if (POLICIES.includes(value as DmarcPolicy)) return value as DmarcPolicy;
+    errors.push(`Invalid ${tag} value "${tags.get(tag)}" (expected none, quarantine or reject)`);
+    return undefined;
+  };
+
+  const parseAlignment = (tag: string): DmarcAlignment => {
+    const value = tags.get(tag)?.toLowerCase();
+    if (value === undefined) return 'r';
+    if (value === 'r' || value === 's') return value;
+    errors.push(`Invalid ${tag} value "${tags.get(tag)}" (expected r or s)`);
+    return 'r';
+  };
+
+  const rua = tags.has('rua') ? parseUriList('rua', tags.get('rua')!, errors, warnings) : [];
+  const ruf = tags.has('ruf') ? parseUriList('ruf', tags.get('ruf')!, errors, warnings) : [];
+
+  let p = parsePolicy('p');
+  if (!tags.has('p')) {
+    errors.push('Missing required p= tag');
+  }
+  if (!p) {
+    // RFC 7489 section 6.6.3: a record with a valid rua but no usable policy is treated as p=none
+    if (rua.length === 0) {
+      return { errors, warnings };
+    }
+    p = 'none';
+  }
+
+  let pct = 100;
+  if (tags.has('pct')) {
+    const value = tags.get('pct')!;
+    if (/^\d+$/.test(value) && parseInt(value, 10) <= 100) {
+      pct = parseInt(value, 10);
+    } else {
+      errors.push(`Invalid pct value "${value}" (expected 0-100)`);
+    }
+  }
+
+  let ri = 86400;
+  if (tags.has('ri')) {
+    const value = tags.get('ri')!;
+    if (/^\d+$/.test(value)) {
+      ri = parseInt(value, 10);
+    } else {
+      errors.push(`Invalid ri value "${value}" (expected seconds)`);
+    }
+  }
+
+  let fo = ['0'];
+  if (tags.has('fo')) {
+    const options = tags.get('fo')!.split(':').map(option => option.trim().toLowerCase());
+    const invalid = options.filter(option => !['0', '1', 'd', 's'].includes(option));
+    if (invalid.length > 0) {
+      errors.push(`Invalid fo value "${tags.get('fo')}" (expected 0, 1, d or s separated by colons)`);
+    } else {
+      fo = options;
+    }
+  }
+
+  return {
+    record: {
+      p,
+      sp: parsePolicy('sp'),
+      pct,
+      adkim: parseAlignment('adkim'),
+      aspf: parseAlignment('aspf'),
+      rua,
+      ruf,
+      fo,
+      ri
+    },
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Grade how strongly a policy protects the domain
+ */
+export function getDmarcStrength(policy: DmarcPolicy | undefined, pct = 100): DmarcStrength {
+  if (!policy) return 'invalid';
+  if (policy === 'none') return 'monitor';
+  if (pct < 100) return 'partial';
+  return policy;
+}
+
+/**
+ * Fetch the DMARC records published at `_dmarc.<domain>`
+ */
+async function fetchDmarcRecords(resolver: DnsResolver, domain: string): Promise<{ records: string[]; dnsStatus: DnsStatus }> {
+  try {
+    const txtRecords = await resolver.resolveTxt(`_dmarc.${domain}`);
+    return { records: txtRecords.map(chunks => chunks.join('')).filter(isDmarcRecord), dnsStatus: 'ok' };
+  } catch (error) {
+    return { records: [], dnsStatus: classifyDnsError(error) };
+  }
+}
+
+/**
+ * Discover the DMARC policy for a domain, falling back to the organizational domain (RFC 7489 section 6.6.3)
+ */
+export async function lookupDmarc(resolver: DnsResolver, domain: string): Promise<DmarcResult> {
+  const normalized = domain.toLowerCase().replace(/\.$/, '');
+  const organizationalDomain = getOrganizationalDomain(normalized);
+  const result: DmarcResult = { domain: normalized, organizationalDomain, strength: 'missing', errors: [], warnings: [], dnsStatus: 'ok' };
+
+  let lookup = await fetchDmarcRecords(resolver, normalized);
+  let recordDomain = normalized;
+  if (lookup.records.length === 0 && organizationalDomain !== normalized && !isTransientDnsStatus(lookup.dnsStatus)) {
+    lookup = await fetchDmarcRecords(resolver, organizationalDomain);
+    recordDomain = organizationalDomain;
+  }
+
+  result.dnsStatus = lookup.dnsStatus;
+  if (lookup.records.length === 0) {
+    return result;
+  }
+
+  result.recordDomain = recordDomain;
+  result.source = recordDomain === normalized ? 'domain' : 'organizational';
+
+  if (lookup.records.length > 1) {
+    // Receivers ignore all records when more than one is published
+    result.errors.push(`_dmarc.${recordDomain} publishes ${lookup.records.length} DMARC records; receivers will ignore them all`);
+    result.strength = 'invalid';
+    return result;
+  }
+
+  result.raw = lookup.records[0];
+  const parsed = parseDmarcRecord(result.raw);
+  result.errors.push(...parsed.errors);
+  result.warnings.push(...parsed.warnings);
+  result.record = parsed.record;
+
+  if (parsed.record) {
+    result.effectivePolicy = result.source === 'organizational' ? parsed.record.sp || parsed.record.p : parsed.record.p;
+  }
+  result.strength = getDmarcStrength(result.effectivePolicy, parsed.record?.pct);
+
+  return result;
+}
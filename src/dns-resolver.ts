@@ -0,0 +1,279 @@
+import dns from 'dns';
+
+/**
+ * MX Record interface
+ */
+export interface MxRecord {
+  exchange: string;
+  priority: number;
+}
+
+/**
+ * DNS lookups used by the deliverability checks.
+ * Errors are rejected with a Node-style `code` (ENOTFOUND, ENODATA, ETIMEOUT, ...).
+ */
+export interface DnsResolver {
+  resolveMx(hostname: string): Promise<MxRecord[]>;
+  resolveTxt(hostname: string): Promise<string[][]>;
+  resolve4(hostname: string): Promise<string[]>;
+  resolve6(hostname: string): Promise<string[]>;
+  reverse?(ip: string): Promise<string[]>; // PTR lookup, only needed for the SPF ptr mechanism
+  resolveCname?(hostname: string): Promise<string[]>; // Used to identify delegated (e.g. SES) DKIM keys
+}
+
+/**
+ * Options for the default resolver
+ */
+export interface DnsResolverOptions {
+  servers?: string[]; // Nameservers to query, defaults to the system configuration
+  timeout?: number; // Per-query timeout in milliseconds (default: 5000)
+  retries?: number; // Retries after the first attempt (default: 2)
+  cache?: boolean; // Cache answers in memory (default: true)
+  defaultTtl?: number; // Seconds to cache records whose TTL is not reported (default: 300)
+  maxTtl?: number; // Upper bound for cached TTLs in seconds (default: 3600)
+  negativeTtl?: number; // Seconds to cache NXDOMAIN/NODATA answers (default: 60)
+}
+
+/**
+ * Outcome of a DNS query.
+ * `servfail`, `timeout` and `refused` are infrastructure failures that say nothing about the domain.
+ */
+export type DnsStatus = 'ok' | 'nxdomain' | 'nodata' | 'servfail' | 'timeout' | 'refused';
+
+type RecordType = 'MX' | 'TXT' | 'A' | 'AAAA' | 'PTR' | 'CNAME';
+
+interface CacheEntry {
+  expiresAt: number;
+  value?: unknown;
+  error?: Error;
+}
+
+/**
+ * Create a Node-style DNS error
+ */
+export function createDnsError(code: string, syscall: string, hostname: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException & { hostname?: string } = new Error(`${syscall} ${code} ${hostname}`);
+  error.code = code;
+  error.syscall = syscall;
+  error.hostname = hostname;
+  return error;
+}
+
+/**
+ * Map a resolver error to a DNS status
+ */
+export function classifyDnsError(error: unknown): DnsStatus {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+
+  switch (code) {
+    case dns.NOTFOUND:
+      return 'nxdomain';
+    case dns.NODATA:
+      return 'nodata';
+    case dns.TIMEOUT:
+    case dns.CANCELLED:
+      return 'timeout';
+    case dns.REFUSED:
+    case dns.CONNREFUSED:
+      return 'refused';
+    default:
+      return 'servfail';
+  }
+}
+
+/**
+ * Check whether a DNS status is a transient failure rather than an answer about the domain
+ */
+export function isTransientDnsStatus(status: DnsStatus): boolean {
+  return status === 'servfail' || status === 'timeout' || status === 'refused';
+}
+
+/**
+ * Default resolver backed by Node's c-ares resolver, with configurable nameservers,
+ * timeouts/retries and a TTL-respecting in-memory cache.
+ *
+ * Node only reports TTLs for A/AAAA answers; MX and TXT answers are cached for `defaultTtl`.
+ */
+export class DefaultDnsResolver implements DnsResolver {
+  private resolver: dns.promises.Resolver;
+  private cache = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private options: Required<Omit<DnsResolverOptions, 'servers'>>;
+
+  constructor(options: DnsResolverOptions = {}) {
+    this.options = {
+      timeout: options.timeout ?? 5000,
+      retries: options.retries ?? 2,
+      cache: options.cache !== false,
+      defaultTtl: options.defaultTtl ?? 300,
+      maxTtl: options.maxTtl ?? 3600,
+      negativeTtl: options.negativeTtl ?? 60,
+    };
+
+    this.resolver = new dns.promises.Resolver({
+      timeout: this.options.timeout,
+      tries: this.options.retries + 1,
+    });
+
+    if (options.servers && options.servers.length > 0) {
+      this.resolver.setServers(options.servers);
+    }
+  }
+
+  async resolveMx(hostname: string): Promise<MxRecord[]> {
+    return this.query('MX', hostname, async () => ({ value: await this.resolver.resolveMx(hostname) }));
+  }
+
+  async resolveTxt(hostname: string): Promise<string[][]> {
+    return this.query('TXT', hostname, async () => ({ value: await this.resolver.resolveTxt(hostname) }));
+  }
+
+  async resolve4(hostname: string): Promise<string[]> {
+    return this.query('A', hostname, async () => {
+      const records = await this.resolver.resolve4(hostname, { ttl: true });
+      return { value: records.map(record => record.address), ttl: Math.min(...records.map(record => record.ttl)) };
+    });
+  }
+
+  async resolve6(hostname: string): Promise<string[]> {
+    return this.query('AAAA', hostname, async () => {
+      const records = await this.resolver.resolve6(hostname, { ttl: true });
+      return { value: records.map(record => record.address), ttl: Math.min(...records.map(record => record.ttl)) };
+    });
+  }
+
+  async reverse(ip: string): Promise<string[]> {
+    return this.query('PTR', ip, async () => ({ value: await this.resolver.reverse(ip) }));
+  }
+
+  async resolveCname(hostname: string): Promise<string[]> {
+    return this.query('CNAME', hostname, async () => ({ value: await this.resolver.resolveCname(hostname) }));
+  }
+
+  /**
+   * Drop all cached answers
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Run a query through the cache, coalescing concurrent lookups of the same name
+   */
+  private async query<T>(type: RecordType, hostname: string, lookup: () => Promise<{ value: T; ttl?: number }>): Promise<T> {
+    const key = `${type}:${hostname.toLowerCase()}`;
+
+    if (this.options.cache) {
+      const cached = this.cache.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        if (cached.error) throw cached.error;
+        return cached.value as T;
+      }
+      this.cache.delete(key);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = lookup()
+      .then(({ value, ttl }) => {
+        this.store(key, { value }, ttl ?? this.options.defaultTtl);
+        return value;
+      })
+      .catch((error: NodeJS.ErrnoException) => {
+        // Only authoritative negative answers are cached; timeouts and server failures are retried next time
+        if (error.code === dns.NOTFOUND || error.code === dns.NODATA) {
+          this.store(key, { error }, this.options.negativeTtl);
+        }
+        throw error;
+      })
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private store(key: string, entry: Omit<CacheEntry, 'expiresAt'>, ttlSeconds: number): void {
+    if (!this.options.cache) return;
+    const ttl = Math.min(Math.max(ttlSeconds, 0), this.options.maxTtl);
+    if (ttl === 0) return;
+    this.cache.set(key, { ...entry, expiresAt: Date.now() + ttl * 1000 });
+  }
+}
+
+/**
+ * Canned records for a single name served by FakeDnsResolver
+ */
+export interface FakeDnsRecords {
+  mx?: MxRecord[];
+  txt?: string[][];
+  a?: string[];
+  aaaa?: string[];
+  ptr?: string[]; // Served for reverse lookups when the name is an IP address
+  cname?: string[];
+  error?: string; // Error code to reject every query for this name with, e.g. ETIMEOUT
+}
+
+/**
+ * In-memory resolver serving canned records, for running tests offline.
+ * Unknown names reject with ENOTFOUND and missing record types with ENODATA.
+ */
+export class FakeDnsResolver implements DnsResolver {
+  private records = new Map<string, FakeDnsRecords>();
+  readonly queries: Array<{ type: RecordType; hostname: string }> = [];
+
+  constructor(records: Record<string, FakeDnsRecords> = {}) {
+    Object.entries(records).forEach(([hostname, entry]) => this.setRecords(hostname, entry));
+  }
+
+  /**
+   * Replace the records served for a name
+   */
+  setRecords(hostname: string, records: FakeDnsRecords): void {
+    this.records.set(hostname.toLowerCase(), records);
+  }
+
+  async resolveMx(hostname: string): Promise<MxRecord[]> {
+    return this.lookup('MX', 'queryMx', hostname, records => records.mx);
+  }
+
+  async resolveTxt(hostname: string): Promise<string[][]> {
+    return this.lookup('TXT', 'queryTxt', hostname, records => records.txt);
+  }
+
+  async resolve4(hostname: string): Promise<string[]> {
+    return this.lookup('A', 'queryA', hostname, records => records.a);
+  }
+
+  async resolve6(hostname: string): Promise<string[]> {
+    return this.lookup('AAAA', 'queryAaaa', hostname, records => records.aaaa);
+  }
+
+  async reverse(ip: string): Promise<string[]> {
+    return this.lookup('PTR', 'getHostByAddr', ip, records => records.ptr);
+  }
+
+  async resolveCname(hostname: string): Promise<string[]> {
+    return this.lookup('CNAME', 'queryCname', hostname, records => records.cname);
+  }
+
+  private async lookup<T>(type: RecordType, syscall: string, hostname: string, select: (records: FakeDnsRecords) => T[] | undefined): Promise<T[]> {
+    this.queries.push({ type, hostname });
+
+    const records = this.records.get(hostname.toLowerCase());
+    if (!records) {
+      throw createDnsError(dns.NOTFOUND, syscall, hostname);
+    }
+    if (records.error) {
+      throw createDnsError(records.error, syscall, hostname);
+    }
+
+    const values = select(records);
+    if (!values || values.length === 0) {
+      throw createDnsError(dns.NODATA, syscall, hostname);
+    }
+    return values;
+  }
+}
@@ -0,0 +1,335 @@
+import net from 'net';
+import { domainToASCII, domainToUnicode } from 'url';
+
+/**
+ * RFC 5321 section 4.5.3.1 size limits (in octets)
+ */
+export const MAX_LOCAL_PART_LENGTH = 64;
+export const MAX_DOMAIN_LENGTH = 255;
+export const MAX_ADDRESS_LENGTH = 254;
+export const MAX_LABEL_LENGTH = 63;
+
+/**
+ * Parsed email address with the reasons it failed validation (if any)
+ */
+export interface ParsedEmailAddress {
+  address: string;
+  valid: boolean;
+  localPart: string;
+  domain: string;
+  asciiDomain: string; // IDNA (punycode) form, used for DNS lookups
+  unicodeDomain: string;
+  isQuotedLocalPart: boolean;
+  isDomainLiteral: boolean;
+  requiresSmtpUtf8: boolean; // Local part contains non-ASCII characters (RFC 6531)
+  issues: string[];
+}
+
+// RFC 5322 atext, excluding ALPHA / DIGIT which are checked separately
+const ATEXT_SPECIALS = "!#$%&'*+-/=?^_`{|}~";
+
+/**
+ * Check whether a string contains only ASCII characters
+ */
+function isAscii(value: string): boolean {
+  return /^[\x00-\x7f]*$/.test(value);
+}
+
+/**
+ * Check whether a character is allowed in an unquoted (dot-atom) local part.
+ * Non-ASCII characters are allowed as UTF8-non-ascii (RFC 6531).
+ */
+function isAtext(char: string): boolean {
+  return /^[A-Za-z0-9]$/.test(char) || ATEXT_SPECIALS.includes(char) || char.charCodeAt(0) > 127;
+}
+
+/**
+ * Check whether a character is allowed unescaped inside a quoted string
+ */
+function isQtext(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code === 32 || code === 33 || (code >= 35 && code <= 91) || (code >= 93 && code <= 126) || code > 127;
+}
+
+/**
+ * Check whether a character may follow a backslash in a quoted string
+ */
+function isQuotedPairChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 32 && code <= 126;
+}
+
+/**
+ * Describe a character for use in an issue message
+ */
+function describeChar(char: string): string {
+  if (char === ' ') return 'space';
+  const code = char.charCodeAt(0);
+  if (code < 32 || code === 127) return `control character 0x${code.toString(16).padStart(2, '0')}`;
+  return `'${char}'`;
+}
+
+/**
+ * Split the address into local part and domain, honouring a quoted local part
+ */
+function splitAddress(address: string): { localPart: string; domain: string; quoted: boolean; issues: string[] } | undefined {
+  if (address.startsWith('"')) {
+    let i = 1;
+    while (i < address.length) {
+      const char = address[i];
+      if (char === '\\') {
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        break;
+      }
+      i++;
+    }
+
+    if (i >= address.length) {
+      return { localPart: address, domain: '', quoted: true, issues: ['Quoted local part is not terminated'] };
+    }
+
+    if (address[i + 1] !== '@') {
+      return { localPart: address.slice(0, i + 1), domain: '', quoted: true, issues: ['Quoted local part must be followed by @'] };
+    }
+
+    return { localPart: address.slice(0, i + 1), domain: address.slice(i + 2), quoted: true, issues: [] };
+  }
+
+  const atIndex = address.lastIndexOf('@');
+  if (atIndex === -1) {
+    return undefined;
+  }
+
+  return { localPart: address.slice(0, atIndex), domain: address.slice(atIndex + 1), quoted: false, issues: [] };
+}
+
+/**
+ * Validate an unquoted (dot-atom) local part
+ */
+function validateDotAtom(localPart: string): string[] {
+  const issues: string[] = [];
+
+  if (localPart.startsWith('.')) {
+    issues.push('Local part must not start with a dot');
+  }
+  if (localPart.endsWith('.')) {
+    issues.push('Local part must not end with a dot');
+  }
+  if (localPart.includes('..')) {
+    issues.push('Local part must not contain consecutive dots');
+  }
+
+  const invalidChars = new Set<string>();
+  for (const char of localPart) {
+    if (char !== '.' && !isAtext(char)) {
+      invalidChars.add(char);
+    }
+  }
+  if (invalidChars.size > 0) {
+    issues.push(`Local part contains invalid characters: ${[...invalidChars].map(describeChar).join(', ')} (use a quoted local part to include them)`);
+  }
+
+  return issues;
+}
+
+/**
+ * Validate a quoted-string local part, including the surrounding quotes
+ */
+function validateQuotedString(localPart: string): string[] {
+  const content = localPart.slice(1, -1);
+  const invalidChars = new Set<string>();
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\') {
+      const escaped = content[i + 1];
+      if (escaped === undefined || !isQuotedPairChar(escaped)) {
+        invalidChars.add(escaped === undefined ? '\\' : escaped);
+      }
+      i++;
+      continue;
+    }
+    if (!isQtext(char)) {
+      invalidChars.add(char);
+    }
+  }
+
+  if (invalidChars.size > 0) {
+    return [`Quoted local part contains invalid characters: ${[...invalidChars].map(describeChar).join(', ')}`];
+  }
+  return [];
+}
+
+/**
+ * Validate a domain literal such as [192.0.2.1] or [IPv6:2001:db8::1]
+ */
+function validateDomainLiteral(domain: string): string[] {
+  if (!domain.endsWith(']')) {
+    return ['Domain literal is not terminated with ]'];
+  }
+
+  const content = domain.slice(1, -1);
+
+  if (/^IPv6:/i.test(content)) {
+    return net.isIPv6(content.slice(5)) ? [] : [`Domain literal contains an invalid IPv6 address: ${content.slice(5)}`];
+  }
+
+  if (/^[0-9.]+$/.test(content)) {
+    return net.isIPv4(content) ? [] : [`Domain literal contains an invalid IPv4 address: ${content}`];
+  }
+
+  // General-address-literal: Standardized-tag ":" 1*dcontent
+  const general = /^([A-Za-z0-9-]*[A-Za-z0-9]):([\x21-\x5a\x5e-\x7e]+)$/.exec(content);
+  if (general) {
+    return [`Domain literal uses an unsupported address tag: ${general[1]}`];
+  }
+
+  return [`Domain literal is not a valid address: [${content}]`];
+}
+
+/**
+ * Validate a hostname domain against RFC 1035/5321 label rules
+ */
+function validateHostname(domain: string): string[] {
+  const issues: string[] = [];
+
+  if (domain.endsWith('.')) {
+    issues.push('Domain must not end with a dot');
+  }
+
+  const labels = domain.replace(/\.$/, '').split('.');
+
+  if (labels.length < 2) {
+    issues.push('Domain must be fully qualified (e.g. example.com)');
+  }
+
+  if (labels.some(label => label.length === 0)) {
+    issues.push('Domain must not contain empty labels (consecutive or leading dots)');
+  }
+
+  for (const label of labels) {
+    if (label.length === 0) continue;
+
+    if (label.length > MAX_LABEL_LENGTH) {
+      issues.push(`Domain label "${label}" exceeds ${MAX_LABEL_LENGTH} characters`);
+    }
+    if (!/^[A-Za-z0-9-]+$/.test(label)) {
+      issues.push(`Domain label "${label}" contains invalid characters`);
+    } else if (label.startsWith('-') || label.endsWith('-')) {
+      issues.push(`Domain label "${label}" must not start or end with a hyphen`);
+    }
+  }
+
+  const tld = labels[labels.length - 1];
+  if (labels.length >= 2 && tld && /^[0-9]+$/.test(tld)) {
+    issues.push('Top-level domain must not be all-numeric');
+  }
+
+  return issues;
+}
+
+/**
+ * Parse an email address (RFC 5322 addr-spec) and check it against RFC 5321 limits.
+ * Returns every problem found rather than stopping at the first one.
+ */
+export function parseEmailAddress(address: string): ParsedEmailAddress {
+  const result: ParsedEmailAddress = {
+    address,
+    valid: false,
+    localPart: '',
+    domain: '',
+    asciiDomain: '',
+    unicodeDomain: '',
+    isQuotedLocalPart: false,
+    isDomainLiteral: false,
+    requiresSmtpUtf8: false,
+    issues: []
+  };
+
+  if (!address) {
+    result.issues.push('Email address is empty');
+    return result;
+  }
+
+  const parts = splitAddress(address);
+  if (!parts) {
+    result.issues.push('Email address is missing the @ separator');
+    return result;
+  }
+
+  result.localPart = parts.localPart;
+  result.domain = parts.domain;
+  result.isQuotedLocalPart = parts.quoted;
+  result.requiresSmtpUtf8 = !isAscii(parts.localPart);
+  result.issues.push(...parts.issues);
+
+  // Local part
+  if (parts.localPart.length === 0) {
+    result.issues.push('Local part (before @) is empty');
+  } else {
+    if (Buffer.byteLength(parts.localPart) > MAX_LOCAL_PART_LENGTH) {
+      result.issues.push(`Local part exceeds ${MAX_LOCAL_PART_LENGTH} characters`);
+    }
+    if (parts.issues.length === 0) {
+      result.issues.push(...(parts.quoted ? validateQuotedString(parts.localPart) : validateDotAtom(parts.localPart)));
+    }
+  }
+
+  // Domain
+  if (parts.issues.length === 0) {
+    if (parts.domain.length === 0) {
+      result.issues.push('Domain (after @) is empty');
+    } else {
+      if (parts.domain.startsWith('[')) {
+        result.isDomainLiteral = true;
+        result.asciiDomain = parts.domain;
+        result.unicodeDomain = parts.domain;
+        result.issues.push(...validateDomainLiteral(parts.domain));
+      } else {
+        // Internationalized domains are validated (and looked up) in their A-label form
+        result.asciiDomain = isAscii(parts.domain) ? parts.domain : domainToASCII(parts.domain);
+        if (!result.asciiDomain) {
+          result.issues.push('Domain is not a valid internationalized domain name (IDNA)');
+        } else {
+          result.unicodeDomain = domainToUnicode(result.asciiDomain) || result.asciiDomain;
+          result.issues.push(...validateHostname(result.asciiDomain));
+        }
+      }
+
+      if (Buffer.byteLength(result.asciiDomain || parts.domain) > MAX_DOMAIN_LENGTH) {
+        result.issues.push(`Domain exceeds ${MAX_DOMAIN_LENGTH} characters`);
+      }
+    }
+  }
+
+  // The overall limit applies to the address as it travels over SMTP
+  const wireLength = Buffer.byteLength(result.localPart) + 1 + Buffer.byteLength(result.asciiDomain || result.domain);
+  if (wireLength > MAX_ADDRESS_LENGTH) {
+    result.issues.unshift(`Email address exceeds ${MAX_ADDRESS_LENGTH} characters`);
+  }
+
+  result.valid = result.issues.length === 0;
+  return result;
+}
+
+/**
+ * Convert an address to its ASCII-domain form (punycode), leaving the local part untouched.
+ * Returns the input unchanged if it cannot be parsed.
+ */
+export function toAsciiEmailAddress(address: string): string {
+  const parsed = parseEmailAddress(address);
+  if (!parsed.asciiDomain) {
+    return address;
+  }
+  return `${parsed.localPart}@${parsed.asciiDomain}`;
+}
+
+/**
+ * Check whether an email address is valid
+ */
+export function isValidEmailAddress(address: string): boolean {
+  return parseEmailAddress(address).valid;
+}
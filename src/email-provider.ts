@@ -0,0 +1,129 @@
+import type { EmailOptions } from './email-sender';
+import type { MimeMessage } from './mime-builder';
+
+/**
+ * Names of the built-in providers. Custom providers may use any other name.
+ */
+export type BuiltInProviderName = 'aws-ses' | 'smtp';
+
+/**
+ * Features a provider can carry through to the recipient
+ */
+export interface EmailProviderCapabilities {
+  attachments: boolean;
+  rawMime: boolean; // Can send a pre-built MIME message unchanged (required for DKIM signing)
+  customHeaders: boolean;
+  tags: boolean; // Provider-side message tags, e.g. SES message tags
+  smtpUtf8: boolean; // Can deliver to non-ASCII local parts (RFC 6531)
+}
+
+/**
+ * Message handed to a provider by EmailSender
+ */
+export interface ProviderMessage {
+  options: EmailOptions & { from: string }; // From is always resolved
+  recipients: string[]; // Envelope recipients: to, cc and bcc
+  signed: boolean; // The message is DKIM signed; send buildRaw() unchanged
+  buildRaw(): MimeMessage; // Compose the MIME message (signed when `signed` is true)
+}
+
+/**
+ * Outcome of a successful provider send
+ */
+export interface ProviderSendResult {
+  messageId?: string;
+}
+
+/**
+ * Optional message fields a send path may or may not carry to the recipient
+ */
+export type MessageField = 'cc' | 'bcc' | 'replyTo' | 'text' | 'html' | 'attachments' | 'inlineImages' | 'headers' | 'tags';
+
+/**
+ * API call a provider uses for a message and the fields that call preserves
+ */
+export interface ProviderSendPath {
+  name: string; // e.g. 'SendEmail' or 'SendRawEmail'
+  preserves: MessageField[];
+}
+
+/**
+ * Sending quota reported by a provider (e.g. SES GetSendQuota)
+ */
+export interface ProviderQuota {
+  maxSendRate?: number; // Messages per second
+  max24HourSend?: number; // Undefined when unlimited
+  sentLast24Hours?: number;
+}
+
+/**
+ * Transport used by EmailSender. `send`, `verify` and `getQuota` reject on failure.
+ */
+export interface EmailProvider {
+  readonly name: string;
+  readonly capabilities: EmailProviderCapabilities;
+  send(message: ProviderMessage): Promise<ProviderSendResult>;
+  verify(): Promise<void>;
+  getQuota?(): Promise<ProviderQuota>; // Optional: providers that know their own sending limits
+  close?(): Promise<void>; // Optional: release pooled connections
+  describeSendPath?(message: ProviderMessage): ProviderSendPath; // Optional: defaults to one path derived from the capabilities
+}
+
+/**
+ * Connection status reported for a provider
+ */
+export interface ProviderConnectionStatus {
+  configured: boolean;
+  connected?: boolean;
+  error?: string;
+  quota?: ProviderQuota; // Present when the provider reports its quota
+}
+
+/**
+ * Normalize a single address or list of addresses to a list
+ */
+export function toAddressList(addresses?: string | string[]): string[] {
+  return addresses ? (Array.isArray(addresses) ? addresses : [addresses]) : [];
+}
+
+/**
+ * Optional fields set on a message
+ */
+export function getMessageFields(options: EmailOptions): MessageField[] {
+  const attachments = options.attachments || [];
+  const present: Record<MessageField, boolean> = {
+    cc: toAddressList(options.cc).length > 0,
+    bcc: toAddressList(options.bcc).length > 0,
+    replyTo: !!options.replyTo,
+    text: !!options.text,
+    html: !!options.html,
+    attachments: attachments.some(attachment => !attachment.cid),
+    inlineImages: attachments.some(attachment => !!attachment.cid),
+    headers: Object.keys(options.headers || {}).length > 0,
+    tags: Object.keys(options.tags || {}).length > 0
+  };
+  return (Object.keys(present) as MessageField[]).filter(field => present[field]);
+}
+
+/**
+ * The path a provider sends a message through. Providers that do not describe their paths
+ * get a single 'send' path preserving what their capabilities promise.
+ */
+export function getSendPath(provider: EmailProvider, message: ProviderMessage): ProviderSendPath {
+  if (provider.describeSendPath) {
+    return provider.describeSendPath(message);
+  }
+
+  const { attachments, customHeaders, tags } = provider.capabilities;
+  const preserves: MessageField[] = ['cc', 'bcc', 'replyTo', 'text', 'html'];
+  if (attachments) {
+    preserves.push('attachments', 'inlineImages');
+  }
+  if (customHeaders) {
+    preserves.push('headers');
+  }
+  if (tags) {
+    preserves.push('tags');
+  }
+  return { name: 'send', preserves };
+}
@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import type { EmailOptions, EmailSender, EmailSendResult, SendAttempt } from './email-sender';
+import { Clock, systemClock } from './clock';
+import { resolveSendTime, withoutSendTime } from './email-scheduler';
+import { JsonlStore } from './jsonl-store';
+import { RetryPolicy, getBackoffDelay, isRetryableAttempt } from './retry-policy';
+import type { SendErrorClass } from './send-error';
+
+/**
+ * Lifecycle of a queued email:
+ * pending → sending → sent, or → failed (retried later) → … → dead (permanent error or attempts exhausted)
+ */
+export type QueueState = 'pending' | 'sending' | 'sent' | 'failed' | 'dead';
+
+/**
+ * A persisted queue entry
+ */
+export interface QueuedEmail {
+  id: string;
+  state: QueueState;
+  options: EmailOptions;
+  provider?: string; // Send through this provider only instead of the failover chain
+  attempts: number; // Queue deliveries attempted, each through EmailSender.send
+  maxAttempts: number;
+  createdAt: number;
+  updatedAt: number;
+  nextAttemptAt: number; // When a pending or failed entry becomes due
+  messageId?: string;
+  lastError?: string;
+  errorClass?: SendErrorClass;
+}
+
+/**
+ * Options for enqueuing a single email
+ */
+export interface EnqueueOptions {
+  provider?: string;
+  maxAttempts?: number; // Overrides the queue's retry.maxAttempts
+  sendAt?: number; // Epoch milliseconds; defaults to the message's sendAt/delayMs, or now
+}
+
+/**
+ * Configuration of EmailQueue
+ */
+export interface EmailQueueConfig {
+  path: string; // JSONL file holding the queue
+  retry?: RetryPolicy; // Backoff between queue deliveries (see DEFAULT_QUEUE_RETRY_POLICY)
+  clock?: Clock;
+  compactAfter?: number; // Rewrite the file once it holds this many superseded records (default: 1000)
+}
+
+/**
+ * Outcome of one drain run
+ */
+export interface QueueDrainResult {
+  sent: number;
+  failed: number; // Failed but scheduled for another attempt
+  dead: number;
+}
+
+/**
+ * Queue deliveries are retried over minutes rather than milliseconds
+ */
+export const DEFAULT_QUEUE_RETRY_POLICY = {
+  maxAttempts: 5,
+  baseDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  jitter: true
+};
+
+/**
+ * Restore Buffers (attachment contents) serialized by JSON.stringify
+ */
+function reviveBuffers(_key: string, value: unknown): unknown {
+  const buffer = value as { type?: string; data?: unknown };
+  if (buffer && buffer.type === 'Buffer' && Array.isArray(buffer.data)) {
+    return Buffer.from(buffer.data);
+  }
+  return value;
+}
+
+/**
+ * Durable outbound queue backed by an append-only JSONL file.
+ *
+ * Every state change is appended before the next step runs, so a restarted process picks up
+ * where the previous one stopped. An entry still `sending` after a crash may or may not have been
+ * delivered; it is sent again (at-least-once delivery).
+ */
+export class EmailQueue {
+  private store: JsonlStore<QueuedEmail>;
+  private draining?: Promise<QueueDrainResult>;
+  private timer?: NodeJS.Timeout;
+  private retryPolicy: RetryPolicy;
+  private clock: Clock;
+
+  constructor(private sender: EmailSender, config: EmailQueueConfig) {
+    this.retryPolicy = { ...DEFAULT_QUEUE_RETRY_POLICY, ...config.retry };
+    this.clock = config.clock || systemClock;
+    this.store = new JsonlStore({
+      path: config.path,
+      key: 'id',
+      compactAfter: config.compactAfter,
+      reviver: reviveBuffers,
+      // An entry still sending was interrupted by a crash and may not have been delivered
+      restore: entry => entry.state === 'sending' ? { ...entry, state: 'pending' } : entry
+    });
+  }
+
+  /**
+   * Persist a message for delivery. The message's sendAt/delayMs/timeZone are resolved to a
+   * due time here; throws when they are invalid.
+   */
+  async enqueue(options: EmailOptions, enqueueOptions: EnqueueOptions = {}): Promise<QueuedEmail> {
+    await this.store.load();
+
+    const now = this.clock.now();
+    const sendAt = enqueueOptions.sendAt ?? resolveSendTime(options, now);
+    const entry: QueuedEmail = {
+      id: crypto.randomUUID(),
+      state: 'pending',
+      options: withoutSendTime(options),
+      provider: enqueueOptions.provider,
+      attempts: 0,
+      maxAttempts: enqueueOptions.maxAttempts ?? this.retryPolicy.maxAttempts!,
+      createdAt: now,
+      updatedAt: now,
+      nextAttemptAt: sendAt
+    };
+
+    await this.store.set(entry);
+    return entry;
+  }
+
+  /**
+   * Get an entry by id
+   */
+  async get(id: string): Promise<QueuedEmail | undefined> {
+    await this.store.load();
+    return this.store.get(id);
+  }
+
+  /**
+   * List entries, optionally only those in one state, oldest first
+   */
+  async list(state?: QueueState): Promise<QueuedEmail[]> {
+    await this.store.load();
+    return this.store.values().filter(entry => !state || entry.state === state);
+  }
+
+  /**
+   * Number of entries in each state
+   */
+  async getCounts(): Promise<Record<QueueState, number>> {
+    const counts: Record<QueueState, number> = { pending: 0, sending: 0, sent: 0, failed: 0, dead: 0 };
+    (await this.list()).forEach(entry => counts[entry.state]++);
+    return counts;
+  }
+
+  /**
+   * Send a dead entry again, with a fresh set of attempts
+   */
+  async requeue(id: string): Promise<QueuedEmail | undefined> {
+    const entry = await this.get(id);
+    if (!entry || entry.state !== 'dead') {
+      return undefined;
+    }
+    return await this.update(entry, { state: 'pending', attempts: 0, nextAttemptAt: this.clock.now() });
+  }
+
+  /**
+   * Delete an entry that is not being sent
+   */
+  async remove(id: string): Promise<boolean> {
+    const entry = await this.get(id);
+    if (!entry || entry.state === 'sending') {
+      return false;
+    }
+    return await this.store.delete(id);
+  }
+
+  /**
+   * Send every due entry once. Concurrent calls share the same run.
+   */
+  async drain(): Promise<QueueDrainResult> {
+    if (!this.draining) {
+      this.draining = this.drainDue().finally(() => {
+        this.draining = undefined;
+      });
+    }
+    return await this.draining;
+  }
+
+  /**
+   * Drain the queue every `pollIntervalMs` until stop() is called
+   */
+  start(pollIntervalMs = 1000): void {
+    if (this.timer) {
+      return;
+    }
+
+    const poll = async () => {
+      try {
+        await this.drain();
+      } catch (error) {
+        console.warn('Email queue drain failed:', error instanceof Error ? error.message : 'Unknown error');
+      }
+      if (this.timer) {
+        this.timer = setTimeout(poll, pollIntervalMs);
+      }
+    };
+    this.timer = setTimeout(poll, 0);
+  }
+
+  /**
+   * Stop polling and wait for a drain in progress to finish
+   */
+  async stop(): Promise<void> {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.draining?.catch(() => undefined);
+  }
+
+  /**
+   * Rewrite the file with only the current state of each entry
+   */
+  async compact(): Promise<void> {
+    await this.store.compact();
+  }
+
+  private async drainDue(): Promise<QueueDrainResult> {
+    const result: QueueDrainResult = { sent: 0, failed: 0, dead: 0 };
+    const due = (await this.list())
+      .filter(entry => (entry.state === 'pending' || entry.state === 'failed') && entry.nextAttemptAt <= this.clock.now())
+      .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt);
+
+    for (const entry of due) {
+      if (this.store.get(entry.id) !== entry) {
+        continue; // Removed or requeued since the run started
+      }
+      const state = await this.deliver(entry);
+      if (state === 'sent' || state === 'failed' || state === 'dead') {
+        result[state]++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Send one entry, recording the attempt before and its outcome after the send
+   */
+  private async deliver(entry: QueuedEmail): Promise<QueueState> {
+    const sending = await this.update(entry, { state: 'sending', attempts: entry.attempts + 1 });
+
+    let sendResult: EmailSendResult;
+    try {
+      sendResult = await this.sender.send(sending.options, sending.provider);
+    } catch (error) {
+      // send() reports provider failures in its result, so a throw happened before any provider was called
+      sendResult = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorClass: 'transient',
+        provider: sending.provider || 'unknown'
+      };
+    }
+
+    if (sendResult.success) {
+      const sent = await this.update(sending, { state: 'sent', messageId: sendResult.messageId, lastError: undefined, errorClass: undefined });
+      return sent.state;
+    }
+
+    // Failures reported before any attempt, such as an unreadable suppression list, carry only a class
+    const lastAttempt: SendAttempt = sendResult.attempts?.[sendResult.attempts.length - 1]
+      || { provider: sendResult.provider, success: false, error: sendResult.error, errorClass: sendResult.errorClass };
+    const retryable = (this.retryPolicy.retryable || isRetryableAttempt)(lastAttempt);
+    const willRetry = retryable && sending.attempts < sending.maxAttempts;
+    const failed = await this.update(sending, {
+      state: willRetry ? 'failed' : 'dead',
+      lastError: sendResult.error,
+      errorClass: sendResult.errorClass,
+      nextAttemptAt: willRetry ? this.clock.now() + getBackoffDelay(sending.attempts, this.retryPolicy) : sending.nextAttemptAt
+    });
+    return failed.state;
+  }
+
+  private async update(entry: QueuedEmail, changes: Partial<QueuedEmail>): Promise<QueuedEmail> {
+    const updated = { ...entry, ...changes, updatedAt: this.clock.now() };
+    await this.store.set(updated);
+    return updated;
+  }
+}
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import type { EmailOptions, EmailSendResult } from './email-sender';
+import { Clock, systemClock } from './clock';
+
+/**
+ * Longest delay a single Node.js timer supports; longer waits are re-armed
+ */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Delivery time fields of EmailOptions
+ */
+export type SendTimeOptions = Pick<EmailOptions, 'sendAt' | 'delayMs' | 'timeZone'>;
+
+/**
+ * A send waiting for its time
+ */
+export interface ScheduledEmail {
+  id: string;
+  sendAt: number; // Epoch milliseconds
+  options: EmailOptions;
+  provider?: string;
+}
+
+/**
+ * Handle returned by EmailScheduler.schedule
+ */
+export interface ScheduledSend extends ScheduledEmail {
+  result: Promise<EmailSendResult>; // Resolves after sending, or when cancelled
+}
+
+/**
+ * Whether the options ask for delayed delivery
+ */
+export function hasSendTime(options: SendTimeOptions): boolean {
+  return options.sendAt !== undefined || options.delayMs !== undefined;
+}
+
+/**
+ * Remove the delivery time fields, e.g. before handing the message to a provider
+ */
+export function withoutSendTime<T extends EmailOptions>(options: T): T {
+  const { sendAt, delayMs, timeZone, ...rest } = options;
+  return rest as T;
+}
+
+/**
+ * Offset of a time zone from UTC, in milliseconds, at the given instant
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a time zone to epoch milliseconds
+ */
+function zonedTimeToEpoch(dateTime: string, timeZone: string): number {
+  const match = dateTime.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/);
+  if (!match) {
+    throw new Error(`Invalid sendAt "${dateTime}": expected YYYY-MM-DDTHH:mm[:ss] when a timeZone is given`);
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', millisecond = '0'] = match;
+  const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second), Number(millisecond.padEnd(3, '0')));
+
+  try {
+    // The offset at the wall-clock time read as UTC is right except near a DST change; one more pass settles it
+    const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+    return wallClock - getTimeZoneOffset(firstGuess, timeZone);
+  } catch {
+    throw new Error(`Invalid time zone "${timeZone}"`);
+  }
+}
+
+/**
+ * Resolve sendAt/delayMs/timeZone to epoch milliseconds.
+ *
+ * `sendAt` may be a Date, epoch milliseconds or an ISO 8601 string. A string without a UTC offset is a
+ * wall-clock time in `timeZone` (an IANA name such as "Europe/Berlin"), or in the local time zone when
+ * none is given. Throws when the options are invalid.
+ */
+export function resolveSendTime(options: SendTimeOptions, now: number): number {
+  const { sendAt, delayMs, timeZone } = options;
+
+  if (sendAt !== undefined && delayMs !== undefined) {
+    throw new Error('Specify either sendAt or delayMs, not both');
+  }
+  if (delayMs !== undefined) {
+    if (!Number.isFinite(delayMs) || delayMs < 0) {
+      throw new Error(`Invalid delayMs: ${delayMs}`);
+    }
+    return now + delayMs;
+  }
+  if (sendAt === undefined) {
+    return now;
+  }
+
+  let time: number;
+  if (typeof sendAt === 'string') {
+    const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(sendAt);
+    time = timeZone && !hasOffset ? zonedTimeToEpoch(sendAt, timeZone) : Date.parse(sendAt);
+  } else {
+    time = sendAt instanceof Date ? sendAt.getTime() : sendAt;
+  }
+
+  if (!Number.isFinite(time)) {
+    throw new Error(`Invalid sendAt: ${String(sendAt)}`);
+  }
+  return time;
+}
+
+interface SchedulerEntry extends ScheduledEmail {
+  cancelTimer?: () => void;
+  resolve(result: EmailSendResult): void;
+}
+
+/**
+ * In-memory scheduler for delayed sends. Scheduled sends are lost when the process exits;
+ * use EmailQueue for durable scheduling.
+ */
+export class EmailScheduler {
+  private entries = new Map<string, SchedulerEntry>();
+
+  constructor(
+    private sendNow: (options: EmailOptions, provider?: string) => Promise<EmailSendResult>,
+    private clock: Clock = systemClock
+  ) {}
+
+  /**
+   * Schedule a send. Times in the past send immediately. Throws when the delivery time is invalid.
+   */
+  schedule(options: EmailOptions, provider?: string): ScheduledSend {
+    const sendAt = resolveSendTime(options, this.clock.now());
+    let resolve!: (result: EmailSendResult) => void;
+    const result = new Promise<EmailSendResult>(done => {
+      resolve = done;
+    });
+
+    const entry: SchedulerEntry = { id: crypto.randomUUID(), sendAt, options: withoutSendTime(options), provider, resolve };
+    this.entries.set(entry.id, entry);
+    this.arm(entry);
+
+    return { id: entry.id, sendAt, options: entry.options, provider, result };
+  }
+
+  /**
+   * Cancel a send that has not started, resolving its result as failed. Returns whether it was pending.
+   */
+  cancel(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(id);
+    entry.cancelTimer?.();
+    entry.resolve({ success: false, error: 'Scheduled send cancelled', provider: entry.provider || 'none' });
+    return true;
+  }
+
+  /**
+   * Sends waiting for their time, soonest first
+   */
+  list(): ScheduledEmail[] {
+    return [...this.entries.values()]
+      .map(({ id, sendAt, options, provider }) => ({ id, sendAt, options, provider }))
+      .sort((a, b) => a.sendAt - b.sendAt);
+  }
+
+  private arm(entry: SchedulerEntry): void {
+    const delay = Math.max(0, Math.min(entry.sendAt - this.clock.now(), MAX_TIMER_MS));
+
+    if (this.clock.setTimer) {
+      entry.cancelTimer = this.clock.setTimer(() => this.fire(entry), delay);
+    } else {
+      // Clocks without timers cannot cancel a sleep; a cancelled entry is simply skipped when it wakes
+      this.clock.sleep(delay).then(() => this.fire(entry));
+    }
+  }
+
+  private fire(entry: SchedulerEntry): void {
+    if (this.entries.get(entry.id) !== entry) {
+      return;
+    }
+    if (this.clock.now() < entry.sendAt) {
+      this.arm(entry);
+      return;
+    }
+
+    this.entries.delete(entry.id);
+    this.sendNow(entry.options, entry.provider).then(entry.resolve, error => entry.resolve({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      provider: entry.provider || 'none'
+    }));
+  }
+}
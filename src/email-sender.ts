@@ -1,5 +1,19 @@
-import nodemailer from 'nodemailer';
-import { SESClient, SendEmailCommand, SendRawEmailCommand, GetSendQuotaCommand } from "@aws-sdk/client-ses";
+import { SESClient } from "@aws-sdk/client-ses";
+import { DkimSigningOptions, signDkim } from './dkim-signer';
+import { buildMimeMessage, MimeMessage } from './mime-builder';
+import { EmailProvider, MessageField, ProviderConnectionStatus, ProviderMessage, ProviderQuota, getMessageFields, getSendPath, toAddressList } from './email-provider';
+import { SesProvider } from './ses-provider';
+import { SmtpProvider } from './smtp-provider';
+import { Clock, systemClock } from './clock';
+import { TemplateData, TemplateEngine } from './email-template';
+import { htmlToText, textToHtml } from './text-alternative';
+import { HtmlProcessingOptions, HtmlProcessingReport, processHtml } from './html-processor';
+import { UnsubscribeOptions, UnsubscribeSigningConfig, buildListUnsubscribeHeaders, buildUnsubscribeUrl } from './unsubscribe';
+import { SuppressionEntry, SuppressionList, normalizeSuppressedAddress } from './suppression-list';
+import { EmailScheduler, ScheduledEmail, ScheduledSend, hasSendTime } from './email-scheduler';
+import { DailyCapBehavior, RateLimit, RateLimitStatus, RateLimiter } from './rate-limiter';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getBackoffDelay, isRetryableAttempt } from './retry-policy';
+import { DEFAULT_FAILOVER_POLICY, EmailSendError, FailoverAction, FailoverPolicy, SendErrorClass, classifySendError } from './send-error';
 
 /**
  * Email attachment interface
@@ -26,6 +40,11 @@ export interface EmailOptions {
   replyTo?: string;
   attachments?: EmailAttachment[];
   headers?: Record<string, string>;
+  tags?: Record<string, string>; // Provider message tags (SES); ignored by providers without tag support
+  unsubscribe?: UnsubscribeOptions; // Emit List-Unsubscribe (and List-Unsubscribe-Post for one-click) headers
+  sendAt?: Date | number | string; // Deliver later: Date, epoch milliseconds or ISO 8601 string
+  delayMs?: number; // Deliver after this delay instead of at sendAt
+  timeZone?: string; // IANA time zone for a sendAt string without a UTC offset, e.g. "America/New_York"
 }
 
 /**
@@ -42,6 +61,8 @@ export interface SmtpConfig {
   tls?: {
     rejectUnauthorized?: boolean;
   };
+  pool?: boolean; // Keep connections open between sends (call EmailSender.close() when done)
+  maxConnections?: number; // Pooled connections, defaults to 5
 }
 
 /**
@@ -61,6 +82,19 @@ export interface EmailSenderConfig {
   smtp?: SmtpConfig;
   defaultFrom?: string;
   autoDetectFromEnv?: boolean; // New option to auto-detect from environment
+  dkim?: DkimSigningOptions; // Sign every outgoing message with this key
+  providers?: EmailProvider[]; // Custom providers, tried after the built-in ones
+  failover?: FailoverConfig;
+  retry?: RetryPolicy; // Retry failed attempts with backoff; without it only the failover 'retry' action retries
+  clock?: Clock; // Time source for backoff delays and rate limiting (tests can inject a fake)
+  rateLimits?: Record<string, RateLimit>; // Per-provider limits; override quotas reported by the provider
+  useProviderQuotas?: boolean; // Read provider quotas (SES GetSendQuota) before the first send through each provider
+  dailyCapBehavior?: DailyCapBehavior; // Refuse (default) or queue sends that would exceed a 24-hour cap
+  templates?: TemplateEngine; // Templates for sendTemplate; an empty engine is created when omitted
+  generateAlternatives?: boolean; // Derive the missing text or html part so messages are multipart/alternative (default: true)
+  htmlProcessing?: HtmlProcessingOptions | boolean; // Inline CSS and sanitise html before sending; true uses the defaults
+  unsubscribe?: UnsubscribeSigningConfig; // Sign unsubscribe URLs with a per-recipient token
+  suppressionList?: SuppressionList; // Recipients on the list are removed before every send
 }
 
 /**
@@ -70,16 +104,131 @@ export interface EmailSendResult {
   success: boolean;
   messageId?: string;
   error?: string;
-  provider: 'aws-ses' | 'smtp';
+  provider: string; // Name of the provider that produced the result
+  errorClass?: SendErrorClass;
+  attempts?: SendAttempt[]; // Every attempt made, in order
+  htmlReport?: HtmlProcessingReport; // Changes made by the HTML pipeline, when enabled
+  suppressed?: SuppressionEntry[]; // Recipients left out because they are on the suppression list
+  scheduled?: { id: string; sendAt: number }; // Set when sendAt/delayMs deferred the send; cancel with cancelScheduled(id)
 }
 
 /**
- * Universal Email Sender class that supports both AWS SES and SMTP
+ * One attempt to send through a provider
+ */
+export interface SendAttempt {
+  provider: string;
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  errorClass?: SendErrorClass;
+  action?: FailoverAction; // What happened after this failure
+  retryDelayMs?: number; // Backoff waited before the next attempt
+}
+
+/**
+ * Failover behaviour of EmailSender.send
+ */
+export interface FailoverConfig {
+  chain?: string[]; // Provider order, defaults to registration order
+  policy?: Partial<FailoverPolicy>; // Overrides for DEFAULT_FAILOVER_POLICY
+}
+
+/**
+ * How a provider would send a message, from EmailSender.getCapabilityReport
+ */
+export interface ProviderCapabilityReport {
+  provider: string;
+  path: string; // API call used, e.g. 'SendEmail' or 'SendRawEmail'
+  preserves: MessageField[]; // Fields the path carries
+  dropped: MessageField[]; // Fields set on the message that the path loses
+}
+
+/**
+ * Message options for EmailSender.sendTemplate; the template supplies subject, text and html
+ */
+export type TemplateSendOptions = Omit<EmailOptions, 'to' | 'subject' | 'text' | 'html'> & {
+  provider?: string;
+};
+
+/**
+ * Options for EmailSender.sendBulk
+ */
+export interface BulkSendOptions {
+  concurrency?: number; // Messages in flight at once (default: 5)
+  stopOnError?: boolean; // Skip the remaining messages after the first failure
+  provider?: string; // Send through this provider only instead of the failover chain
+  onProgress?: (progress: BulkSendProgress) => void;
+  signal?: AbortSignal; // Aborting skips messages not yet started; messages in flight complete
+}
+
+/**
+ * Progress reported after each message of a bulk send
+ */
+export interface BulkSendProgress {
+  completed: number;
+  total: number;
+  successful: number;
+  failed: number;
+  suppressed: number;
+  scheduled: number;
+  item: BulkSendItemResult;
+}
+
+/**
+ * Outcome of one message of a bulk send
+ */
+export interface BulkSendItemResult {
+  index: number; // Position in the messages array
+  to: string | string[];
+  status: 'sent' | 'failed' | 'skipped' | 'suppressed' | 'scheduled'; // Suppressed: every recipient is on the suppression list
+  // Scheduled: the message has a sendAt/delayMs and waits in the scheduler; result.scheduled holds its id
+  result?: EmailSendResult; // Absent for skipped messages
+}
+
+/**
+ * Bulk send result
+ */
+export interface BulkSendResult {
+  successful: number;
+  failed: number;
+  suppressed: number;
+  scheduled: number;
+  skipped: number;
+  total: number;
+  results: BulkSendItemResult[]; // In the order of the messages array
+  duration: number;
+  aborted: boolean;
+}
+
+const DEFAULT_BULK_CONCURRENCY = 5;
+
+const NOT_CONFIGURED_ERRORS: Record<string, string> = {
+  'aws-ses': 'AWS SES not configured. Please provide AWS credentials.',
+  'smtp': 'SMTP not configured. Please provide SMTP configuration.'
+};
+
+/**
+ * Universal Email Sender class with built-in AWS SES and SMTP providers and support for custom ones
  */
 export class EmailSender {
-  private sesClient?: SESClient;
-  private smtpTransporter?: nodemailer.Transporter;
+  private providers = new Map<string, EmailProvider>();
   private defaultFromEmail: string;
+  private dkimOptions?: DkimSigningOptions;
+  private failoverChain?: string[];
+  private failoverPolicy: FailoverPolicy;
+  private retryPolicy?: RetryPolicy;
+  private clock: Clock;
+  private rateLimits: Record<string, RateLimit>;
+  private rateLimiters = new Map<string, RateLimiter>();
+  private quotaLoads = new Map<string, Promise<void>>();
+  private useProviderQuotas: boolean;
+  private dailyCapBehavior: DailyCapBehavior;
+  private scheduler: EmailScheduler;
+  private templateEngine: TemplateEngine;
+  private generateAlternatives: boolean;
+  private htmlProcessing?: HtmlProcessingOptions;
+  private unsubscribeSigning?: UnsubscribeSigningConfig;
+  private suppressionList?: SuppressionList;
 
   constructor(config: EmailSenderConfig = {}) {
     // Auto-detect from environment if enabled (default: true)
@@ -93,6 +242,25 @@ export class EmailSender {
       process.env.SMTP_EMAIL_FROM || 
       'no-reply@example.com';
 
+    this.dkimOptions = config.dkim;
+    this.failoverChain = config.failover?.chain;
+    this.failoverPolicy = { ...DEFAULT_FAILOVER_POLICY, ...config.failover?.policy };
+    this.retryPolicy = config.retry;
+    this.clock = config.clock || systemClock;
+    this.rateLimits = config.rateLimits || {};
+    this.useProviderQuotas = config.useProviderQuotas || false;
+    this.dailyCapBehavior = config.dailyCapBehavior || 'refuse';
+    this.templateEngine = config.templates || new TemplateEngine();
+    this.generateAlternatives = config.generateAlternatives !== false;
+    this.htmlProcessing = config.htmlProcessing === true ? {} : config.htmlProcessing || undefined;
+    this.unsubscribeSigning = config.unsubscribe;
+    this.suppressionList = config.suppressionList;
+    this.scheduler = new EmailScheduler((options, provider) => this.sendNow(options, provider), this.clock);
+
+    Object.entries(this.rateLimits).forEach(([name, limit]) => {
+      this.rateLimiters.set(name, new RateLimiter(limit, this.clock, this.dailyCapBehavior));
+    });
+
     // Initialize AWS SES - check config first, then auto-detect
     if (config.aws) {
       this.initializeAwsSes(config.aws);
@@ -111,6 +279,9 @@ export class EmailSender {
         console.warn('Failed to initialize SMTP from environment variables:', error instanceof Error ? error.message : 'Unknown error');
       }
     }
+
+    // Register custom providers after the built-in ones
+    (config.providers || []).forEach(provider => this.registerProvider(provider));
   }
 
   /**
@@ -157,10 +328,10 @@ export class EmailSender {
   }
 
   /**
-   * Initialize AWS SES client
+   * Initialize AWS SES provider
    */
   private initializeAwsSes(config?: AwsSesConfig): void {
-    this.sesClient = new SESClient({
+    this.registerProvider(new SesProvider(new SESClient({
       region: config?.region || process.env.AWS_REGION || 'us-east-1',
       credentials: config ? {
         accessKeyId: config.accessKeyId || process.env.AWS_ACCESS_KEY_ID!,
@@ -169,269 +340,595 @@ export class EmailSender {
         accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
         secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
       },
-    });
+    })));
   }
 
   /**
-   * Initialize SMTP transporter
+   * Initialize SMTP provider
    */
   private initializeSmtp(config: SmtpConfig): void {
-    this.smtpTransporter = nodemailer.createTransport(config);
+    this.registerProvider(new SmtpProvider(config));
+  }
+
+  /**
+   * Register a provider. Auto-detection tries providers in registration order;
+   * registering a name again replaces the existing provider in place.
+   */
+  registerProvider(provider: EmailProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Remove a provider, returning whether it was registered
+   */
+  unregisterProvider(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  /**
+   * Get a registered provider by name
+   */
+  getProvider(name: string): EmailProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Names of the registered providers, in auto-detection order
+   */
+  getProviderNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Report, for every registered provider, which send path the message would take and which
+   * of its fields would be lost. Throws when the unsubscribe options are invalid.
+   */
+  getCapabilityReport(emailOptions: EmailOptions): ProviderCapabilityReport[] {
+    const options = emailOptions.unsubscribe ? this.withUnsubscribeHeaders(emailOptions) : emailOptions;
+    const message = this.toProviderMessage(options);
+    const fields = getMessageFields(message.options);
+
+    return [...this.providers.values()].map(provider => {
+      const path = getSendPath(provider, message);
+      return {
+        provider: provider.name,
+        path: path.name,
+        preserves: path.preserves,
+        dropped: fields.filter(field => !path.preserves.includes(field))
+      };
+    });
   }
 
   /**
    * Send email via AWS SES
    */
   async sendWithSes(emailOptions: EmailOptions): Promise<EmailSendResult> {
-    if (!this.sesClient) {
+    return await this.sendWith('aws-ses', emailOptions);
+  }
+
+  /**
+   * Send email via SMTP
+   */
+  async sendWithSmtp(emailOptions: EmailOptions): Promise<EmailSendResult> {
+    return await this.sendWith('smtp', emailOptions);
+  }
+
+  /**
+   * Send email via a registered provider, retrying it according to the retry and failover policies
+   */
+  async sendWith(providerName: string, emailOptions: EmailOptions): Promise<EmailSendResult> {
+    return await this.sendThroughChain([providerName], emailOptions);
+  }
+
+  /**
+   * Make a single attempt with one provider, classifying any failure
+   */
+  private async attemptSend(providerName: string, emailOptions: EmailOptions): Promise<SendAttempt> {
+    const provider = this.providers.get(providerName);
+    if (!provider) {
       return {
+        provider: providerName,
         success: false,
-        error: 'AWS SES not configured. Please provide AWS credentials.',
-        provider: 'aws-ses'
+        error: NOT_CONFIGURED_ERRORS[providerName] || `Provider "${providerName}" is not registered.`,
+        errorClass: 'permanent-config'
       };
     }
 
+    let release: (() => void) | undefined;
     try {
-      const toAddresses = Array.isArray(emailOptions.to) ? emailOptions.to : [emailOptions.to];
-      const ccAddresses = emailOptions.cc ? (Array.isArray(emailOptions.cc) ? emailOptions.cc : [emailOptions.cc]) : undefined;
-      const bccAddresses = emailOptions.bcc ? (Array.isArray(emailOptions.bcc) ? emailOptions.bcc : [emailOptions.bcc]) : undefined;
-
-      // If there are attachments, use SendRawEmailCommand
-      if (emailOptions.attachments && emailOptions.attachments.length > 0) {
-        return await this.sendRawEmailWithSes(emailOptions);
+      if (this.dkimOptions && !provider.capabilities.rawMime) {
+        throw new EmailSendError(`Provider "${providerName}" cannot send raw MIME, so DKIM-signed messages cannot be sent through it`, 'permanent-config');
       }
 
-      const params = {
-        Destination: {
-          ToAddresses: toAddresses,
-          CcAddresses: ccAddresses,
-          BccAddresses: bccAddresses,
-        },
-        Message: {
-          Body: {
-            Html: emailOptions.html ? {
-              Charset: 'UTF-8',
-              Data: emailOptions.html,
-            } : undefined,
-            Text: emailOptions.text ? {
-              Charset: 'UTF-8',
-              Data: emailOptions.text,
-            } : undefined,
-          },
-          Subject: {
-            Charset: 'UTF-8',
-            Data: emailOptions.subject,
-          },
-        },
-        Source: emailOptions.from || this.defaultFromEmail,
-        ReplyToAddresses: emailOptions.replyTo ? [emailOptions.replyTo] : undefined,
-      };
-
-      const command = new SendEmailCommand(params);
-      const response = await this.sesClient.send(command);
+      const message = this.toProviderMessage(emailOptions);
+      release = await this.acquireSendCapacity(provider, message.recipients.length);
 
-      return {
-        success: true,
-        messageId: response.MessageId,
-        provider: 'aws-ses'
-      };
+      const { messageId } = await provider.send(message);
+      return { provider: providerName, success: true, messageId };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown AWS SES error';
+      release?.();
       return {
+        provider: providerName,
         success: false,
-        error: errorMessage,
-        provider: 'aws-ses'
+        error: error instanceof Error ? error.message : `Unknown ${providerName} error`,
+        errorClass: classifySendError(error)
       };
     }
   }
 
   /**
-   * Send raw email with attachments via AWS SES
+   * Wait for the provider's rate limit to allow one message per recipient.
+   * Returns a function that gives the daily allowance back if the send fails.
    */
-  private async sendRawEmailWithSes(emailOptions: EmailOptions): Promise<EmailSendResult> {
-    try {
-      // Create a temporary SMTP transporter to generate raw email
-      const tempTransporter = nodemailer.createTransport({
-        sendmail: true,
-        newline: 'unix',
-        path: '/usr/sbin/sendmail'
-      });
+  private async acquireSendCapacity(provider: EmailProvider, recipients: number): Promise<(() => void) | undefined> {
+    if (this.useProviderQuotas && provider.getQuota) {
+      if (!this.quotaLoads.has(provider.name)) {
+        this.quotaLoads.set(provider.name, this.loadQuota(provider));
+      }
+      await this.quotaLoads.get(provider.name);
+    }
 
-      const mailOptions = {
-        from: emailOptions.from || this.defaultFromEmail,
-        to: emailOptions.to,
-        cc: emailOptions.cc,
-        bcc: emailOptions.bcc,
-        subject: emailOptions.subject,
-        text: emailOptions.text,
-        html: emailOptions.html,
-        replyTo: emailOptions.replyTo,
-        attachments: emailOptions.attachments,
-        headers: emailOptions.headers,
-      };
+    const limiter = this.rateLimiters.get(provider.name);
+    return limiter ? await limiter.acquire(recipients) : undefined;
+  }
 
-      // Generate raw email
-      const rawEmail = await new Promise<Buffer>((resolve, reject) => {
-        tempTransporter.sendMail(mailOptions, (error: any, info: any) => {
-          if (error) {
-            reject(error);
-          } else {
-            // Get the raw message
-            resolve(Buffer.from(info.message));
-          }
-        });
-      });
+  /**
+   * Read a provider's quota, sending without it if the provider cannot report it
+   */
+  private async loadQuota(provider: EmailProvider): Promise<void> {
+    try {
+      this.applyQuota(provider.name, await provider.getQuota!());
+    } catch (error) {
+      console.warn(`Failed to read the sending quota of ${provider.name}:`, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
 
-      const params = {
-        RawMessage: {
-          Data: rawEmail,
-        },
-      };
+  /**
+   * Limit a provider by its reported quota. Manually configured limits take precedence.
+   */
+  private applyQuota(providerName: string, quota: ProviderQuota): void {
+    const limit: RateLimit = {
+      maxPerSecond: quota.maxSendRate,
+      maxPer24Hours: quota.max24HourSend,
+      ...this.rateLimits[providerName]
+    };
 
-      const command = new SendRawEmailCommand(params);
-      const response = await this.sesClient!.send(command);
+    let limiter = this.rateLimiters.get(providerName);
+    if (limiter) {
+      limiter.setLimit(limit);
+    } else {
+      limiter = new RateLimiter(limit, this.clock, this.dailyCapBehavior);
+      this.rateLimiters.set(providerName, limiter);
+    }
+    if (quota.sentLast24Hours !== undefined) {
+      limiter.setSentLast24Hours(quota.sentLast24Hours);
+    }
+  }
 
-      return {
-        success: true,
-        messageId: response.MessageId,
-        provider: 'aws-ses'
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown AWS SES raw email error';
-      return {
-        success: false,
-        error: errorMessage,
-        provider: 'aws-ses'
-      };
+  /**
+   * Read the quota of every provider that reports one and apply it to the rate limits
+   */
+  async refreshQuotas(): Promise<Record<string, ProviderQuota>> {
+    const quotas: Record<string, ProviderQuota> = {};
+
+    for (const [name, provider] of this.providers) {
+      if (provider.getQuota) {
+        quotas[name] = await provider.getQuota();
+        this.applyQuota(name, quotas[name]);
+        this.quotaLoads.set(name, Promise.resolve());
+      }
     }
+    return quotas;
   }
 
   /**
-   * Send email via SMTP
+   * Leave out suppressed recipients, then send to the rest through the chain. Nothing is sent
+   * when every recipient is suppressed.
    */
-  async sendWithSmtp(emailOptions: EmailOptions): Promise<EmailSendResult> {
-    if (!this.smtpTransporter) {
-      return {
-        success: false,
-        error: 'SMTP not configured. Please provide SMTP configuration.',
-        provider: 'smtp'
-      };
+  private async sendThroughChain(chain: string[], emailOptions: EmailOptions): Promise<EmailSendResult> {
+    if (!this.suppressionList) {
+      return await this.prepareAndSend(chain, emailOptions);
     }
 
+    let suppressed: SuppressionEntry[];
     try {
-      // Verify SMTP connection
-      await this.smtpTransporter.verify();
-
-      const mailOptions = {
-        from: emailOptions.from || this.defaultFromEmail,
-        to: emailOptions.to,
-        cc: emailOptions.cc,
-        bcc: emailOptions.bcc,
-        subject: emailOptions.subject,
-        text: emailOptions.text,
-        html: emailOptions.html,
-        replyTo: emailOptions.replyTo,
-        attachments: emailOptions.attachments,
-        headers: emailOptions.headers,
+      suppressed = await this.suppressionList.check(this.getRecipients(emailOptions));
+    } catch (error) {
+      return {
+        success: false,
+        error: `Suppression list could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        errorClass: 'transient',
+        provider: chain[0] || 'none'
       };
+    }
+    if (suppressed.length === 0) {
+      return await this.prepareAndSend(chain, emailOptions);
+    }
 
-      const info = await this.smtpTransporter.sendMail(mailOptions);
+    const addresses = new Set(suppressed.map(entry => entry.email));
+    const allowed = (recipients?: string | string[]) => toAddressList(recipients).filter(recipient => !addresses.has(normalizeSuppressedAddress(recipient)));
+    const options = { ...emailOptions, to: allowed(emailOptions.to), cc: allowed(emailOptions.cc), bcc: allowed(emailOptions.bcc) };
 
-      return {
-        success: true,
-        messageId: info.messageId,
-        provider: 'smtp'
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown SMTP error';
+    if (this.getRecipients(options).length === 0) {
       return {
         success: false,
-        error: errorMessage,
-        provider: 'smtp'
+        error: `All recipients are suppressed: ${suppressed.map(entry => `${entry.email} (${entry.reason})`).join(', ')}`,
+        errorClass: 'permanent-recipient',
+        provider: chain[0] || 'none',
+        suppressed
       };
     }
+
+    console.log(`🚫 Skipping suppressed recipients: ${[...addresses].join(', ')}`);
+    return { ...await this.prepareAndSend(chain, options), suppressed };
   }
 
   /**
-   * Send email with automatic fallback (tries SES first, then SMTP)
+   * Add the unsubscribe headers and run the HTML pipeline once, then send through the chain
    */
-  async send(emailOptions: EmailOptions, provider?: 'aws-ses' | 'smtp'): Promise<EmailSendResult> {
-    console.log(`🔧 EmailSender.send() called with provider: ${provider || 'auto-detect'}`);
-    console.log(`   SES Client configured: ${!!this.sesClient}`);
-    console.log(`   SMTP Transporter configured: ${!!this.smtpTransporter}`);
-    
-    if (provider === 'aws-ses') {
-      console.log('📤 Using AWS SES (explicitly requested)');
-      return await this.sendWithSes(emailOptions);
+  private async prepareAndSend(chain: string[], emailOptions: EmailOptions): Promise<EmailSendResult> {
+    let options = emailOptions;
+    if (options.unsubscribe) {
+      try {
+        options = this.withUnsubscribeHeaders(options);
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorClass: 'permanent-config',
+          provider: chain[0] || 'none'
+        };
+      }
+    }
+
+    if (!this.htmlProcessing || !options.html) {
+      return await this.tryProviders(chain, options);
     }
 
-    if (provider === 'smtp') {
-      console.log('📤 Using SMTP (explicitly requested)');
-      return await this.sendWithSmtp(emailOptions);
+    const { html, report } = processHtml(options.html, this.htmlProcessing);
+    report.warnings.forEach(warning => console.warn(`HTML processing: ${warning}`));
+
+    const result = await this.tryProviders(chain, { ...options, html });
+    return { ...result, htmlReport: report };
+  }
+
+  /**
+   * Replace the unsubscribe options with List-Unsubscribe headers. With a signing secret the URL
+   * gets a token for the recipient, so a message with several recipients is refused: any of them
+   * could unsubscribe the one the token names.
+   */
+  private withUnsubscribeHeaders(emailOptions: EmailOptions): EmailOptions {
+    const { unsubscribe, ...options } = emailOptions;
+    const recipient = toAddressList(options.to)[0];
+    let url = unsubscribe!.url;
+
+    if (url && this.unsubscribeSigning && this.getRecipients(options).length > 1) {
+      throw new Error('Signed unsubscribe URLs need one recipient per message; send to each recipient separately');
     }
+    if (url && this.unsubscribeSigning && recipient) {
+      const { secret, tokenTtlMs } = this.unsubscribeSigning;
+      url = buildUnsubscribeUrl(url, recipient.match(/<([^>]+)>\s*$/)?.[1] || recipient.trim(), secret, {
+        list: unsubscribe!.list,
+        expiresAt: tokenTtlMs !== undefined ? this.clock.now() + tokenTtlMs : undefined
+      });
+    }
+
+    const unsubscribeHeaders = buildListUnsubscribeHeaders({ ...unsubscribe, url });
+    const headers = Object.fromEntries(Object.entries(options.headers || {})
+      .filter(([name]) => !/^list-unsubscribe(-post)?$/i.test(name)));
+    return { ...options, headers: { ...headers, ...unsubscribeHeaders } };
+  }
 
-    // Auto-fallback: try SES first, then SMTP
-    if (this.sesClient) {
-      console.log('📤 Auto-detecting: Trying AWS SES first');
-      const sesResult = await this.sendWithSes(emailOptions);
-      if (sesResult.success) {
-        return sesResult;
+  /**
+   * Try providers in order, letting the failover policy decide after each failure
+   * whether to retry, move on to the next provider or stop
+   */
+  private async tryProviders(chain: string[], emailOptions: EmailOptions): Promise<EmailSendResult> {
+    const attempts: SendAttempt[] = [];
+
+    for (const providerName of chain) {
+      for (let attemptNumber = 1; ; attemptNumber++) {
+        console.log(`📤 Trying ${providerName}${attemptNumber > 1 ? ` (attempt ${attemptNumber})` : ''}`);
+        const attempt = await this.attemptSend(providerName, emailOptions);
+        attempts.push(attempt);
+
+        if (attempt.success) {
+          return { success: true, messageId: attempt.messageId, provider: providerName, attempts };
+        }
+
+        const action = this.failoverPolicy[attempt.errorClass!];
+        const retryable = action === 'retry' || (this.retryPolicy !== undefined && (this.retryPolicy.retryable || isRetryableAttempt)(attempt));
+
+        if (retryable && attemptNumber < (this.retryPolicy?.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts)) {
+          attempt.action = 'retry';
+          attempt.retryDelayMs = getBackoffDelay(attemptNumber, this.retryPolicy);
+          await this.clock.sleep(attempt.retryDelayMs);
+          continue;
+        }
+
+        // Retries exhausted: fall through to the next provider
+        attempt.action = action === 'retry' ? 'failover' : action;
+        if (attempt.action === 'stop') {
+          return this.toFailureResult(attempts);
+        }
+        break;
       }
     }
 
-    if (this.smtpTransporter) {
-      console.log('📤 Auto-detecting: Using SMTP');
-      return await this.sendWithSmtp(emailOptions);
+    if (attempts.length === 0) {
+      return {
+        success: false,
+        error: 'No email provider configured. Please configure AWS SES or SMTP.',
+        provider: 'aws-ses',
+        attempts
+      };
     }
+    return this.toFailureResult(attempts);
+  }
 
+  /**
+   * Build the failure result from the last attempt
+   */
+  private toFailureResult(attempts: SendAttempt[]): EmailSendResult {
+    const last = attempts[attempts.length - 1];
     return {
       success: false,
-      error: 'No email provider configured. Please configure AWS SES or SMTP.',
-      provider: 'aws-ses'
+      error: last.error,
+      errorClass: last.errorClass,
+      provider: last.provider,
+      attempts
     };
   }
 
   /**
-   * Test connection to configured email providers
+   * Prepare a message for a provider, generating the missing text or html alternative
    */
-  async testConnection(): Promise<{
-    aws: { configured: boolean; connected?: boolean; error?: string };
-    smtp: { configured: boolean; connected?: boolean; error?: string };
-  }> {
-    const result: {
-      aws: { configured: boolean; connected?: boolean; error?: string };
-      smtp: { configured: boolean; connected?: boolean; error?: string };
-    } = {
-      aws: { configured: false },
-      smtp: { configured: false }
+  private toProviderMessage(emailOptions: EmailOptions): ProviderMessage {
+    const options = { ...emailOptions, from: emailOptions.from || this.defaultFromEmail };
+
+    if (this.generateAlternatives) {
+      if (options.html && !options.text) {
+        options.text = htmlToText(options.html);
+      } else if (options.text && !options.html) {
+        options.html = textToHtml(options.text);
+      }
+    }
+
+    return {
+      options,
+      recipients: this.getRecipients(options),
+      signed: !!this.dkimOptions,
+      buildRaw: () => this.buildRawMessage(options)
     };
+  }
+
+  /**
+   * Envelope recipients: to, cc and bcc
+   */
+  private getRecipients(emailOptions: EmailOptions): string[] {
+    return [...toAddressList(emailOptions.to), ...toAddressList(emailOptions.cc), ...toAddressList(emailOptions.bcc)];
+  }
 
-    // Test AWS SES
-    if (this.sesClient) {
-      result.aws.configured = true;
+  /**
+   * Build the raw MIME message in memory, DKIM signed when signing is configured.
+   * Bcc recipients are never written to the headers; pass them in the envelope.
+   */
+  private buildRawMessage(emailOptions: EmailOptions & { from: string }): MimeMessage {
+    const { raw, messageId } = buildMimeMessage({
+      from: emailOptions.from,
+      to: toAddressList(emailOptions.to),
+      cc: toAddressList(emailOptions.cc),
+      replyTo: emailOptions.replyTo,
+      subject: emailOptions.subject,
+      text: emailOptions.text,
+      html: emailOptions.html,
+      attachments: emailOptions.attachments,
+      headers: emailOptions.headers
+    });
+
+    return {
+      raw: this.dkimOptions ? signDkim(raw, this.dkimOptions) : raw,
+      messageId
+    };
+  }
+
+  /**
+   * Send email through the failover chain (the configured chain, or registered providers in
+   * registration order), or through one provider when it is named explicitly.
+   * With `sendAt` or `delayMs` the send is scheduled and the result returns at once, carrying the
+   * schedule id in `scheduled`; nothing has been sent yet. Use schedule() to also await delivery.
+   */
+  async send(emailOptions: EmailOptions, provider?: string): Promise<EmailSendResult> {
+    if (hasSendTime(emailOptions)) {
       try {
-        // Simple test to check if SES is accessible - try to get sending quota
-        await this.sesClient.send(new GetSendQuotaCommand({}));
-        result.aws.connected = true;
+        const { id, sendAt } = this.schedule(emailOptions, provider);
+        return { success: true, provider: provider || 'none', scheduled: { id, sendAt } };
       } catch (error) {
-        result.aws.connected = false;
-        result.aws.error = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorClass: 'permanent-config',
+          provider: provider || 'none'
+        };
+      }
+    }
+    return await this.sendNow(emailOptions, provider);
+  }
+
+  private async sendNow(emailOptions: EmailOptions, provider?: string): Promise<EmailSendResult> {
+    console.log(`🔧 EmailSender.send() called with provider: ${provider || 'auto-detect'}`);
+    console.log(`   Registered providers: ${this.getProviderNames().join(', ') || 'none'}`);
+
+    return await this.sendThroughChain(provider ? [provider] : this.getFailoverChain(), emailOptions);
+  }
+
+  /**
+   * Render a named template and send it. Nothing is sent when the template is unknown or
+   * variables are missing; the result reports the missing variables instead.
+   */
+  async sendTemplate(templateName: string, data: TemplateData, to: string | string[], options: TemplateSendOptions = {}): Promise<EmailSendResult> {
+    const { provider, ...messageOptions } = options;
+
+    let rendered;
+    try {
+      rendered = this.templateEngine.render(templateName, data);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorClass: 'permanent-config',
+        provider: provider || 'none'
+      };
+    }
+
+    return await this.send({ ...messageOptions, ...rendered, to }, provider);
+  }
+
+  /**
+   * Template engine used by sendTemplate, for registering templates, partials and layouts
+   */
+  getTemplateEngine(): TemplateEngine {
+    return this.templateEngine;
+  }
+
+  /**
+   * Schedule a send for `sendAt` or after `delayMs`, returning its id for cancellation.
+   * Throws when the delivery time is invalid.
+   */
+  schedule(emailOptions: EmailOptions, provider?: string): ScheduledSend {
+    return this.scheduler.schedule(emailOptions, provider);
+  }
+
+  /**
+   * Cancel a scheduled send that has not started
+   */
+  cancelScheduled(id: string): boolean {
+    return this.scheduler.cancel(id);
+  }
+
+  /**
+   * Scheduled sends waiting for their time, soonest first
+   */
+  getScheduled(): ScheduledEmail[] {
+    return this.scheduler.list();
+  }
+
+  /**
+   * Send many messages through this sender's providers, reusing their clients and connections.
+   * Rate limits apply to every message, so concurrency only helps up to the provider's send rate.
+   */
+  async sendBulk(messages: EmailOptions[], options: BulkSendOptions = {}): Promise<BulkSendResult> {
+    const startTime = this.clock.now();
+    const chain = options.provider ? [options.provider] : this.getFailoverChain();
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_BULK_CONCURRENCY);
+    const results: BulkSendItemResult[] = new Array(messages.length);
+    let next = 0;
+    let successful = 0;
+    let failed = 0;
+    let suppressed = 0;
+    let scheduled = 0;
+    let stopped = false;
+
+    console.log(`📬 Sending ${messages.length} messages via ${chain.join(', ') || 'no provider'} (concurrency ${concurrency})`);
+
+    const worker = async () => {
+      while (next < messages.length && !stopped && !options.signal?.aborted) {
+        const index = next++;
+        const message = messages[index];
+        const result = hasSendTime(message)
+          ? await this.send(message, options.provider)
+          : await this.sendThroughChain(chain, message);
+        // Messages with a send time are handed to the scheduler, so they do not hold a worker until then
+        const status = result.scheduled ? 'scheduled' : result.success ? 'sent' : result.suppressed && !result.attempts ? 'suppressed' : 'failed';
+        const item: BulkSendItemResult = { index, to: message.to, status, result };
+        results[index] = item;
+
+        if (status === 'sent') {
+          successful++;
+        } else if (status === 'suppressed') {
+          suppressed++;
+        } else if (status === 'scheduled') {
+          scheduled++;
+        } else {
+          failed++;
+          stopped = stopped || !!options.stopOnError;
+        }
+        const completed = successful + failed + suppressed + scheduled;
+        options.onProgress?.({ completed, total: messages.length, successful, failed, suppressed, scheduled, item });
       }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, messages.length) }, worker));
+
+    for (let index = 0; index < messages.length; index++) {
+      results[index] = results[index] || { index, to: messages[index].to, status: 'skipped' };
     }
 
-    // Test SMTP
-    if (this.smtpTransporter) {
-      result.smtp.configured = true;
+    return {
+      successful,
+      failed,
+      suppressed,
+      scheduled,
+      skipped: messages.length - successful - failed - suppressed - scheduled,
+      total: messages.length,
+      results,
+      duration: this.clock.now() - startTime,
+      aborted: !!options.signal?.aborted
+    };
+  }
+
+  /**
+   * Close pooled provider connections
+   */
+  async close(): Promise<void> {
+    for (const provider of this.providers.values()) {
+      await provider.close?.();
+    }
+  }
+
+  /**
+   * Providers tried by `send` when none is named
+   */
+  getFailoverChain(): string[] {
+    return this.failoverChain || this.getProviderNames();
+  }
+
+  /**
+   * Test connection to configured email providers. Providers that report a sending quota
+   * are checked by reading it, and the quota is applied to their rate limit.
+   */
+  async testConnection(): Promise<{
+    aws: ProviderConnectionStatus;
+    smtp: ProviderConnectionStatus;
+    providers: Record<string, ProviderConnectionStatus>;
+  }> {
+    const providers: Record<string, ProviderConnectionStatus> = {};
+
+    for (const [name, provider] of this.providers) {
       try {
-        await this.smtpTransporter.verify();
-        result.smtp.connected = true;
+        if (provider.getQuota) {
+          const quota = await provider.getQuota();
+          this.applyQuota(name, quota);
+          this.quotaLoads.set(name, Promise.resolve());
+          providers[name] = { configured: true, connected: true, quota };
+        } else {
+          await provider.verify();
+          providers[name] = { configured: true, connected: true };
+        }
       } catch (error) {
-        result.smtp.connected = false;
-        result.smtp.error = error instanceof Error ? error.message : 'Unknown error';
+        providers[name] = {
+          configured: true,
+          connected: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
       }
     }
 
-    return result;
+    return {
+      aws: providers['aws-ses'] || { configured: false },
+      smtp: providers['smtp'] || { configured: false },
+      providers
+    };
   }
 
   /**
@@ -440,12 +937,23 @@ export class EmailSender {
   getConfigStatus(): {
     hasAwsSes: boolean;
     hasSmtp: boolean;
+    hasDkim: boolean;
+    providers: string[];
     defaultFrom: string;
+    rateLimits: Record<string, RateLimitStatus>;
   } {
+    const rateLimits: Record<string, RateLimitStatus> = {};
+    this.rateLimiters.forEach((limiter, name) => {
+      rateLimits[name] = limiter.getStatus();
+    });
+
     return {
-      hasAwsSes: !!this.sesClient,
-      hasSmtp: !!this.smtpTransporter,
-      defaultFrom: this.defaultFromEmail
+      hasAwsSes: this.providers.has('aws-ses'),
+      hasSmtp: this.providers.has('smtp'),
+      hasDkim: !!this.dkimOptions,
+      providers: this.getProviderNames(),
+      defaultFrom: this.defaultFromEmail,
+      rateLimits
     };
   }
 }
@@ -0,0 +1,217 @@
+/**
+ * A named email template. Every part may use `{{variable}}`, `{{{raw}}}` and `{{> partial}}`.
+ */
+export interface EmailTemplate {
+  subject: string;
+  text?: string;
+  html?: string;
+  layout?: string | false; // Layout name; defaults to the engine's defaultLayout, false for none
+}
+
+/**
+ * Shared frame around template bodies. `{{{body}}}` marks where the rendered part goes.
+ */
+export interface EmailLayout {
+  text?: string;
+  html?: string;
+}
+
+/**
+ * Rendered parts, ready to spread into EmailOptions
+ */
+export interface RenderedTemplate {
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+/**
+ * Template variables. Nested objects are reached with dotted paths: `{{user.name}}`.
+ */
+export type TemplateData = Record<string, unknown>;
+
+/**
+ * Configuration of TemplateEngine
+ */
+export interface TemplateEngineOptions {
+  templates?: Record<string, EmailTemplate>;
+  partials?: Record<string, string>;
+  layouts?: Record<string, EmailLayout>;
+  defaultLayout?: string;
+}
+
+/**
+ * Error raised when a template cannot be rendered, listing the variables that had no value
+ */
+export class TemplateError extends Error {
+  constructor(message: string, public readonly missingVariables: string[] = []) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, character => HTML_ESCAPES[character]);
+}
+
+const TAG_PATTERN = /\{\{\{\s*([\w.-]+)\s*\}\}\}|\{\{\s*(>\s*)?([\w.-]+)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+type RenderMode = 'html' | 'text';
+
+/**
+ * Renders named templates with variables, partials and layouts.
+ * `{{name}}` is HTML-escaped in html parts; `{{{name}}}` is inserted as-is.
+ */
+export class TemplateEngine {
+  private templates = new Map<string, EmailTemplate>();
+  private partials = new Map<string, string>();
+  private layouts = new Map<string, EmailLayout>();
+  private defaultLayout?: string;
+
+  constructor(options: TemplateEngineOptions = {}) {
+    Object.entries(options.templates || {}).forEach(([name, template]) => this.registerTemplate(name, template));
+    Object.entries(options.partials || {}).forEach(([name, source]) => this.registerPartial(name, source));
+    Object.entries(options.layouts || {}).forEach(([name, layout]) => this.registerLayout(name, layout));
+    this.defaultLayout = options.defaultLayout;
+  }
+
+  /**
+   * Add or replace a named template
+   */
+  registerTemplate(name: string, template: EmailTemplate): void {
+    this.templates.set(name, template);
+  }
+
+  /**
+   * Add or replace a partial, included with `{{> name}}`
+   */
+  registerPartial(name: string, source: string): void {
+    this.partials.set(name, source);
+  }
+
+  /**
+   * Add or replace a layout
+   */
+  registerLayout(name: string, layout: EmailLayout): void {
+    this.layouts.set(name, layout);
+  }
+
+  /**
+   * Layout applied to templates that do not choose one
+   */
+  setDefaultLayout(name?: string): void {
+    this.defaultLayout = name;
+  }
+
+  /**
+   * Whether a template is registered
+   */
+  hasTemplate(name: string): boolean {
+    return this.templates.has(name);
+  }
+
+  /**
+   * Names of the registered templates
+   */
+  getTemplateNames(): string[] {
+    return [...this.templates.keys()];
+  }
+
+  /**
+   * Render a named template. Throws TemplateError when the template, a partial or a layout is
+   * unknown, or when variables are missing (all missing variables are listed).
+   */
+  render(name: string, data: TemplateData = {}): RenderedTemplate {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new TemplateError(`Template "${name}" is not registered`);
+    }
+
+    const layoutName = template.layout === false ? undefined : template.layout ?? this.defaultLayout;
+    const layout = layoutName !== undefined ? this.layouts.get(layoutName) : undefined;
+    if (layoutName !== undefined && !layout) {
+      throw new TemplateError(`Layout "${layoutName}" is not registered`);
+    }
+
+    const missing = new Set<string>();
+    const renderPart = (source: string | undefined, mode: RenderMode, layoutSource?: string) => {
+      if (source === undefined) {
+        return undefined;
+      }
+      const body = this.renderSource(source, data, mode, missing);
+      return layoutSource !== undefined ? this.renderSource(layoutSource, { ...data, body }, mode, missing) : body;
+    };
+
+    const rendered: RenderedTemplate = {
+      subject: this.renderSource(template.subject, data, 'text', missing).replace(/\s*[\r\n]+\s*/g, ' ').trim(),
+      text: renderPart(template.text, 'text', layout?.text),
+      html: renderPart(template.html, 'html', layout?.html)
+    };
+
+    if (missing.size > 0) {
+      const variables = [...missing];
+      throw new TemplateError(`Template "${name}" is missing variables: ${variables.join(', ')}`, variables);
+    }
+    return rendered;
+  }
+
+  /**
+   * Variables the data lacks for a template, without throwing
+   */
+  findMissingVariables(name: string, data: TemplateData = {}): string[] {
+    try {
+      this.render(name, data);
+      return [];
+    } catch (error) {
+      if (error instanceof TemplateError && error.missingVariables.length > 0) {
+        return error.missingVariables;
+      }
+      throw error;
+    }
+  }
+
+  private renderSource(source: string, data: TemplateData, mode: RenderMode, missing: Set<string>, depth = 0): string {
+    return source.replace(TAG_PATTERN, (_tag, rawPath: string | undefined, partialMarker: string | undefined, path: string) => {
+      if (partialMarker) {
+        const partial = this.partials.get(path);
+        if (partial === undefined) {
+          throw new TemplateError(`Partial "${path}" is not registered`);
+        }
+        if (depth >= MAX_PARTIAL_DEPTH) {
+          throw new TemplateError(`Partials nested more than ${MAX_PARTIAL_DEPTH} levels deep (recursive partial "${path}"?)`);
+        }
+        return this.renderSource(partial, data, mode, missing, depth + 1);
+      }
+
+      const variable = rawPath ?? path;
+      const value = this.lookup(data, variable);
+      if (value === undefined || value === null) {
+        missing.add(variable);
+        return '';
+      }
+
+      const text = String(value);
+      return mode === 'html' && rawPath === undefined ? escapeHtml(text) : text;
+    });
+  }
+
+  private lookup(data: TemplateData, path: string): unknown {
+    return path.split('.').reduce<unknown>((value, key) => (
+      value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)
+        ? (value as Record<string, unknown>)[key]
+        : undefined
+    ), data);
+  }
+}
@@ -1,19 +1,20 @@
-import nodemailer from 'nodemailer';
-import { SESClient, SendEmailCommand } from "@aws-sdk/client-ses";
-import dns from 'dns';
-import { promisify } from 'util';
-
-// Promisify DNS functions
-const resolveMx = promisify(dns.resolveMx);
-const resolveTxt = promisify(dns.resolveTxt);
-
-/**
- * MX Record interface
- */
-export interface MxRecord {
-  exchange: string;
-  priority: number;
-}
+import { SESClient } from "@aws-sdk/client-ses";
+import net from 'net';
+import { parseEmailAddress, toAsciiEmailAddress } from './email-address';
+import { buildMimeMessage } from './mime-builder';
+import { escapeHtml } from './email-template';
+import { textToHtml } from './text-alternative';
+import { DnsResolver, DefaultDnsResolver, DnsStatus, MxRecord, classifyDnsError, isTransientDnsStatus } from './dns-resolver';
+import { SpfEvaluation, SpfEvaluator, spfTreeIncludes } from './spf';
+import { DmarcResult, lookupDmarc } from './dmarc';
+import { DkimCheckResult, discoverDkimSelectors } from './dkim';
+import { ListUnsubscribeCheck, UnsubscribeOptions, buildListUnsubscribeHeaders, checkListUnsubscribe } from './unsubscribe';
+import { SuppressionEntry, SuppressionList } from './suppression-list';
+import { EmailProvider } from './email-provider';
+import { SesProvider } from './ses-provider';
+import { SmtpProvider } from './smtp-provider';
+
+export type { MxRecord, DnsStatus } from './dns-resolver';
 
 /**
  * SMTP Configuration for testing
@@ -35,6 +36,18 @@ export interface TestMessage {
   subject: string;
   text: string;
   html?: string;
+  headers?: Record<string, string>;
+  unsubscribe?: UnsubscribeOptions;
+  bulk?: boolean; // Check the message against the bulk-sender rules (List-Unsubscribe with one-click)
+}
+
+/**
+ * Sending source whose SPF authorisation should be evaluated
+ */
+export interface SpfSource {
+  domain?: string; // Sender domain, defaults to the domain of the from address
+  ip?: string;
+  host?: string; // Outbound host, resolved to an IP when `ip` is not given
 }
 
 /**
@@ -42,38 +55,51 @@ export interface TestMessage {
  */
 export interface EmailTestConfig {
   email: string;
-  provider?: 'aws-ses' | 'smtp' | 'both';
+  provider?: string | string[]; // Provider name(s), 'both' (SES and SMTP, the default) or 'all' registered providers
   smtpConfig?: SmtpConfig;
   testMessage?: TestMessage;
   skipActualDelivery?: boolean;
+  spfSource?: SpfSource; // Evaluated automatically (using the SMTP host) when delivery is tested
+  dkimSelectors?: string[]; // DKIM selectors to check in addition to the tester's defaults
 }
 
 /**
- * Delivery test results for different providers
+ * Delivery test result for one provider
  */
-export interface DeliveryTestResults {
-  awsSes?: {
-    success: boolean;
-    messageId?: string;
-    error?: string;
-  };
-  smtp?: {
-    success: boolean;
-    messageId?: string;
-    error?: string;
-  };
+export interface DeliveryTestResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
 }
 
+/**
+ * Delivery test results keyed by provider name ('aws-ses', 'smtp' or a custom provider)
+ */
+export type DeliveryTestResults = Record<string, DeliveryTestResult>;
+
 /**
  * Complete email test result
  */
 export interface EmailTestResult {
   email: string;
   isValid: boolean;
+  formatIssues: string[];
+  normalizedDomain?: string; // ASCII (punycode) domain used for DNS lookups
+  requiresSmtpUtf8?: boolean; // Non-ASCII local part, deliverable only over SMTPUTF8
   domainExists: boolean;
+  dnsStatus?: DnsStatus; // Outcome of the MX lookup
+  inconclusive: boolean; // DNS failed transiently; retry rather than reject
   mxRecords: MxRecord[];
+  implicitMx?: boolean; // No MX, mail goes to the domain's A/AAAA address
+  nullMx?: boolean; // Domain explicitly refuses mail (RFC 7505)
+  domainLiteral?: boolean; // The address names a host directly, e.g. user@[192.0.2.1]; no MX is needed
   spfRecord?: string;
+  spf?: SpfEvaluation; // SPF evaluation of the sender domain for our sending source
   dmarcRecord?: string;
+  dmarc?: DmarcResult; // Parsed and graded DMARC policy
+  dkim?: DkimCheckResult; // DKIM keys found at the probed selectors
+  listUnsubscribe?: ListUnsubscribeCheck; // Present when the test message is marked as bulk
+  suppressed?: SuppressionEntry; // The address is on the suppression list; no delivery was attempted
   deliverabilityTests: DeliveryTestResults;
   recommendations: string[];
   testDuration?: number;
@@ -85,6 +111,7 @@ export interface EmailTestResult {
 export interface BatchTestResult {
   successful: number;
   failed: number;
+  inconclusive: number;
   total: number;
   results: EmailTestResult[];
   duration: number;
@@ -99,30 +126,57 @@ export interface EmailValidationResult {
     email: string;
     issues: string[];
   }>;
+  inconclusiveEmails: Array<{
+    email: string;
+    dnsStatus?: DnsStatus;
+    issues: string[];
+  }>;
   summary: {
     total: number;
     valid: number;
     invalid: number;
+    inconclusive: number;
   };
 }
 
+/**
+ * Additional EmailDeliverabilityTester options
+ */
+export interface EmailDeliverabilityTesterOptions {
+  dnsResolver?: DnsResolver; // Defaults to a caching resolver using the system nameservers
+  dkimSelectors?: string[]; // DKIM selectors checked for every domain
+  probeCommonDkimSelectors?: boolean; // Also probe well-known selectors (default: true)
+  providers?: EmailProvider[]; // Custom providers available to delivery tests
+  suppressionList?: SuppressionList; // Suppressed addresses are validated but never sent test messages
+}
+
 /**
  * Main EmailDeliverabilityTester class
  */
 export class EmailDeliverabilityTester {
-  private sesClient?: SESClient;
+  private providers = new Map<string, EmailProvider>();
   private defaultFromEmail: string;
+  private dnsResolver: DnsResolver;
+  private spfEvaluator: SpfEvaluator;
+  private dkimSelectors: string[];
+  private probeCommonDkimSelectors: boolean;
+  private suppressionList?: SuppressionList;
 
   constructor(awsConfig?: {
     accessKeyId: string;
     secretAccessKey: string;
     region?: string;
-  }, fromEmail?: string) {
+  }, fromEmail?: string, options: EmailDeliverabilityTesterOptions = {}) {
     this.defaultFromEmail = fromEmail || process.env.EMAIL_FROM || 'no-reply@example.com';
+    this.dnsResolver = options.dnsResolver || new DefaultDnsResolver();
+    this.spfEvaluator = new SpfEvaluator(this.dnsResolver);
+    this.dkimSelectors = options.dkimSelectors || [];
+    this.probeCommonDkimSelectors = options.probeCommonDkimSelectors !== false;
+    this.suppressionList = options.suppressionList;
     
-    // Initialize AWS SES client
+    // Initialize AWS SES provider
     if (awsConfig || (process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY)) {
-      this.sesClient = new SESClient({
+      this.registerProvider(new SesProvider(new SESClient({
         region: awsConfig?.region || process.env.AWS_REGION || 'us-east-1',
         credentials: awsConfig ? {
           accessKeyId: awsConfig.accessKeyId,
@@ -131,35 +185,119 @@ export class EmailDeliverabilityTester {
           accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
           secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
         },
-      });
+      })));
     }
+
+    (options.providers || []).forEach(provider => this.registerProvider(provider));
+  }
+
+  /**
+   * Register a provider for delivery tests, replacing any provider with the same name
+   */
+  registerProvider(provider: EmailProvider): void {
+    this.providers.set(provider.name, provider);
   }
 
   /**
-   * Validate email format using regex
+   * Resolve the provider names selected by a test config
    */
-  private validateEmailFormat(email: string): boolean {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
+  private selectProviders(config: EmailTestConfig): string[] {
+    const selection = config.provider || 'both';
+    if (selection === 'both') {
+      return ['aws-ses', 'smtp'];
+    }
+    if (selection === 'all') {
+      return [...new Set(['aws-ses', 'smtp', ...this.providers.keys()])];
+    }
+    return Array.isArray(selection) ? selection : [selection];
   }
 
   /**
-   * Extract domain from email
+   * Validate email format against RFC 5322/5321
+   */
+  private validateEmailFormat(email: string): {
+    isValid: boolean;
+    issues: string[];
+    isDomainLiteral: boolean;
+    requiresSmtpUtf8: boolean;
+  } {
+    const parsed = parseEmailAddress(email);
+    return {
+      isValid: parsed.valid,
+      issues: parsed.issues,
+      isDomainLiteral: parsed.isDomainLiteral,
+      requiresSmtpUtf8: parsed.requiresSmtpUtf8
+    };
+  }
+
+  /**
+   * Extract domain from email, normalized to its ASCII (IDNA) form for DNS lookups
    */
   private extractDomain(email: string): string {
-    return email.split('@')[1];
+    return parseEmailAddress(email).asciiDomain;
   }
 
   /**
-   * Check if domain exists and get MX records
+   * Check if domain exists and get MX records.
+   * Falls back to A/AAAA records when no MX is published (implicit MX, RFC 5321 section 5.1)
+   * and recognises null MX records (RFC 7505).
    */
-  private async checkDomainAndMX(domain: string): Promise<{ exists: boolean; mxRecords: MxRecord[] }> {
+  private async checkDomainAndMX(domain: string): Promise<{
+    exists: boolean;
+    mxRecords: MxRecord[];
+    dnsStatus: DnsStatus;
+    implicitMx: boolean;
+    nullMx: boolean;
+  }> {
     try {
-      const mxRecords = await resolveMx(domain);
-      return { exists: true, mxRecords: mxRecords || [] };
-    } catch {
-      return { exists: false, mxRecords: [] };
+      const mxRecords = await this.dnsResolver.resolveMx(domain) || [];
+      // The root name "." is returned as an empty exchange
+      const nullMx = mxRecords.length > 0 && mxRecords.every(record => record.exchange === '' || record.exchange === '.');
+      return { exists: true, mxRecords, dnsStatus: 'ok', implicitMx: false, nullMx };
+    } catch (error) {
+      const dnsStatus = classifyDnsError(error);
+      if (dnsStatus !== 'nodata') {
+        return { exists: false, mxRecords: [], dnsStatus, implicitMx: false, nullMx: false };
+      }
+
+      // NODATA means the name exists but publishes no MX records
+      const addressStatus = await this.checkAddressRecords(domain);
+      return {
+        exists: true,
+        mxRecords: [],
+        dnsStatus: addressStatus === 'ok' || addressStatus === 'nodata' || addressStatus === 'nxdomain' ? dnsStatus : addressStatus,
+        implicitMx: addressStatus === 'ok',
+        nullMx: false
+      };
+    }
+  }
+
+  /**
+   * Look up A and AAAA records for a domain, returning `ok` if either exists
+   */
+  private async checkAddressRecords(domain: string): Promise<DnsStatus> {
+    const lookups = await Promise.allSettled([
+      this.dnsResolver.resolve4(domain),
+      this.dnsResolver.resolve6(domain)
+    ]);
+
+    if (lookups.some(lookup => lookup.status === 'fulfilled' && lookup.value.length > 0)) {
+      return 'ok';
     }
+
+    const statuses = lookups.map(lookup => lookup.status === 'rejected' ? classifyDnsError(lookup.reason) : 'nodata');
+    return statuses.find(isTransientDnsStatus) || statuses[0];
+  }
+
+  /**
+   * Check whether a tested address can receive mail
+   */
+  private isDeliverable(result: EmailTestResult): boolean {
+    return result.isValid &&
+      !result.suppressed &&
+      result.domainExists &&
+      !result.nullMx &&
+      (result.mxRecords.length > 0 || !!result.implicitMx || !!result.domainLiteral);
   }
 
   /**
@@ -167,7 +305,7 @@ export class EmailDeliverabilityTester {
    */
   private async checkSpfRecord(domain: string): Promise<string | undefined> {
     try {
-      const txtRecords = await resolveTxt(domain);
+      const txtRecords = await this.dnsResolver.resolveTxt(domain);
       const spfRecord = txtRecords.find(record => 
         record.some(txt => txt.toLowerCase().startsWith('v=spf1'))
       );
@@ -178,80 +316,198 @@ export class EmailDeliverabilityTester {
   }
 
   /**
-   * Check DMARC record
+   * Evaluate the sender domain's SPF policy against our sending source.
+   * Without a known source IP the policy is inspected instead.
    */
-  private async checkDmarcRecord(domain: string): Promise<string | undefined> {
-    try {
-      const dmarcDomain = `_dmarc.${domain}`;
-      const txtRecords = await resolveTxt(dmarcDomain);
-      const dmarcRecord = txtRecords.find(record => 
-        record.some(txt => txt.toLowerCase().startsWith('v=dmarc1'))
-      );
-      return dmarcRecord ? dmarcRecord.join('') : undefined;
-    } catch {
+  private async evaluateSenderSpf(config: EmailTestConfig): Promise<SpfEvaluation | undefined> {
+    const source = config.spfSource || {};
+    const domain = source.domain || parseEmailAddress(this.defaultFromEmail).asciiDomain;
+    if (!domain) {
       return undefined;
     }
+
+    const host = source.host || (this.selectProviders(config).includes('smtp') ? config.smtpConfig?.host : undefined);
+
+    if (source.ip && !net.isIP(source.ip)) {
+      const evaluation = await this.spfEvaluator.inspect(domain);
+      evaluation.warnings.unshift(`Sending source "${source.ip}" is not a valid IP address, so the policy was inspected without it.`);
+      return evaluation;
+    }
+
+    let ip = source.ip;
+    if (!ip && host) {
+      ip = net.isIP(host) ? host : (await this.dnsResolver.resolve4(host).catch(() => []))[0];
+    }
+
+    return ip
+      ? await this.spfEvaluator.checkHost(ip, domain, this.defaultFromEmail)
+      : await this.spfEvaluator.inspect(domain);
   }
 
   /**
-   * Test email delivery via AWS SES
+   * Recommendations for the sender domain's SPF evaluation
    */
-  private async testAwsSesDelivery(config: EmailTestConfig): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    if (!this.sesClient) {
-      return { success: false, error: 'AWS SES not configured' };
+  private spfRecommendations(spf: SpfEvaluation, usesSes: boolean): string[] {
+    const recommendations: string[] = [];
+
+    switch (spf.result) {
+      case 'none':
+        recommendations.push(`No SPF record found for sender domain ${spf.domain}. Publish one authorising your sending services.`);
+        return recommendations;
+      case 'permerror':
+        recommendations.push(`SPF record for ${spf.domain} is broken (permerror: ${spf.explanation}). Receivers will treat it as invalid.`);
+        break;
+      case 'temperror':
+        recommendations.push(`SPF evaluation for ${spf.domain} failed temporarily (${spf.explanation}). Retry later.`);
+        break;
+      case 'fail':
+      case 'softfail':
+      case 'neutral':
+        if (spf.ip) {
+          recommendations.push(`Sending source ${spf.ip} is not authorised by the SPF record for ${spf.domain} (${spf.result}). Add it to the record.`);
+        }
+        break;
     }
 
-    if (config.skipActualDelivery) {
-      return { success: true, messageId: 'skipped-test-mode' };
+    spf.warnings.forEach(warning => recommendations.push(`SPF (${spf.domain}): ${warning}`));
+
+    if (usesSes && !spfTreeIncludes(spf.tree, 'amazonses.com')) {
+      recommendations.push(`SPF record for ${spf.domain} does not include amazonses.com. Add "include:amazonses.com" if SES sends with a custom MAIL FROM domain.`);
     }
 
-    const defaultMessage: TestMessage = {
-      subject: 'Email Deliverability Test',
-      text: `This is a test email to verify deliverability for ${config.email}`,
-      html: `<p>This is a test email to verify deliverability for <strong>${config.email}</strong></p>`
-    };
+    return recommendations;
+  }
 
-    const message = config.testMessage || defaultMessage;
+  /**
+   * Check DMARC record
+   */
+  private async checkDmarcRecord(domain: string): Promise<DmarcResult> {
+    return lookupDmarc(this.dnsResolver, domain);
+  }
 
-    const params = {
-      Destination: {
-        ToAddresses: [config.email],
-      },
-      Message: {
-        Body: {
-          Html: {
-            Charset: 'UTF-8',
-            Data: message.html || message.text,
-          },
-          Text: {
-            Charset: 'UTF-8',
-            Data: message.text,
-          },
-        },
-        Subject: {
-          Charset: 'UTF-8',
-          Data: message.subject,
-        },
-      },
-      Source: this.defaultFromEmail,
-    };
+  /**
+   * Recommendations for a discovered DMARC policy
+   */
+  private dmarcRecommendations(dmarc: DmarcResult): string[] {
+    const recommendations: string[] = [];
+    const location = `_dmarc.${dmarc.recordDomain || dmarc.domain}`;
+
+    if (dmarc.errors.length > 0) {
+      recommendations.push(`DMARC record at ${location} has problems: ${dmarc.errors.join('; ')}.`);
+    }
+    if (dmarc.warnings.length > 0) {
+      recommendations.push(`DMARC record at ${location}: ${dmarc.warnings.join('; ')}.`);
+    }
+
+    const record = dmarc.record;
+    const policy = dmarc.effectivePolicy;
+    if (!record || !policy) {
+      return recommendations;
+    }
+
+    // Mail from a subdomain without its own record is governed by the organizational sp tag
+    const tag = dmarc.source === 'organizational' && record.sp ? 'sp' : 'p';
+    if (policy === 'none' && record.rua.length === 0) {
+      recommendations.push(`DMARC policy is ${tag}=none with no rua tag, so no reports are being collected. Add rua=mailto:... to receive aggregate reports.`);
+    } else if (policy === 'none') {
+      recommendations.push(`DMARC policy is ${tag}=none (monitoring only). Move to ${tag}=quarantine or ${tag}=reject once aggregate reports look clean.`);
+    }
+
+    if (policy !== 'none' && record.pct < 100) {
+      recommendations.push(`DMARC enforcement applies to only ${record.pct}% of failing mail (pct=${record.pct}). Raise pct to 100.`);
+    }
+
+    if (policy !== 'none' && record.sp === 'none') {
+      recommendations.push('DMARC sp=none exempts subdomains from enforcement. Remove sp or set it to quarantine/reject.');
+    }
+
+    return recommendations;
+  }
+
+  /**
+   * Probe the domain for DKIM keys
+   */
+  private async checkDkimRecords(domain: string, selectors: string[] = []): Promise<DkimCheckResult> {
+    return discoverDkimSelectors(
+      this.dnsResolver,
+      domain,
+      [...this.dkimSelectors, ...selectors],
+      this.probeCommonDkimSelectors
+    );
+  }
+
+  /**
+   * Recommendations for discovered DKIM keys
+   */
+  private dkimRecommendations(dkim: DkimCheckResult): string[] {
+    const recommendations: string[] = [];
+
+    if (dkim.selectors.length === 0) {
+      recommendations.push(`No DKIM key found for selectors ${dkim.probedSelectors.join(', ')}. Configure your selector (e.g. SES Easy DKIM tokens) via dkimSelectors to verify DKIM.`);
+      return recommendations;
+    }
+
+    for (const key of dkim.selectors) {
+      if (key.revoked) {
+        recommendations.push(`DKIM key for selector "${key.selector}" is revoked (empty p=). Messages signed with it will fail DKIM.`);
+      } else if (key.weak) {
+        recommendations.push(`DKIM key for selector "${key.selector}" is only ${key.keyBits} bits. Rotate to a 2048-bit RSA key.`);
+      }
+      if (key.testing) {
+        recommendations.push(`DKIM key for selector "${key.selector}" is in testing mode (t=y). Remove the flag once signing is verified.`);
+      }
+      if (key.errors.length > 0) {
+        recommendations.push(`DKIM record for selector "${key.selector}" has problems: ${key.errors.join('; ')}.`);
+      }
+    }
+
+    return recommendations;
+  }
 
+  /**
+   * Headers of a test message, including its List-Unsubscribe headers. Throws on invalid unsubscribe options.
+   */
+  private getMessageHeaders(message: TestMessage): Record<string, string> | undefined {
+    if (!message.unsubscribe) {
+      return message.headers;
+    }
+    return { ...message.headers, ...buildListUnsubscribeHeaders(message.unsubscribe) };
+  }
+
+  /**
+   * Check that a bulk test message can be unsubscribed from in one click
+   */
+  private checkBulkMessage(message: TestMessage): ListUnsubscribeCheck {
     try {
-      const command = new SendEmailCommand(params);
-      const response = await this.sesClient.send(command);
-      return { success: true, messageId: response.MessageId };
+      return checkListUnsubscribe(this.getMessageHeaders(message));
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return { success: false, error: errorMessage };
+      return {
+        present: false,
+        oneClick: false,
+        issues: [`Unsubscribe options are invalid: ${error instanceof Error ? error.message : 'Unknown error'}.`]
+      };
     }
   }
 
   /**
-   * Test email delivery via SMTP
+   * Test email delivery via one provider. SMTP uses the per-test `smtpConfig` when given.
    */
-  private async testSmtpDelivery(config: EmailTestConfig): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    if (!config.smtpConfig) {
-      return { success: false, error: 'SMTP configuration not provided' };
+  private async testProviderDelivery(providerName: string, config: EmailTestConfig): Promise<DeliveryTestResult> {
+    const provider = providerName === 'smtp' && config.smtpConfig
+      ? new SmtpProvider(config.smtpConfig)
+      : this.providers.get(providerName);
+
+    if (!provider) {
+      const errors: Record<string, string> = {
+        'aws-ses': 'AWS SES not configured',
+        'smtp': 'SMTP configuration not provided'
+      };
+      return { success: false, error: errors[providerName] || `Provider "${providerName}" is not registered` };
+    }
+
+    if (parseEmailAddress(config.email).requiresSmtpUtf8 && !provider.capabilities.smtpUtf8) {
+      const label = providerName === 'aws-ses' ? 'AWS SES' : providerName;
+      return { success: false, error: `${label} does not support SMTPUTF8 (non-ASCII local parts)` };
     }
 
     if (config.skipActualDelivery) {
@@ -261,26 +517,30 @@ export class EmailDeliverabilityTester {
     const defaultMessage: TestMessage = {
       subject: 'Email Deliverability Test',
       text: `This is a test email to verify deliverability for ${config.email}`,
-      html: `<p>This is a test email to verify deliverability for <strong>${config.email}</strong></p>`
+      html: `<p>This is a test email to verify deliverability for <strong>${escapeHtml(config.email)}</strong></p>`
     };
 
     const message = config.testMessage || defaultMessage;
+    const from = providerName === 'smtp' ? config.smtpConfig?.auth?.user || this.defaultFromEmail : this.defaultFromEmail;
+    // Providers such as SES only accept internationalized domains in punycode form
+    const to = toAsciiEmailAddress(config.email);
 
     try {
-      const transporter = nodemailer.createTransport(config.smtpConfig);
-      
-      // Verify SMTP connection
-      await transporter.verify();
-
-      const info = await transporter.sendMail({
-        from: config.smtpConfig.auth?.user || this.defaultFromEmail,
-        to: config.email,
+      const options = {
+        from,
+        to,
         subject: message.subject,
         text: message.text,
-        html: message.html || message.text,
+        html: message.html || textToHtml(message.text),
+        headers: this.getMessageHeaders(message),
+      };
+      const { messageId } = await provider.send({
+        options,
+        recipients: [to],
+        signed: false,
+        buildRaw: () => buildMimeMessage({ ...options, to: [to] })
       });
-
-      return { success: true, messageId: info.messageId };
+      return { success: true, messageId };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return { success: false, error: errorMessage };
@@ -294,31 +554,65 @@ export class EmailDeliverabilityTester {
     const recommendations: string[] = [];
 
     if (!result.isValid) {
-      recommendations.push('Email format is invalid. Please check the email address.');
+      const details = result.formatIssues?.length ? ` (${result.formatIssues.join('; ')})` : '';
+      recommendations.push(`Email format is invalid${details}. Please check the email address.`);
     }
 
-    if (!result.domainExists) {
-      recommendations.push('Domain does not exist or has no MX records. Check domain configuration.');
+    if (result.suppressed) {
+      const { reason, createdAt, source } = result.suppressed;
+      recommendations.push(`Address is on the suppression list (${reason}${source ? ` via ${source}` : ''}, since ${new Date(createdAt).toISOString()}). No test message was sent; remove it from the list only if the cause is resolved.`);
     }
 
-    if (result.mxRecords && result.mxRecords.length === 0) {
-      recommendations.push('No MX records found. Email delivery may fail.');
+    if (result.requiresSmtpUtf8) {
+      recommendations.push('Local part contains non-ASCII characters and can only be delivered over SMTPUTF8 (RFC 6531). AWS SES cannot send to it, and the SMTP server must advertise SMTPUTF8.');
+    }
+
+    if (result.inconclusive) {
+      recommendations.push(`DNS lookup was inconclusive (${result.dnsStatus}). Retry later instead of rejecting this address.`);
+    } else {
+      if (!result.domainExists) {
+        recommendations.push('Domain does not exist or has no MX records. Check domain configuration.');
+      }
+
+      if (result.nullMx) {
+        recommendations.push('Domain publishes a null MX record (RFC 7505) and does not accept email.');
+      } else if (result.implicitMx) {
+        recommendations.push('No MX records found; mail will be delivered to the domain\'s A/AAAA address (implicit MX). Consider publishing an MX record.');
+      } else if (result.mxRecords && result.mxRecords.length === 0 && !result.domainLiteral) {
+        recommendations.push('No MX records found. Email delivery may fail.');
+      }
     }
 
     if (!result.spfRecord) {
       recommendations.push('No SPF record found. Consider adding an SPF record to improve deliverability.');
     }
 
-    if (!result.dmarcRecord) {
+    if (result.spf) {
+      recommendations.push(...this.spfRecommendations(result.spf, result.deliverabilityTests?.['aws-ses']?.success === true));
+    }
+
+    // Several records leave raw unset; dmarcRecommendations reports those on their own
+    if (!result.dmarcRecord && !result.dmarc?.recordDomain) {
       recommendations.push('No DMARC record found. Consider adding a DMARC policy for better email security.');
     }
 
-    if (result.deliverabilityTests?.awsSes?.success === false) {
-      recommendations.push(`AWS SES delivery failed: ${result.deliverabilityTests.awsSes.error}`);
+    if (result.dmarc) {
+      recommendations.push(...this.dmarcRecommendations(result.dmarc));
     }
 
-    if (result.deliverabilityTests?.smtp?.success === false) {
-      recommendations.push(`SMTP delivery failed: ${result.deliverabilityTests.smtp.error}`);
+    if (result.dkim) {
+      recommendations.push(...this.dkimRecommendations(result.dkim));
+    }
+
+    if (result.listUnsubscribe) {
+      recommendations.push(...result.listUnsubscribe.issues);
+    }
+
+    const providerLabels: Record<string, string> = { 'aws-ses': 'AWS SES', 'smtp': 'SMTP' };
+    for (const [providerName, test] of Object.entries(result.deliverabilityTests || {})) {
+      if (!test.success) {
+        recommendations.push(`${providerLabels[providerName] || providerName} delivery failed: ${test.error}`);
+      }
     }
 
     if (recommendations.length === 0) {
@@ -339,8 +633,18 @@ export class EmailDeliverabilityTester {
     };
 
     // Validate email format
-    result.isValid = this.validateEmailFormat(config.email);
-    
+    const format = this.validateEmailFormat(config.email);
+    result.isValid = format.isValid;
+    result.formatIssues = format.issues;
+    result.requiresSmtpUtf8 = format.requiresSmtpUtf8;
+    result.inconclusive = false;
+
+    result.suppressed = await this.suppressionList?.get(config.email);
+
+    if (config.testMessage?.bulk) {
+      result.listUnsubscribe = this.checkBulkMessage(config.testMessage);
+    }
+
     if (!result.isValid) {
       result.domainExists = false;
       result.mxRecords = [];
@@ -349,30 +653,47 @@ export class EmailDeliverabilityTester {
       return result as EmailTestResult;
     }
 
-    // Extract domain and check domain/MX records
-    const domain = this.extractDomain(config.email);
-    const domainCheck = await this.checkDomainAndMX(domain);
-    result.domainExists = domainCheck.exists;
-    result.mxRecords = domainCheck.mxRecords;
-
-    // Check SPF and DMARC records
-    result.spfRecord = await this.checkSpfRecord(domain);
-    result.dmarcRecord = await this.checkDmarcRecord(domain);
+    if (format.isDomainLiteral) {
+      // Domain literals address a host directly, so there is nothing to look up in DNS
+      result.domainExists = true;
+      result.domainLiteral = true;
+      result.mxRecords = [];
+    } else {
+      // Extract domain and check domain/MX records
+      const domain = this.extractDomain(config.email);
+      result.normalizedDomain = domain;
+      const domainCheck = await this.checkDomainAndMX(domain);
+      result.domainExists = domainCheck.exists;
+      result.dnsStatus = domainCheck.dnsStatus;
+      result.inconclusive = isTransientDnsStatus(domainCheck.dnsStatus);
+      result.mxRecords = domainCheck.mxRecords;
+      result.implicitMx = domainCheck.implicitMx;
+      result.nullMx = domainCheck.nullMx;
+
+      // Check SPF, DMARC and DKIM records, unless the domain is missing or DNS is failing
+      if (domainCheck.exists && !result.inconclusive) {
+        result.spfRecord = await this.checkSpfRecord(domain);
+        result.dmarc = await this.checkDmarcRecord(domain);
+        result.dmarcRecord = result.dmarc.raw;
+        result.dkim = await this.checkDkimRecords(domain, config.dkimSelectors);
+      }
+    }
 
     // Initialize deliverabilityTests if not already set
     if (!result.deliverabilityTests) {
       result.deliverabilityTests = {};
     }
 
-    // Test delivery based on provider preference
-    const provider = config.provider || 'both';
-
-    if (provider === 'aws-ses' || provider === 'both') {
-      result.deliverabilityTests.awsSes = await this.testAwsSesDelivery(config);
+    // Test delivery based on provider preference, never sending to suppressed addresses
+    if (!result.suppressed) {
+      for (const providerName of this.selectProviders(config)) {
+        result.deliverabilityTests[providerName] = await this.testProviderDelivery(providerName, config);
+      }
     }
 
-    if (provider === 'smtp' || provider === 'both') {
-      result.deliverabilityTests.smtp = await this.testSmtpDelivery(config);
+    // Evaluate SPF for our own sending source when delivery is tested or a source is given
+    if (config.spfSource || !config.skipActualDelivery) {
+      result.spf = await this.evaluateSenderSpf(config);
     }
 
     // Generate recommendations
@@ -390,6 +711,7 @@ export class EmailDeliverabilityTester {
     const results: EmailTestResult[] = [];
     let successful = 0;
     let failed = 0;
+    let inconclusive = 0;
     
     for (const config of configs) {
       try {
@@ -397,8 +719,9 @@ export class EmailDeliverabilityTester {
         results.push(result);
         
         // Check if email is generally deliverable
-        const isDeliverable = result.isValid && result.domainExists && result.mxRecords.length > 0;
-        if (isDeliverable) {
+        if (result.inconclusive) {
+          inconclusive++;
+        } else if (this.isDeliverable(result)) {
           successful++;
         } else {
           failed++;
@@ -408,7 +731,9 @@ export class EmailDeliverabilityTester {
         results.push({
           email: config.email,
           isValid: false,
+          formatIssues: [],
           domainExists: false,
+          inconclusive: false,
           mxRecords: [],
           deliverabilityTests: {},
           recommendations: [`Error testing email: ${error instanceof Error ? error.message : 'Unknown error'}`]
@@ -419,6 +744,7 @@ export class EmailDeliverabilityTester {
     return {
       successful,
       failed,
+      inconclusive,
       total: configs.length,
       results,
       duration: Date.now() - startTime
@@ -438,11 +764,16 @@ export class EmailDeliverabilityTester {
     
     const validEmails: string[] = [];
     const invalidEmails: Array<{ email: string; issues: string[] }> = [];
+    const inconclusiveEmails: Array<{ email: string; dnsStatus?: DnsStatus; issues: string[] }> = [];
 
     batchResult.results.forEach(result => {
-      const isValid = result.isValid && result.domainExists && result.mxRecords.length > 0;
-      
-      if (isValid) {
+      if (result.inconclusive) {
+        inconclusiveEmails.push({
+          email: result.email,
+          dnsStatus: result.dnsStatus,
+          issues: result.recommendations.filter(r => !r.includes('successfully'))
+        });
+      } else if (this.isDeliverable(result)) {
         validEmails.push(result.email);
       } else {
         invalidEmails.push({
@@ -455,10 +786,12 @@ export class EmailDeliverabilityTester {
     return {
       validEmails,
       invalidEmails,
+      inconclusiveEmails,
       summary: {
         total: emails.length,
         valid: validEmails.length,
-        invalid: invalidEmails.length
+        invalid: invalidEmails.length,
+        inconclusive: inconclusiveEmails.length
       }
     };
   }
@@ -467,7 +800,7 @@ export class EmailDeliverabilityTester {
    * Check if AWS SES is configured
    */
   isAwsSesConfigured(): boolean {
-    return !!this.sesClient;
+    return this.providers.has('aws-ses');
   }
 
   /**
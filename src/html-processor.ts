@@ -0,0 +1,659 @@
+import { decodeHtmlEntities } from './text-alternative';
+
+/**
+ * Steps of the HTML pipeline run by EmailSender before providers see the message
+ */
+export interface HtmlProcessingOptions {
+  inlineCss?: boolean; // Copy <style> rules into style attributes (default: true)
+  sanitize?: boolean; // Remove scripts, forms, embeds, event handlers, script URLs, non-image data: URLs and script in CSS (default: true)
+  removeExternalFonts?: boolean; // Remove external stylesheets, @import and @font-face (default: true)
+  baseUrl?: string; // Resolve relative image and link URLs against this; without it they are reported
+  maxSizeBytes?: number; // Warn above this size (default: 102400, where Gmail clips messages)
+}
+
+/**
+ * What the pipeline changed
+ */
+export interface HtmlProcessingReport {
+  changed: boolean;
+  originalSize: number; // Bytes
+  size: number; // Bytes after processing
+  inlinedRules: number; // Selector rules copied into style attributes
+  keptRules: number; // Rules left in <style> because they cannot be inlined (media queries, :hover, ...)
+  removedElements: Record<string, number>; // By tag name
+  removedAttributes: Record<string, number>; // Event handlers, script URLs and styles running script, by attribute name
+  removedCssRules: number; // @import and @font-face rules, and rules running script
+  escapedBrackets: number; // Stray "<" written out as &lt;, such as tags the parser could not read
+  rewrittenUrls: Array<{ from: string; to: string }>;
+  relativeUrls: string[]; // Relative URLs left as they were because no baseUrl was given
+  warnings: string[];
+}
+
+/**
+ * Processed HTML and the report of the changes
+ */
+export interface HtmlProcessingResult {
+  html: string;
+  report: HtmlProcessingReport;
+}
+
+export const DEFAULT_MAX_HTML_SIZE = 102 * 1024;
+
+interface ElementNode {
+  type: 'element';
+  name: string;
+  attributes: Array<[string, string | undefined]>;
+  children: HtmlNode[];
+  parent?: ElementNode;
+}
+
+type HtmlNode = ElementNode | { type: 'text' | 'raw'; value: string };
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+const UNSAFE_ELEMENTS = new Set(['script', 'noscript', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'input', 'button', 'select', 'textarea']);
+const SCRIPT_URL_ATTRIBUTES = new Set(['href', 'src', 'action', 'background', 'formaction']);
+const URL_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  area: ['href'],
+  img: ['src'],
+  table: ['background'],
+  td: ['background'],
+  th: ['background'],
+  body: ['background']
+};
+// Elements whose end tag is optional, with the open elements a new start tag implicitly closes
+const IMPLIED_END: Record<string, string[]> = {
+  p: ['p'],
+  li: ['li'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  tr: ['td', 'th', 'tr'],
+  option: ['option']
+};
+const NOT_STYLED = new Set(['html', 'head', 'title', 'meta', 'link', 'style', 'script', 'base']);
+
+// Attributes may be separated by "/" as well as whitespace, as browsers accept <img/src=x>. An unquoted
+// value runs to the next space or ">", so the lookahead stops it from backtracking into a separator.
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<![^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[\s/]+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+(?![^\s"'>])))?)*)\s*(\/?)>|[^<]+|</g;
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+/**
+ * Parse HTML into a forgiving tree: unknown end tags are ignored and unclosed elements end with their parent
+ */
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { type: 'element', name: '#root', attributes: [], children: [] };
+  const stack: ElementNode[] = [root];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(html))) {
+    const [token, closing, rawName, attributeSource = '', selfClosing] = match;
+    const parent = stack[stack.length - 1];
+
+    if (!rawName) {
+      parent.children.push({ type: token.startsWith('<!') ? 'raw' : 'text', value: token });
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    if (closing) {
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+    while (stack.length > 1 && IMPLIED_END[name]?.includes(stack[stack.length - 1].name)) {
+      stack.pop();
+    }
+
+    const attributes: Array<[string, string | undefined]> = [];
+    for (const [, attributeName, doubleQuoted, singleQuoted, unquoted] of attributeSource.matchAll(ATTRIBUTE_PATTERN)) {
+      const value = doubleQuoted ?? singleQuoted ?? unquoted;
+      attributes.push([attributeName.toLowerCase(), value !== undefined ? decodeHtmlEntities(value) : undefined]);
+    }
+
+    const element: ElementNode = { type: 'element', name, attributes, children: [], parent: stack[stack.length - 1] };
+    element.parent!.children.push(element);
+
+    if (RAW_TEXT_ELEMENTS.has(name) && !selfClosing) {
+      const end = html.toLowerCase().indexOf(`</${name}`, TOKEN_PATTERN.lastIndex);
+      const contentEnd = end === -1 ? html.length : end;
+      element.children.push({ type: 'raw', value: html.slice(TOKEN_PATTERN.lastIndex, contentEnd) });
+      const closeEnd = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+      TOKEN_PATTERN.lastIndex = closeEnd;
+    } else if (!VOID_ELEMENTS.has(name) && !selfClosing) {
+      stack.push(element);
+    }
+  }
+  return root;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+function serializeHtml(nodes: HtmlNode[]): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      return node.value.replace(/</g, '&lt;');
+    }
+    if (node.type !== 'element') {
+      return node.value;
+    }
+    const attributes = node.attributes
+      .map(([name, value]) => value === undefined ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`)
+      .join('');
+    if (VOID_ELEMENTS.has(node.name)) {
+      return `<${node.name}${attributes}>`;
+    }
+    return `<${node.name}${attributes}>${serializeHtml(node.children)}</${node.name}>`;
+  }).join('');
+}
+
+/**
+ * Count text nodes holding a "<" the parser could not read as a tag
+ */
+function countStrayBrackets(element: ElementNode): number {
+  return element.children.reduce((total, child) => total + (
+    child.type === 'element' ? countStrayBrackets(child) : Number(child.type === 'text' && child.value.includes('<'))
+  ), 0);
+}
+
+function getAttribute(element: ElementNode, name: string): string | undefined {
+  return element.attributes.find(([attributeName]) => attributeName === name)?.[1];
+}
+
+function setAttribute(element: ElementNode, name: string, value: string): void {
+  const attribute = element.attributes.find(([attributeName]) => attributeName === name);
+  if (attribute) {
+    attribute[1] = value;
+  } else {
+    element.attributes.push([name, value]);
+  }
+}
+
+function walkElements(element: ElementNode, visit: (element: ElementNode) => void): void {
+  for (const child of [...element.children]) {
+    if (child.type === 'element') {
+      visit(child);
+      if (child.parent === element) {
+        walkElements(child, visit);
+      }
+    }
+  }
+}
+
+function removeElement(element: ElementNode): void {
+  if (element.parent) {
+    element.parent.children = element.parent.children.filter(child => child !== element);
+    element.parent = undefined;
+  }
+}
+
+function getTextContent(element: ElementNode): string {
+  return element.children.map(child => child.type === 'element' ? getTextContent(child) : child.value).join('');
+}
+
+// --- CSS ---------------------------------------------------------------------------------
+
+interface CompoundSelector {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: Array<{ name: string; value?: string }>;
+}
+
+interface ParsedSelector {
+  parts: CompoundSelector[]; // Rightmost last
+  combinators: Array<' ' | '>'>; // combinators[i] joins parts[i] and parts[i + 1]
+  specificity: number;
+}
+
+interface Declaration {
+  property: string;
+  value: string;
+  important: boolean;
+}
+
+/**
+ * Split on a separator outside quotes and parentheses
+ */
+function splitOutside(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const character = source[i];
+    if (quote) {
+      quote = character === quote ? '' : quote;
+    } else if (character === '"' || character === "'") {
+      quote = character;
+    } else if (character === '(') {
+      depth++;
+    } else if (character === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (character === separator && depth === 0) {
+      parts.push(source.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(source.slice(start));
+  return parts;
+}
+
+function parseDeclarations(source: string): Declaration[] {
+  return splitOutside(source, ';').flatMap(part => {
+    const colon = part.indexOf(':');
+    if (colon === -1) {
+      return [];
+    }
+    const property = part.slice(0, colon).trim().toLowerCase();
+    let value = part.slice(colon + 1).trim();
+    const important = /!\s*important$/i.test(value);
+    value = value.replace(/\s*!\s*important$/i, '');
+    return property && value ? [{ property, value, important }] : [];
+  });
+}
+
+function serializeDeclarations(declarations: Declaration[]): string {
+  return declarations.map(({ property, value }) => `${property}: ${value}`).join('; ');
+}
+
+/**
+ * Split a stylesheet into top-level blocks: `prelude { body }`, with at-rules kept whole
+ */
+function splitStylesheet(css: string): Array<{ prelude: string; body: string; source: string }> {
+  const blocks: Array<{ prelude: string; body: string; source: string }> = [];
+  let position = 0;
+
+  while (position < css.length) {
+    const open = css.indexOf('{', position);
+    const semicolon = css.indexOf(';', position);
+
+    // Statement at-rules such as @import end with a semicolon before any block
+    if (semicolon !== -1 && (open === -1 || semicolon < open) && css.slice(position, semicolon).trim().startsWith('@')) {
+      const source = css.slice(position, semicolon + 1).trim();
+      blocks.push({ prelude: source.slice(0, -1).trim(), body: '', source });
+      position = semicolon + 1;
+      continue;
+    }
+    if (open === -1) {
+      break;
+    }
+
+    let depth = 1;
+    let end = open + 1;
+    while (end < css.length && depth > 0) {
+      depth += css[end] === '{' ? 1 : css[end] === '}' ? -1 : 0;
+      end++;
+    }
+    blocks.push({
+      prelude: css.slice(position, open).trim(),
+      body: css.slice(open + 1, end - 1),
+      source: css.slice(position, end).trim()
+    });
+    position = end;
+  }
+  return blocks;
+}
+
+const COMPOUND_PATTERN = /^([a-z][\w-]*|\*)?((?:#[\w-]+|\.[\w-]+|\[[\w-]+(?:=(?:"[^"]*"|'[^']*'|[\w-]+))?\])*)$/i;
+
+/**
+ * Parse the selectors that can be matched statically; pseudo-classes, sibling combinators and
+ * other dynamic selectors return undefined and stay in the stylesheet
+ */
+function parseSelector(selector: string): ParsedSelector | undefined {
+  const tokens = selector.trim().replace(/\s*>\s*/g, ' > ').split(/\s+/);
+  const parts: CompoundSelector[] = [];
+  const combinators: Array<' ' | '>'> = [];
+  let specificity = 0;
+  let pendingCombinator: ' ' | '>' = ' ';
+
+  for (const token of tokens) {
+    if (token === '>') {
+      if (parts.length === 0) {
+        return undefined;
+      }
+      pendingCombinator = '>';
+      continue;
+    }
+
+    const match = token.match(COMPOUND_PATTERN);
+    if (!match || !token) {
+      return undefined;
+    }
+
+    const compound: CompoundSelector = { classes: [], attributes: [] };
+    if (match[1] && match[1] !== '*') {
+      compound.tag = match[1].toLowerCase();
+      specificity += 1;
+    }
+    for (const [simple] of (match[2] || '').matchAll(/#[\w-]+|\.[\w-]+|\[[^\]]+\]/g)) {
+      if (simple[0] === '#') {
+        compound.id = simple.slice(1);
+        specificity += 10000;
+      } else if (simple[0] === '.') {
+        compound.classes.push(simple.slice(1));
+        specificity += 100;
+      } else {
+        const [name, value] = simple.slice(1, -1).split('=');
+        compound.attributes.push({ name: name.toLowerCase(), value: value?.replace(/^["']|["']$/g, '') });
+        specificity += 100;
+      }
+    }
+
+    if (parts.length > 0) {
+      combinators.push(pendingCombinator);
+    }
+    parts.push(compound);
+    pendingCombinator = ' ';
+  }
+
+  return parts.length > 0 && pendingCombinator === ' ' ? { parts, combinators, specificity } : undefined;
+}
+
+function matchesCompound(element: ElementNode, compound: CompoundSelector): boolean {
+  if (compound.tag && element.name !== compound.tag) {
+    return false;
+  }
+  if (compound.id && getAttribute(element, 'id') !== compound.id) {
+    return false;
+  }
+  const classes = (getAttribute(element, 'class') || '').split(/\s+/);
+  if (!compound.classes.every(className => classes.includes(className))) {
+    return false;
+  }
+  return compound.attributes.every(({ name, value }) => {
+    const actual = getAttribute(element, name);
+    return value === undefined ? element.attributes.some(([attributeName]) => attributeName === name) : actual === value;
+  });
+}
+
+function matchesSelector(element: ElementNode, selector: ParsedSelector, index = selector.parts.length - 1): boolean {
+  if (!matchesCompound(element, selector.parts[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+
+  const combinator = selector.combinators[index - 1];
+  let ancestor = element.parent;
+  while (ancestor && ancestor.name !== '#root') {
+    if (matchesSelector(ancestor, selector, index - 1)) {
+      return true;
+    }
+    if (combinator === '>') {
+      return false;
+    }
+    ancestor = ancestor.parent;
+  }
+  return false;
+}
+
+// --- Pipeline ----------------------------------------------------------------------------
+
+function count(record: Record<string, number>, key: string): void {
+  record[key] = (record[key] || 0) + 1;
+}
+
+/**
+ * Whether a URL attribute value runs script or embeds arbitrary content. Browsers ignore tabs, line
+ * breaks and control characters in URLs, so they are removed before the scheme is checked.
+ */
+function isUnsafeUrl(value: string): boolean {
+  const url = value.replace(/[\u0000-\u0020\u007f]+/g, '').toLowerCase();
+  return /^(javascript|vbscript):/.test(url) || (url.startsWith('data:') && !url.startsWith('data:image/'));
+}
+
+/**
+ * Whether CSS runs script: expression(), behaviours and bindings, or url() values that isUnsafeUrl
+ * rejects. Comments and backslash escapes are removed first, since both can split or disguise a keyword.
+ */
+function isUnsafeCss(css: string): boolean {
+  const decoded = css
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\\([0-9a-fA-F]{1,6})\s?/g, (_, hex: string) => String.fromCodePoint(Math.min(parseInt(hex, 16), 0x10ffff)))
+    .replace(/\\(.)/g, '$1')
+    .toLowerCase();
+  if (/expression\s*\(|behavior\s*:|-moz-binding/.test(decoded)) {
+    return true;
+  }
+  return [...decoded.matchAll(/url\(\s*(?:"([^"]*)"|'([^']*)'|([^)]*))/g)]
+    .some(([, doubleQuoted, singleQuoted, unquoted]) => isUnsafeUrl(doubleQuoted ?? singleQuoted ?? unquoted));
+}
+
+/**
+ * Remove scripts, forms, embedded content, event handlers, script URLs and script in CSS
+ */
+function sanitize(root: ElementNode, report: HtmlProcessingReport): void {
+  walkElements(root, element => {
+    if (UNSAFE_ELEMENTS.has(element.name)) {
+      count(report.removedElements, element.name);
+      removeElement(element);
+      return;
+    }
+
+    if (element.name === 'style') {
+      const blocks = splitStylesheet(getTextContent(element));
+      const kept = blocks.filter(block => !isUnsafeCss(block.source));
+      if (kept.length !== blocks.length) {
+        report.removedCssRules += blocks.length - kept.length;
+        element.children = [{ type: 'raw', value: kept.map(block => block.source).join('\n') }];
+      }
+    }
+
+    element.attributes = element.attributes.filter(attribute => {
+      const [name, value] = attribute;
+      const scriptUrl = value !== undefined && SCRIPT_URL_ATTRIBUTES.has(name) && isUnsafeUrl(value);
+      if (name.startsWith('on') || scriptUrl) {
+        count(report.removedAttributes, name);
+        return false;
+      }
+      if (name === 'style' && value !== undefined && isUnsafeCss(value)) {
+        // Keep the safe declarations; the attribute is counted once however many are dropped
+        count(report.removedAttributes, name);
+        const declarations = parseDeclarations(value.replace(/\/\*[\s\S]*?\*\//g, ''))
+          .filter(declaration => !isUnsafeCss(`${declaration.property}: ${declaration.value}`));
+        attribute[1] = serializeDeclarations(declarations);
+        return declarations.length > 0;
+      }
+      return true;
+    });
+  });
+  report.escapedBrackets = countStrayBrackets(root);
+}
+
+/**
+ * Remove external stylesheets and web fonts, which most mail clients block anyway
+ */
+function removeExternalFonts(root: ElementNode, report: HtmlProcessingReport): void {
+  walkElements(root, element => {
+    if (element.name === 'link' && /stylesheet|preload|preconnect/i.test(getAttribute(element, 'rel') || '')) {
+      count(report.removedElements, 'link');
+      removeElement(element);
+    } else if (element.name === 'style') {
+      const blocks = splitStylesheet(getTextContent(element));
+      const kept = blocks.filter(block => !/^@(import|font-face)\b/i.test(block.prelude));
+      if (kept.length !== blocks.length) {
+        report.removedCssRules += blocks.length - kept.length;
+        element.children = [{ type: 'raw', value: kept.map(block => block.source).join('\n') }];
+      }
+    }
+  });
+}
+
+/**
+ * Copy <style> rules into style attributes. Existing style attributes win over stylesheet rules
+ * unless the rule is !important. Rules that cannot be inlined stay in their <style> element.
+ */
+function inlineCss(root: ElementNode, report: HtmlProcessingReport): void {
+  const rules: Array<{ selector: ParsedSelector; declarations: Declaration[]; order: number }> = [];
+  const inlinedStyles: ElementNode[] = [];
+
+  walkElements(root, element => {
+    if (element.name !== 'style' || getAttribute(element, 'media')) {
+      return;
+    }
+
+    const keptBlocks: string[] = [];
+    for (const block of splitStylesheet(getTextContent(element).replace(/\/\*[\s\S]*?\*\//g, ''))) {
+      if (block.prelude.startsWith('@')) {
+        keptBlocks.push(block.source);
+        report.keptRules++;
+        continue;
+      }
+
+      const declarations = parseDeclarations(block.body);
+      const unsupported: string[] = [];
+      for (const selectorSource of splitOutside(block.prelude, ',')) {
+        const selector = parseSelector(selectorSource);
+        if (selector) {
+          rules.push({ selector, declarations, order: rules.length });
+          report.inlinedRules++;
+        } else {
+          unsupported.push(selectorSource.trim());
+        }
+      }
+      if (unsupported.length > 0) {
+        keptBlocks.push(`${unsupported.join(', ')} { ${block.body.trim()} }`);
+        report.keptRules++;
+      }
+    }
+
+    if (keptBlocks.length > 0) {
+      element.children = [{ type: 'raw', value: keptBlocks.join('\n') }];
+    } else {
+      inlinedStyles.push(element);
+    }
+  });
+
+  // Style elements whose rules were all inlined are no longer needed
+  inlinedStyles.forEach(removeElement);
+
+  if (rules.length === 0) {
+    return;
+  }
+
+  rules.sort((a, b) => a.selector.specificity - b.selector.specificity || a.order - b.order);
+
+  walkElements(root, element => {
+    if (NOT_STYLED.has(element.name)) {
+      return;
+    }
+
+    const applied = new Map<string, Declaration>();
+    for (const rule of rules) {
+      if (matchesSelector(element, rule.selector)) {
+        for (const declaration of rule.declarations) {
+          const existing = applied.get(declaration.property);
+          if (!existing || declaration.important || !existing.important) {
+            applied.set(declaration.property, declaration);
+          }
+        }
+      }
+    }
+    if (applied.size === 0) {
+      return;
+    }
+
+    for (const declaration of parseDeclarations(getAttribute(element, 'style') || '')) {
+      const fromSheet = applied.get(declaration.property);
+      if (!fromSheet || !fromSheet.important || declaration.important) {
+        applied.delete(declaration.property);
+        applied.set(declaration.property, declaration);
+      }
+    }
+    setAttribute(element, 'style', serializeDeclarations([...applied.values()]));
+  });
+}
+
+/**
+ * Make image and link URLs absolute
+ */
+function resolveUrls(root: ElementNode, baseUrl: string | undefined, report: HtmlProcessingReport): void {
+  walkElements(root, element => {
+    for (const attribute of URL_ATTRIBUTES[element.name] || []) {
+      const url = getAttribute(element, attribute)?.trim();
+      if (!url || /^([a-z][a-z0-9+.-]*:|#)/i.test(url)) {
+        continue; // Absolute, mailto:, cid:, data: or a fragment
+      }
+
+      let resolved: string | undefined;
+      if (url.startsWith('//')) {
+        resolved = `https:${url}`;
+      } else if (baseUrl) {
+        try {
+          resolved = new URL(url, baseUrl).toString();
+        } catch {
+          resolved = undefined;
+        }
+      }
+
+      if (resolved) {
+        setAttribute(element, attribute, resolved);
+        report.rewrittenUrls.push({ from: url, to: resolved });
+      } else if (!report.relativeUrls.includes(url)) {
+        report.relativeUrls.push(url);
+      }
+    }
+  });
+
+  if (report.relativeUrls.length > 0) {
+    report.warnings.push(`Relative URLs cannot be loaded by mail clients; set baseUrl to resolve them: ${report.relativeUrls.join(', ')}`);
+  }
+}
+
+/**
+ * Run the HTML email pipeline: sanitising, removing external fonts, inlining CSS and resolving URLs
+ */
+export function processHtml(html: string, options: HtmlProcessingOptions = {}): HtmlProcessingResult {
+  const report: HtmlProcessingReport = {
+    changed: false,
+    originalSize: Buffer.byteLength(html),
+    size: 0,
+    inlinedRules: 0,
+    keptRules: 0,
+    removedElements: {},
+    removedAttributes: {},
+    removedCssRules: 0,
+    escapedBrackets: 0,
+    rewrittenUrls: [],
+    relativeUrls: [],
+    warnings: []
+  };
+
+  const root = parseHtml(html);
+  if (options.sanitize !== false) {
+    sanitize(root, report);
+  }
+  if (options.removeExternalFonts !== false) {
+    removeExternalFonts(root, report);
+  }
+  if (options.inlineCss !== false) {
+    inlineCss(root, report);
+  }
+  resolveUrls(root, options.baseUrl, report);
+
+  const changed = report.inlinedRules > 0
+    || report.removedCssRules > 0
+    || report.escapedBrackets > 0
+    || report.rewrittenUrls.length > 0
+    || Object.keys(report.removedElements).length > 0
+    || Object.keys(report.removedAttributes).length > 0;
+  const output = changed ? serializeHtml(root.children) : html;
+
+  report.changed = changed;
+  report.size = Buffer.byteLength(output);
+  const maxSize = options.maxSizeBytes ?? DEFAULT_MAX_HTML_SIZE;
+  if (report.size > maxSize) {
+    report.warnings.push(`HTML is ${Math.ceil(report.size / 1024)} KB; messages over ${Math.round(maxSize / 1024)} KB are clipped by Gmail`);
+  }
+
+  return { html: output, report };
+}
@@ -2,19 +2,271 @@
 export {
   EmailDeliverabilityTester,
   type MxRecord,
+  type DnsStatus,
   type SmtpConfig,
   type TestMessage,
   type EmailTestConfig,
+  type DeliveryTestResult,
   type DeliveryTestResults,
   type EmailTestResult,
   type BatchTestResult,
   type EmailValidationResult,
+  type EmailDeliverabilityTesterOptions,
+  type SpfSource,
   quickEmailValidation,
   quickEmailTestWithSes,
   quickEmailTestWithSmtp,
   batchEmailValidation
 } from './email-tester';
 
+// Export DNS resolvers
+export {
+  DefaultDnsResolver,
+  FakeDnsResolver,
+  createDnsError,
+  classifyDnsError,
+  isTransientDnsStatus,
+  type DnsResolver,
+  type DnsResolverOptions,
+  type FakeDnsRecords
+} from './dns-resolver';
+
+// Export SPF evaluation
+export {
+  SpfEvaluator,
+  SpfEvaluationError,
+  parseSpfRecord,
+  expandSpfMacros,
+  isSpfRecord,
+  spfTreeIncludes,
+  type SpfResult,
+  type SpfQualifier,
+  type SpfMechanism,
+  type SpfRecord,
+  type SpfTreeNode,
+  type SpfEvaluation,
+  type SpfEvaluatorOptions
+} from './spf';
+
+// Export DMARC parsing
+export {
+  parseDmarcRecord,
+  lookupDmarc,
+  getOrganizationalDomain,
+  getDmarcStrength,
+  isDmarcRecord,
+  type DmarcPolicy,
+  type DmarcAlignment,
+  type DmarcStrength,
+  type DmarcRecord,
+  type DmarcParseResult,
+  type DmarcResult
+} from './dmarc';
+
+// Export DKIM key discovery
+export {
+  discoverDkimSelectors,
+  lookupDkimSelector,
+  parseDkimRecord,
+  getDkimKeyBits,
+  COMMON_DKIM_SELECTORS,
+  MIN_RSA_KEY_BITS,
+  type DkimKeyRecord,
+  type DkimParseResult,
+  type DkimSelectorResult,
+  type DkimCheckResult
+} from './dkim';
+
+// Export email address parsing
+export {
+  parseEmailAddress,
+  isValidEmailAddress,
+  toAsciiEmailAddress,
+  type ParsedEmailAddress
+} from './email-address';
+
+// Export DKIM signing
+export {
+  signDkim,
+  verifyDkimSignature,
+  DEFAULT_DKIM_HEADERS,
+  type DkimSigningOptions,
+  type DkimCanonicalization,
+  type DkimVerificationResult
+} from './dkim-signer';
+
+// Export MIME composition
+export {
+  buildMimeMessage,
+  encodeWords,
+  encodeQuotedPrintable,
+  foldHeader,
+  getContentType,
+  type MimeMessageOptions,
+  type MimeMessage
+} from './mime-builder';
+
+// Export email providers
+export {
+  toAddressList,
+  getMessageFields,
+  getSendPath,
+  type EmailProvider,
+  type EmailProviderCapabilities,
+  type BuiltInProviderName,
+  type ProviderMessage,
+  type ProviderSendResult,
+  type ProviderConnectionStatus,
+  type ProviderQuota,
+  type ProviderSendPath,
+  type MessageField
+} from './email-provider';
+export { SesProvider } from './ses-provider';
+export { SmtpProvider } from './smtp-provider';
+
+// Export send error classification and failover policy
+export {
+  classifySendError,
+  EmailSendError,
+  DEFAULT_FAILOVER_POLICY,
+  type SendErrorClass,
+  type FailoverAction,
+  type FailoverPolicy
+} from './send-error';
+
+// Export retry policy and clock
+export {
+  getBackoffDelay,
+  isRetryableAttempt,
+  DEFAULT_RETRY_POLICY,
+  type RetryPolicy
+} from './retry-policy';
+export { systemClock, type Clock } from './clock';
+
+// Export rate limiting
+export {
+  RateLimiter,
+  type RateLimit,
+  type RateLimitStatus,
+  type DailyCapBehavior
+} from './rate-limiter';
+
+// Export templating
+export {
+  TemplateEngine,
+  TemplateError,
+  escapeHtml,
+  type EmailTemplate,
+  type EmailLayout,
+  type RenderedTemplate,
+  type TemplateData,
+  type TemplateEngineOptions
+} from './email-template';
+
+// Export plain-text and HTML alternatives
+export { htmlToText, textToHtml, decodeHtmlEntities } from './text-alternative';
+
+// Export HTML processing
+export {
+  processHtml,
+  DEFAULT_MAX_HTML_SIZE,
+  type HtmlProcessingOptions,
+  type HtmlProcessingReport,
+  type HtmlProcessingResult
+} from './html-processor';
+
+// Export List-Unsubscribe support
+export {
+  ONE_CLICK_UNSUBSCRIBE,
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  buildUnsubscribeUrl,
+  isOneClickUnsubscribeRequest,
+  buildListUnsubscribeHeaders,
+  checkListUnsubscribe,
+  type UnsubscribeOptions,
+  type UnsubscribeSigningConfig,
+  type UnsubscribeTokenOptions,
+  type UnsubscribeTokenVerification,
+  type ListUnsubscribeCheck
+} from './unsubscribe';
+
+// Export the suppression list
+export {
+  SuppressionList,
+  normalizeSuppressedAddress,
+  type SuppressionReason,
+  type SuppressionEntry,
+  type SuppressOptions,
+  type SuppressionListConfig,
+  type SuppressionImportResult,
+  type SuppressionExportFormat
+} from './suppression-list';
+
+// Export bounce parsing
+export {
+  parseBounce,
+  classifyBounce,
+  suppressBouncedRecipients,
+  type DsnAction,
+  type BounceClassification,
+  type BounceRecipient,
+  type ParsedBounce,
+  type BounceSuppressionOptions
+} from './bounce-parser';
+
+// Export SES notification handling
+export {
+  SesNotificationHandler,
+  parseSesNotification,
+  classifySesBounce,
+  buildSnsStringToSign,
+  verifySnsSignature,
+  type SesMail,
+  type SesMailHeader,
+  type SesCommonHeaders,
+  type SesBounceType,
+  type SesBounce,
+  type SesBouncedRecipient,
+  type SesComplaint,
+  type SesDelivery,
+  type SesNotification,
+  type SnsMessageType,
+  type SnsEnvelope,
+  type TrackedSend,
+  type SesBounceEvent,
+  type SesComplaintEvent,
+  type SesDeliveryEvent,
+  type SnsSubscriptionEvent,
+  type SesNotificationEvents,
+  type SesNotificationEvent,
+  type SesNotificationListener,
+  type SesNotificationHandlerConfig,
+  type SesNotificationHandleResult
+} from './ses-notifications';
+
+// Export scheduled delivery
+export {
+  EmailScheduler,
+  resolveSendTime,
+  hasSendTime,
+  withoutSendTime,
+  type SendTimeOptions,
+  type ScheduledEmail,
+  type ScheduledSend
+} from './email-scheduler';
+
+// Export persistent outbound queue
+export {
+  EmailQueue,
+  DEFAULT_QUEUE_RETRY_POLICY,
+  type QueueState,
+  type QueuedEmail,
+  type EnqueueOptions,
+  type EmailQueueConfig,
+  type QueueDrainResult
+} from './email-queue';
+
 // Export email sender functionality
 export {
   EmailSender,
@@ -22,6 +274,15 @@ export {
   type EmailOptions,
   type AwsSesConfig,
   type EmailSendResult,
+  type EmailSenderConfig,
+  type SendAttempt,
+  type FailoverConfig,
+  type TemplateSendOptions,
+  type BulkSendOptions,
+  type BulkSendProgress,
+  type BulkSendItemResult,
+  type BulkSendResult,
+  type ProviderCapabilityReport,
   quickSendEmail,
   quickSendWithSes,
   quickSendWithSmtp
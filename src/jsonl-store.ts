@@ -0,0 +1,164 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Configuration of JsonlStore
+ */
+export interface JsonlStoreConfig<T> {
+  path: string; // JSONL file holding the records
+  key: keyof T & string; // Field identifying a record; a later record replaces an earlier one with the same key
+  compactAfter?: number; // Rewrite the file once it holds this many superseded records (default: 1000)
+  reviver?: (key: string, value: unknown) => unknown; // Passed to JSON.parse for each line
+  restore?: (record: T) => T; // Adjust a record read back from the file, e.g. to reset interrupted work
+  retain?: (record: T) => boolean; // Records to keep when compacting (default: all)
+}
+
+type RemovedRecord = { removed: true } & Record<string, unknown>;
+
+/**
+ * Records keyed by one field, backed by an append-only JSONL file.
+ *
+ * Each change appends a line, and the last line for a key wins when the file is read. Removals
+ * append a `{ <key>, removed: true }` line. Writes are serialized, and the file is rewritten with
+ * only the current records once enough lines have been superseded.
+ */
+export class JsonlStore<T> {
+  private records = new Map<string, T>();
+  private loaded?: Promise<void>;
+  private writes: Promise<void> = Promise.resolve();
+  private superseded = 0;
+
+  constructor(private config: JsonlStoreConfig<T>) {}
+
+  /**
+   * Read the file once, keeping the last record of each key
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFile();
+    }
+    return this.loaded;
+  }
+
+  get(key: string): T | undefined {
+    return this.records.get(key);
+  }
+
+  /**
+   * Current records, in the order their keys were first written
+   */
+  values(): T[] {
+    return [...this.records.values()];
+  }
+
+  /**
+   * Add or replace a record
+   */
+  async set(record: T): Promise<void> {
+    await this.load();
+
+    const key = this.keyOf(record);
+    if (this.records.has(key)) {
+      this.superseded++;
+    }
+    this.records.set(key, record);
+    await this.append(record);
+
+    if (this.superseded >= (this.config.compactAfter ?? 1000)) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Remove a record; false when there is none with this key
+   */
+  async delete(key: string): Promise<boolean> {
+    await this.load();
+
+    if (!this.records.has(key)) {
+      return false;
+    }
+    this.records.delete(key);
+    this.superseded++;
+    await this.append({ [this.config.key]: key, removed: true });
+    return true;
+  }
+
+  /**
+   * Rewrite the file with only the current records that `retain` keeps
+   */
+  async compact(): Promise<void> {
+    await this.load();
+    await this.enqueueWrite(async () => {
+      const retain = this.config.retain;
+      for (const [key, record] of this.records) {
+        if (retain && !retain(record)) {
+          this.records.delete(key);
+        }
+      }
+      const temporaryPath = `${this.config.path}.${process.pid}.tmp`;
+      const lines = this.values().map(record => JSON.stringify(record) + '\n').join('');
+      await fs.writeFile(temporaryPath, lines);
+      await fs.rename(temporaryPath, this.config.path);
+      this.superseded = 0;
+    });
+  }
+
+  private keyOf(record: T | RemovedRecord): string {
+    return String((record as Record<string, unknown>)[this.config.key]);
+  }
+
+  private async append(record: T | RemovedRecord): Promise<void> {
+    await this.enqueueWrite(() => fs.appendFile(this.config.path, JSON.stringify(record) + '\n'));
+  }
+
+  /**
+   * Serialize file writes so records are appended in order
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private async readFile(): Promise<void> {
+    let content = '';
+    try {
+      content = await fs.readFile(this.config.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      await fs.mkdir(path.dirname(this.config.path), { recursive: true });
+    }
+
+    if (content && !content.endsWith('\n')) {
+      // Terminate a partial last line so the next record starts on its own line
+      await fs.appendFile(this.config.path, '\n');
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: T | RemovedRecord;
+      try {
+        record = JSON.parse(line, this.config.reviver);
+      } catch {
+        // A crash can leave a partial last line
+        continue;
+      }
+
+      const key = this.keyOf(record);
+      if (this.records.has(key)) {
+        this.superseded++;
+      }
+      if ((record as RemovedRecord).removed) {
+        this.records.delete(key);
+      } else {
+        this.records.set(key, this.config.restore ? this.config.restore(record as T) : record as T);
+      }
+    }
+  }
+}
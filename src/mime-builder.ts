@@ -0,0 +1,309 @@
+import crypto from 'crypto';
+import path from 'path';
+import type { EmailAttachment } from './email-sender';
+import { EmailSendError } from './send-error';
+
+/**
+ * Input for composing a MIME message. Bcc recipients are deliberately absent:
+ * they belong in the envelope (SMTP RCPT TO / SES Destinations), not in the headers.
+ */
+export interface MimeMessageOptions {
+  from: string;
+  to?: string[];
+  cc?: string[];
+  replyTo?: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+  headers?: Record<string, string>;
+  messageId?: string; // Generated from the From domain when omitted
+  date?: Date;
+}
+
+/**
+ * Composed message
+ */
+export interface MimeMessage {
+  raw: Buffer;
+  messageId: string;
+}
+
+interface MimePart {
+  headers: string[];
+  body?: string; // Already transfer-encoded, CRLF line endings
+  children?: MimePart[];
+}
+
+const MAX_LINE_LENGTH = 76;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.ics': 'text/calendar'
+};
+
+/**
+ * Guess a content type from a file name
+ */
+export function getContentType(filename: string): string {
+  return CONTENT_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Check whether a string needs no encoding to appear in a header
+ */
+function isPrintableAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+/**
+ * Encode text as RFC 2047 B encoded-words, splitting on character boundaries so each word stays within 75 characters
+ */
+export function encodeWords(value: string): string {
+  const words: string[] = [];
+  let chunk = '';
+
+  for (const char of value) {
+    // 12 = length of "=?UTF-8?B?" + "?="; base64 grows by 4/3
+    if (Math.ceil(Buffer.byteLength(chunk + char) / 3) * 4 + 12 > 75) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+
+  return words.map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join(' ');
+}
+
+/**
+ * Encode an unstructured header value when it contains non-ASCII text
+ */
+function encodeHeaderValue(value: string): string {
+  return isPrintableAscii(value) ? value : encodeWords(value);
+}
+
+/**
+ * Encode the display name of an address (`Name <user@example.com>`)
+ */
+function encodeAddress(address: string): string {
+  const match = address.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+  if (!match || !match[1]) {
+    return address.trim();
+  }
+
+  const name = match[1].replace(/^"(.*)"$/, '$1');
+  if (!isPrintableAscii(name)) {
+    return `${encodeWords(name)} <${match[2]}>`;
+  }
+  return /[()<>\[\]:;@\\,."]/.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}" <${match[2]}>` : `${name} <${match[2]}>`;
+}
+
+/**
+ * Fold a header field onto continuation lines at whitespace (RFC 5322 section 2.2.3)
+ */
+export function foldHeader(name: string, value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Header ${name} must not contain line breaks`);
+  }
+
+  const lines: string[] = [];
+  let line = `${name}:`;
+  for (const token of value.split(/(?= )/)) {
+    const piece = line === `${name}:` ? ` ${token.replace(/^ /, '')}` : token;
+    if (line.length + piece.length > MAX_LINE_LENGTH && line !== `${name}:`) {
+      lines.push(line);
+      line = piece.startsWith(' ') ? piece : ` ${piece}`;
+    } else {
+      line += piece;
+    }
+  }
+  lines.push(line);
+
+  return lines.join('\r\n');
+}
+
+/**
+ * Quoted-printable encoding (RFC 2045 section 6.7) with soft breaks at 76 characters
+ */
+export function encodeQuotedPrintable(text: string): string {
+  return text.replace(/\r?\n/g, '\n').split('\n').map(line => {
+    const bytes = Buffer.from(line);
+    let encoded = '';
+    bytes.forEach((byte, index) => {
+      const isTrailingSpace = (byte === 0x20 || byte === 0x09) && index === bytes.length - 1;
+      const isSafe = (byte >= 0x21 && byte <= 0x7e && byte !== 0x3d) || byte === 0x20 || byte === 0x09;
+      encoded += isSafe && !isTrailingSpace ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+    });
+
+    const softLines: string[] = [];
+    while (encoded.length > MAX_LINE_LENGTH) {
+      let cut = MAX_LINE_LENGTH - 1;
+      // Never split an =XX escape
+      const escape = encoded.lastIndexOf('=', cut);
+      if (escape > cut - 3) cut = escape;
+      softLines.push(`${encoded.slice(0, cut)}=`);
+      encoded = encoded.slice(cut);
+    }
+    softLines.push(encoded);
+    return softLines.join('\r\n');
+  }).join('\r\n');
+}
+
+/**
+ * Base64 encoding wrapped at 76 characters
+ */
+function encodeBase64(content: Buffer): string {
+  return (content.toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+/**
+ * Create a text/plain or text/html part, using 7bit when the text allows it
+ */
+function textPart(contentType: string, text: string): MimePart {
+  const normalized = text.replace(/\r?\n/g, '\r\n');
+  const is7bit = /^[\x00-\x7f]*$/.test(normalized) && normalized.split('\r\n').every(line => line.length <= 998);
+
+  return {
+    headers: [
+      `Content-Type: ${contentType}; charset=utf-8`,
+      `Content-Transfer-Encoding: ${is7bit ? '7bit' : 'quoted-printable'}`
+    ],
+    body: is7bit ? normalized : encodeQuotedPrintable(text)
+  };
+}
+
+/**
+ * Encode a filename parameter, using RFC 2231 for non-ASCII names
+ */
+function filenameParameter(filename: string): string {
+  if (isPrintableAscii(filename)) {
+    return `filename="${filename.replace(/(["\\])/g, '\\$1')}"`;
+  }
+  return `filename*=utf-8''${encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+}
+
+/**
+ * Create an attachment part
+ */
+function attachmentPart(attachment: EmailAttachment, inline: boolean): MimePart {
+  const content = Buffer.isBuffer(attachment.content)
+    ? attachment.content
+    : Buffer.from(attachment.content, (attachment.encoding as BufferEncoding) || 'utf8');
+  const contentType = attachment.contentType || getContentType(attachment.filename);
+
+  const headers = [
+    foldHeader('Content-Type', `${contentType}; name="${encodeHeaderValue(attachment.filename).replace(/"/g, '\\"')}"`),
+    'Content-Transfer-Encoding: base64',
+    foldHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; ${filenameParameter(attachment.filename)}`)
+  ];
+  if (inline) {
+    headers.push(`Content-ID: <${attachment.cid}>`);
+  }
+
+  return { headers, body: encodeBase64(content) };
+}
+
+/**
+ * Wrap parts in a multipart container (a single part is returned as-is)
+ */
+function multipart(subtype: 'mixed' | 'alternative' | 'related', children: MimePart[]): MimePart {
+  const headers = [`Content-Type: multipart/${subtype}${subtype === 'related' ? '; type="text/html"' : ''}`];
+  return children.length === 1 ? children[0] : { headers, children };
+}
+
+/**
+ * Serialize a part (headers included) with fresh boundaries
+ */
+function renderPart(part: MimePart): string {
+  if (!part.children) {
+    return `${part.headers.join('\r\n')}\r\n\r\n${part.body || ''}`;
+  }
+
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  const [contentType, ...rest] = part.headers;
+  const headers = [foldHeader('Content-Type', `${contentType.slice('Content-Type: '.length)}; boundary="${boundary}"`), ...rest];
+
+  return `${headers.join('\r\n')}\r\n\r\n` +
+    part.children.map(child => `--${boundary}\r\n${renderPart(child)}\r\n`).join('') +
+    `--${boundary}--`;
+}
+
+// Fields buildMimeMessage writes itself; a caller copy would appear twice (RFC 5322 allows one of each)
+const BUILT_IN_HEADERS = new Set(['from', 'to', 'cc', 'reply-to', 'subject', 'message-id', 'date', 'mime-version', 'content-type', 'content-transfer-encoding']);
+
+/**
+ * Render a caller-supplied header, rejecting names that would corrupt or duplicate the header block
+ */
+function customHeader(name: string, value: string): string {
+  if (!/^[!-9;-~]+$/.test(name)) {
+    throw new Error(`Invalid header name "${name}"`);
+  }
+  if (BUILT_IN_HEADERS.has(name.toLowerCase())) {
+    throw new EmailSendError(`Header "${name}" is written by the message builder; set it through the message options instead`, 'permanent-config');
+  }
+  return foldHeader(name, encodeHeaderValue(value));
+}
+
+/**
+ * Format a date as an RFC 5322 date-time
+ */
+function formatDate(date: Date): string {
+  return date.toUTCString().replace(/GMT$/, '+0000');
+}
+
+/**
+ * Compose a complete RFC 5322 message in memory: multipart/mixed for attachments,
+ * multipart/alternative for text + HTML and multipart/related for `cid` inline images
+ */
+export function buildMimeMessage(options: MimeMessageOptions): MimeMessage {
+  const attachments = options.attachments || [];
+  const inlineAttachments = options.html ? attachments.filter(attachment => attachment.cid) : [];
+  const regularAttachments = attachments.filter(attachment => !inlineAttachments.includes(attachment));
+
+  const alternatives: MimePart[] = [];
+  if (options.text !== undefined || !options.html) {
+    alternatives.push(textPart('text/plain', options.text || ''));
+  }
+  if (options.html) {
+    const htmlPart = textPart('text/html', options.html);
+    alternatives.push(multipart('related', [htmlPart, ...inlineAttachments.map(attachment => attachmentPart(attachment, true))]));
+  }
+
+  const root = multipart('mixed', [
+    multipart('alternative', alternatives),
+    ...regularAttachments.map(attachment => attachmentPart(attachment, false))
+  ]);
+
+  const fromDomain = options.from.match(/@([^>\s]+)>?\s*$/)?.[1] || 'localhost';
+  const messageId = options.messageId || `<${crypto.randomUUID()}@${fromDomain}>`;
+
+  const headers = [
+    foldHeader('From', encodeAddress(options.from)),
+    ...(options.to?.length ? [foldHeader('To', options.to.map(encodeAddress).join(', '))] : []),
+    ...(options.cc?.length ? [foldHeader('Cc', options.cc.map(encodeAddress).join(', '))] : []),
+    ...(options.replyTo ? [foldHeader('Reply-To', encodeAddress(options.replyTo))] : []),
+    foldHeader('Subject', encodeHeaderValue(options.subject)),
+    `Message-ID: ${messageId}`,
+    `Date: ${formatDate(options.date || new Date())}`,
+    ...Object.entries(options.headers || {}).map(([name, value]) => customHeader(name, value)),
+    'MIME-Version: 1.0'
+  ];
+
+  return {
+    raw: Buffer.from(`${headers.join('\r\n')}\r\n${renderPart(root)}\r\n`),
+    messageId
+  };
+}
@@ -0,0 +1,172 @@
+import { Clock, systemClock } from './clock';
+import { EmailSendError } from './send-error';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sending limits for one provider. SES counts every recipient as one message.
+ */
+export interface RateLimit {
+  maxPerSecond?: number; // Token refill rate
+  burst?: number; // Bucket capacity, defaults to maxPerSecond (at least 1)
+  maxPer24Hours?: number; // Rolling 24-hour cap
+}
+
+/**
+ * What to do when a send would exceed the 24-hour cap
+ */
+export type DailyCapBehavior = 'refuse' | 'queue';
+
+/**
+ * Current limits and usage of a provider
+ */
+export interface RateLimitStatus {
+  maxPerSecond?: number;
+  maxPer24Hours?: number;
+  sentLast24Hours: number;
+  remaining24Hours?: number;
+}
+
+/**
+ * Token bucket plus rolling 24-hour counter for one provider
+ */
+export class RateLimiter {
+  private tokens: number;
+  private updatedAt: number;
+  private baseline = 0; // Sends reported by the provider, not individually timestamped
+  private baselineAt: number;
+  private sends: Array<{ time: number; count: number }> = [];
+
+  constructor(
+    private limit: RateLimit = {},
+    private clock: Clock = systemClock,
+    private dailyCapBehavior: DailyCapBehavior = 'refuse'
+  ) {
+    this.tokens = this.capacity();
+    this.updatedAt = clock.now();
+    this.baselineAt = clock.now();
+  }
+
+  /**
+   * Replace the limits, keeping the usage recorded so far
+   */
+  setLimit(limit: RateLimit): void {
+    this.refill();
+    this.limit = limit;
+    this.tokens = Math.min(this.tokens, this.capacity());
+  }
+
+  /**
+   * Reset usage to the count reported by the provider (e.g. SES SentLast24Hours).
+   * The reported sends are conservatively treated as sent now.
+   */
+  setSentLast24Hours(count: number): void {
+    this.baseline = count;
+    this.baselineAt = this.clock.now();
+    this.sends = [];
+  }
+
+  /**
+   * Wait for sending capacity for `count` recipients. Returns a function that gives the
+   * 24-hour allowance back if the send fails.
+   */
+  async acquire(count = 1): Promise<() => void> {
+    const entry = await this.reserveDaily(count);
+
+    const wait = this.reserveTokens(count);
+    if (wait > 0) {
+      await this.clock.sleep(wait);
+    }
+
+    return () => {
+      this.sends = this.sends.filter(send => send !== entry);
+    };
+  }
+
+  /**
+   * Current limits and usage
+   */
+  getStatus(): RateLimitStatus {
+    const sentLast24Hours = this.usedLast24Hours();
+    return {
+      maxPerSecond: this.limit.maxPerSecond,
+      maxPer24Hours: this.limit.maxPer24Hours,
+      sentLast24Hours,
+      remaining24Hours: this.limit.maxPer24Hours !== undefined ? Math.max(0, this.limit.maxPer24Hours - sentLast24Hours) : undefined
+    };
+  }
+
+  private capacity(): number {
+    return this.limit.burst ?? Math.max(1, this.limit.maxPerSecond ?? 1);
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    if (this.limit.maxPerSecond) {
+      this.tokens = Math.min(this.capacity(), this.tokens + (now - this.updatedAt) / 1000 * this.limit.maxPerSecond);
+    }
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take tokens, possibly going into debt, and return how long the caller must wait
+   */
+  private reserveTokens(count: number): number {
+    if (!this.limit.maxPerSecond) {
+      return 0;
+    }
+    this.refill();
+    this.tokens -= count;
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / this.limit.maxPerSecond * 1000);
+  }
+
+  private usedLast24Hours(): number {
+    const now = this.clock.now();
+    this.sends = this.sends.filter(send => send.time + DAY_MS > now);
+    const baseline = this.baselineAt + DAY_MS > now ? this.baseline : 0;
+    return baseline + this.sends.reduce((total, send) => total + send.count, 0);
+  }
+
+  /**
+   * Record `count` sends once the 24-hour cap allows them, waiting for capacity when queueing.
+   * Checking and recording happen synchronously so concurrent sends cannot overshoot the cap.
+   */
+  private async reserveDaily(count: number): Promise<{ time: number; count: number }> {
+    const max = this.limit.maxPer24Hours;
+
+    for (;;) {
+      const remaining = max === undefined ? Infinity : max - this.usedLast24Hours();
+      if (remaining >= count) {
+        const entry = { time: this.clock.now(), count };
+        this.sends.push(entry);
+        return entry;
+      }
+
+      const wait = this.timeUntilAvailable(count - remaining);
+      if (this.dailyCapBehavior === 'refuse' || wait === undefined) {
+        throw new EmailSendError(`24-hour sending quota of ${max} exhausted (${Math.max(0, remaining)} remaining, ${count} needed)`, 'quota-exhausted');
+      }
+      await this.clock.sleep(wait);
+    }
+  }
+
+  /**
+   * How long until `needed` sends have aged out of the 24-hour window
+   */
+  private timeUntilAvailable(needed: number): number | undefined {
+    const now = this.clock.now();
+    const expiries = [
+      ...(this.baseline > 0 && this.baselineAt + DAY_MS > now ? [{ time: this.baselineAt, count: this.baseline }] : []),
+      ...this.sends
+    ].sort((a, b) => a.time - b.time);
+
+    let freed = 0;
+    for (const entry of expiries) {
+      freed += entry.count;
+      if (freed >= needed) {
+        return entry.time + DAY_MS - now;
+      }
+    }
+    return undefined;
+  }
+}
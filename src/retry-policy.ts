@@ -0,0 +1,40 @@
+import type { SendAttempt } from './email-sender';
+
+/**
+ * Retry behaviour for failed send attempts on the same provider
+ */
+export interface RetryPolicy {
+  maxAttempts?: number; // Attempts per provider, including the first (default: 3)
+  baseDelayMs?: number; // Delay before the first retry, doubled for each further retry (default: 200)
+  maxDelayMs?: number; // Upper bound for a single delay (default: 10000)
+  jitter?: boolean; // Full jitter: wait a random time between 0 and the computed delay (default: true)
+  retryable?: (attempt: SendAttempt) => boolean; // Defaults to transient and throttled errors
+}
+
+/**
+ * Defaults applied to the fields of a configured RetryPolicy
+ */
+export const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 3,
+  baseDelayMs: 200,
+  maxDelayMs: 10000,
+  jitter: true
+};
+
+/**
+ * Default retryable predicate: errors that may succeed when tried again
+ */
+export function isRetryableAttempt(attempt: SendAttempt): boolean {
+  return attempt.errorClass === 'transient' || attempt.errorClass === 'throttled';
+}
+
+/**
+ * Delay before retry number `retry` (1-based): exponential backoff capped at maxDelayMs, with optional full jitter
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy = {}, random: () => number = Math.random): number {
+  const baseDelayMs = policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs;
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs;
+  const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+
+  return (policy.jitter ?? DEFAULT_RETRY_POLICY.jitter) ? Math.floor(random() * delay) : delay;
+}
@@ -0,0 +1,172 @@
+/**
+ * Classes of send failure, used to decide what happens next. 'transient' failures happened before
+ * the provider accepted the message; after an 'ambiguous' one (a timeout, a dropped connection or an
+ * unknown error) the provider may have accepted it. 'quota-exhausted' means the 24-hour cap is used up.
+ */
+export type SendErrorClass = 'transient' | 'ambiguous' | 'throttled' | 'quota-exhausted' | 'permanent-recipient' | 'permanent-config' | 'auth';
+
+/**
+ * What EmailSender does after a failed attempt: try the next provider in the chain,
+ * retry the same provider, or give up
+ */
+export type FailoverAction = 'failover' | 'retry' | 'stop';
+
+/**
+ * Action to take for each error class
+ */
+export type FailoverPolicy = Record<SendErrorClass, FailoverAction>;
+
+/**
+ * Permanent errors stop the chain: another provider would hit the same recipient or
+ * policy problem. Ambiguous errors stop too, since the message may already have been accepted
+ * and sending it elsewhere would deliver it twice. An exhausted daily quota stops rather than
+ * silently moving the day's remaining traffic to another provider.
+ */
+export const DEFAULT_FAILOVER_POLICY: FailoverPolicy = {
+  'transient': 'failover',
+  'ambiguous': 'stop',
+  'throttled': 'failover',
+  'quota-exhausted': 'stop',
+  'permanent-recipient': 'stop',
+  'permanent-config': 'stop',
+  'auth': 'failover'
+};
+
+/**
+ * Error carrying an explicit class. Custom providers can throw it to bypass classification.
+ */
+export class EmailSendError extends Error {
+  constructor(message: string, public readonly errorClass: SendErrorClass) {
+    super(message);
+    this.name = 'EmailSendError';
+  }
+}
+
+const SES_ERROR_CLASSES: Record<string, SendErrorClass> = {
+  Throttling: 'throttled',
+  ThrottlingException: 'throttled',
+  TooManyRequestsException: 'throttled',
+  ServiceUnavailable: 'transient',
+  InternalFailure: 'transient',
+  RequestTimeout: 'ambiguous',
+  RequestTimeoutException: 'ambiguous',
+  TimeoutError: 'ambiguous',
+  InvalidClientTokenId: 'auth',
+  UnrecognizedClientException: 'auth',
+  SignatureDoesNotMatch: 'auth',
+  IncompleteSignature: 'auth',
+  ExpiredToken: 'auth',
+  ExpiredTokenException: 'auth',
+  AccessDenied: 'auth',
+  AccessDeniedException: 'auth',
+  MailFromDomainNotVerifiedException: 'permanent-config',
+  ConfigurationSetDoesNotExistException: 'permanent-config',
+  ConfigurationSetSendingPausedException: 'permanent-config',
+  AccountSendingPausedException: 'permanent-config',
+  InvalidParameterValue: 'permanent-config'
+};
+
+/**
+ * Connection failures that happen before anything is sent
+ */
+const TRANSIENT_CONNECTION_CODES = new Set(['ECONNECTION', 'EDNS', 'ECONNREFUSED', 'EAI_AGAIN', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH']);
+
+/**
+ * Connection failures that can happen after the message was handed over
+ */
+const AMBIGUOUS_CONNECTION_CODES = new Set(['ETIMEDOUT', 'ESOCKET', 'ECONNRESET', 'EPIPE']);
+
+/**
+ * Classify an SES MessageRejected error by its message
+ */
+function classifySesRejection(message: string): SendErrorClass {
+  if (/daily message quota|sending quota/i.test(message)) {
+    return 'quota-exhausted';
+  }
+  if (/maximum sending rate/i.test(message)) {
+    return 'throttled';
+  }
+  if (/address blacklisted|suppression list|invalid (recipient|address)|illegal address/i.test(message)) {
+    return 'permanent-recipient';
+  }
+  // "Email address is not verified", sandbox restrictions, content rejections
+  return 'permanent-config';
+}
+
+/**
+ * Classify an SMTP reply by its code and enhanced status code (RFC 3463)
+ */
+function classifySmtpResponse(responseCode: number, response: string): SendErrorClass {
+  const enhanced = response.match(/\b([245])\.(\d{1,3})\.(\d{1,3})\b/);
+
+  if ([530, 534, 535].includes(responseCode) || (enhanced && enhanced[2] === '7' && ['8', '9'].includes(enhanced[3]))) {
+    return 'auth';
+  }
+  if (responseCode >= 400 && responseCode < 500) {
+    return /rate|too many|throttl|try again later/i.test(response) ? 'throttled' : 'transient';
+  }
+  if (enhanced) {
+    // 5.1.x addressing and 5.2.x mailbox status are about the recipient; 5.7.x is sender policy
+    return enhanced[2] === '1' || enhanced[2] === '2' ? 'permanent-recipient' : 'permanent-config';
+  }
+  // 550-553: mailbox unavailable, user not local, mailbox full, mailbox name not allowed
+  return [550, 551, 552, 553].includes(responseCode) ? 'permanent-recipient' : 'permanent-config';
+}
+
+/**
+ * Classify an error thrown by a provider. Unknown errors are treated as ambiguous.
+ */
+export function classifySendError(error: unknown): SendErrorClass {
+  if (error instanceof EmailSendError) {
+    return error.errorClass;
+  }
+  if (!error || typeof error !== 'object') {
+    return 'ambiguous';
+  }
+
+  const details = error as {
+    name?: string;
+    code?: string;
+    message?: string;
+    responseCode?: number;
+    response?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+
+  // nodemailer (SMTP)
+  if (details.code === 'EAUTH') {
+    return 'auth';
+  }
+  if (typeof details.responseCode === 'number') {
+    return classifySmtpResponse(details.responseCode, details.response || details.message || '');
+  }
+  if (details.code === 'EENVELOPE') {
+    return 'permanent-recipient';
+  }
+  if (details.code && TRANSIENT_CONNECTION_CODES.has(details.code)) {
+    return 'transient';
+  }
+  if (details.code && AMBIGUOUS_CONNECTION_CODES.has(details.code)) {
+    return 'ambiguous';
+  }
+
+  // AWS SDK (SES)
+  if (details.name === 'MessageRejected') {
+    return classifySesRejection(details.message || '');
+  }
+  if (details.name && SES_ERROR_CLASSES[details.name]) {
+    return SES_ERROR_CLASSES[details.name];
+  }
+  const status = details.$metadata?.httpStatusCode;
+  if (status === 429) {
+    return 'throttled';
+  }
+  if (status === 401 || status === 403) {
+    return 'auth';
+  }
+  if (status !== undefined && status >= 400 && status < 500) {
+    return 'permanent-config';
+  }
+
+  return 'ambiguous';
+}
@@ -0,0 +1,566 @@
+import crypto from 'crypto';
+import { BounceClassification } from './bounce-parser';
+import { isValidEmailAddress } from './email-address';
+import { EmailSendResult } from './email-sender';
+import { SuppressOptions, SuppressionEntry, SuppressionList, normalizeSuppressedAddress } from './suppression-list';
+
+/**
+ * A header of the sent message, as included in SES notifications
+ */
+export interface SesMailHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * Frequently used headers of the sent message
+ */
+export interface SesCommonHeaders {
+  from?: string[];
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string[];
+  returnPath?: string;
+  messageId?: string;
+  date?: string;
+  subject?: string;
+}
+
+/**
+ * The sent message a notification refers to
+ */
+export interface SesMail {
+  timestamp: string;
+  messageId: string; // MessageId returned by SendEmail / SendRawEmail, as in EmailSendResult.messageId
+  source: string;
+  sourceArn?: string;
+  sourceIp?: string;
+  sendingAccountId?: string;
+  callerIdentity?: string;
+  destination: string[];
+  headersTruncated?: boolean;
+  headers?: SesMailHeader[];
+  commonHeaders?: SesCommonHeaders;
+  tags?: Record<string, string[]>;
+}
+
+/**
+ * SES bounce types: Permanent bounces should not be retried
+ */
+export type SesBounceType = 'Undetermined' | 'Permanent' | 'Transient';
+
+/**
+ * A recipient of a bounce notification
+ */
+export interface SesBouncedRecipient {
+  emailAddress: string;
+  action?: string;
+  status?: string;
+  diagnosticCode?: string;
+}
+
+/**
+ * Bounce object of an SES notification
+ */
+export interface SesBounce {
+  bounceType: SesBounceType;
+  bounceSubType: string; // e.g. 'General', 'NoEmail', 'Suppressed', 'MailboxFull'
+  bouncedRecipients: SesBouncedRecipient[];
+  timestamp: string;
+  feedbackId: string;
+  reportingMTA?: string;
+  remoteMtaIp?: string;
+}
+
+/**
+ * Complaint object of an SES notification
+ */
+export interface SesComplaint {
+  complainedRecipients: Array<{ emailAddress: string }>;
+  timestamp: string;
+  feedbackId: string;
+  complaintSubType?: string | null;
+  complaintFeedbackType?: string; // e.g. 'abuse', 'fraud', 'not-spam'
+  userAgent?: string;
+  arrivalDate?: string;
+}
+
+/**
+ * Delivery object of an SES notification
+ */
+export interface SesDelivery {
+  timestamp: string;
+  processingTimeMillis: number;
+  recipients: string[];
+  smtpResponse: string;
+  reportingMTA: string;
+  remoteMtaIp?: string;
+}
+
+/**
+ * Bounce, complaint or delivery notification published by SES. Event publishing through
+ * configuration sets uses `eventType`; parseSesNotification maps it to `notificationType`.
+ */
+export type SesNotification =
+  | { notificationType: 'Bounce'; mail: SesMail; bounce: SesBounce }
+  | { notificationType: 'Complaint'; mail: SesMail; complaint: SesComplaint }
+  | { notificationType: 'Delivery'; mail: SesMail; delivery: SesDelivery };
+
+/**
+ * Types of SNS HTTP(S) messages
+ */
+export type SnsMessageType = 'Notification' | 'SubscriptionConfirmation' | 'UnsubscribeConfirmation';
+
+/**
+ * The JSON body SNS posts to an HTTP(S) subscription
+ */
+export interface SnsEnvelope {
+  Type: SnsMessageType;
+  MessageId: string;
+  TopicArn: string;
+  Subject?: string;
+  Message: string;
+  Timestamp: string;
+  SignatureVersion: string; // '1' (SHA1withRSA) or '2' (SHA256withRSA)
+  Signature: string;
+  SigningCertURL: string;
+  UnsubscribeURL?: string;
+  SubscribeURL?: string; // Subscription and unsubscribe confirmations
+  Token?: string;
+}
+
+/**
+ * A sent message registered with SesNotificationHandler.track, or found by lookupSend
+ */
+export interface TrackedSend {
+  messageId: string;
+  provider?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Emitted for a bounce notification
+ */
+export interface SesBounceEvent {
+  type: 'bounce';
+  mail: SesMail;
+  bounce: SesBounce;
+  classification: BounceClassification;
+  sent?: TrackedSend; // The tracked send with the same messageId
+  suppressed: SuppressionEntry[]; // Suppressions in effect for the recipients; stronger existing entries are kept
+  snsMessageId?: string;
+}
+
+/**
+ * Emitted for a complaint notification
+ */
+export interface SesComplaintEvent {
+  type: 'complaint';
+  mail: SesMail;
+  complaint: SesComplaint;
+  sent?: TrackedSend;
+  suppressed: SuppressionEntry[];
+  snsMessageId?: string;
+}
+
+/**
+ * Emitted for a delivery notification
+ */
+export interface SesDeliveryEvent {
+  type: 'delivery';
+  mail: SesMail;
+  delivery: SesDelivery;
+  sent?: TrackedSend;
+  snsMessageId?: string;
+}
+
+/**
+ * Emitted when SNS asks to confirm, or confirms the end of, a subscription
+ */
+export interface SnsSubscriptionEvent {
+  type: 'subscriptionConfirmation' | 'unsubscribeConfirmation';
+  topicArn: string;
+  subscribeUrl?: string; // Visit to confirm the subscription
+  token?: string;
+  message: string;
+  confirmed: boolean; // confirmSubscription was called
+}
+
+/**
+ * Events of SesNotificationHandler, by name
+ */
+export interface SesNotificationEvents {
+  bounce: SesBounceEvent;
+  complaint: SesComplaintEvent;
+  delivery: SesDeliveryEvent;
+  subscriptionConfirmation: SnsSubscriptionEvent;
+  unsubscribeConfirmation: SnsSubscriptionEvent;
+}
+
+export type SesNotificationEvent = SesNotificationEvents[keyof SesNotificationEvents];
+
+export type SesNotificationListener<K extends keyof SesNotificationEvents> = (event: SesNotificationEvents[K]) => void | Promise<void>;
+
+/**
+ * Configuration of SesNotificationHandler
+ */
+export interface SesNotificationHandlerConfig {
+  certificate?: string | ((signingCertUrl: string) => string | Promise<string>); // PEM certificate (or public key) of the SNS signing key, or a function returning it for SigningCertURL
+  verifySignatures?: boolean; // Default: true. Must be false for SNS raw message delivery, which is unsigned
+  topicArns?: string[]; // Only accept messages from these topics
+  confirmSubscription?: (subscribeUrl: string) => Promise<void>; // Called for SubscriptionConfirmation messages, e.g. to GET the URL
+  lookupSend?: (messageId: string) => TrackedSend | undefined | Promise<TrackedSend | undefined>; // Correlate with sends not tracked in memory
+  maxTracked?: number; // Sends kept in memory by track (default: 10000)
+  suppressionList?: SuppressionList; // Hard bounces and complaints are added to the list
+  softBounceTtlMs?: number; // Also suppress soft bounces for this long
+}
+
+/**
+ * Outcome of SesNotificationHandler.handle. A webhook should answer 2xx when accepted, so SNS
+ * does not redeliver, and an error status otherwise.
+ */
+export interface SesNotificationHandleResult {
+  accepted: boolean;
+  type?: SnsMessageType;
+  event?: SesNotificationEvent; // Missing for notifications this handler does not model, e.g. opens
+  error?: string;
+}
+
+const NOTIFICATION_SIGNED_FIELDS: Array<keyof SnsEnvelope> = ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type'];
+const CONFIRMATION_SIGNED_FIELDS: Array<keyof SnsEnvelope> = ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'];
+const SNS_HOST_PATTERN = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+
+/**
+ * The string SNS signs: "Name\nvalue\n" for each signed field present, in order
+ */
+export function buildSnsStringToSign(envelope: SnsEnvelope): string {
+  const fields = envelope.Type === 'Notification' ? NOTIFICATION_SIGNED_FIELDS : CONFIRMATION_SIGNED_FIELDS;
+  return fields
+    .filter(field => envelope[field] !== undefined)
+    .map(field => `${field}\n${envelope[field]}\n`)
+    .join('');
+}
+
+/**
+ * Verify the signature of an SNS message with the PEM certificate of its signing key
+ */
+export function verifySnsSignature(envelope: SnsEnvelope, certificate: string): boolean {
+  const algorithm = envelope.SignatureVersion === '2' ? 'RSA-SHA256' : envelope.SignatureVersion === '1' ? 'RSA-SHA1' : undefined;
+  if (!algorithm || typeof envelope.Signature !== 'string') {
+    return false;
+  }
+  try {
+    return crypto.createVerify(algorithm).update(buildSnsStringToSign(envelope), 'utf8').verify(certificate, envelope.Signature, 'base64');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a URL points at an SNS endpoint over HTTPS, so it is safe to fetch
+ */
+function isSnsUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' && SNS_HOST_PATTERN.test(parsed.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a bounce, complaint or delivery notification from its JSON form. Returns undefined for other
+ * event types (opens, clicks, rejects...) and for payloads that are not SES notifications.
+ */
+export function parseSesNotification(message: string | object): SesNotification | undefined {
+  let payload: Record<string, unknown>;
+  try {
+    payload = (typeof message === 'string' ? JSON.parse(message) : message) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+  if (!payload || typeof payload !== 'object' || !payload.mail || typeof payload.mail !== 'object') {
+    return undefined;
+  }
+
+  const type = payload.notificationType || payload.eventType;
+  const mail = payload.mail as SesMail;
+  if (type === 'Bounce' && payload.bounce) {
+    return { notificationType: 'Bounce', mail, bounce: payload.bounce as SesBounce };
+  }
+  if (type === 'Complaint' && payload.complaint) {
+    return { notificationType: 'Complaint', mail, complaint: payload.complaint as SesComplaint };
+  }
+  if (type === 'Delivery' && payload.delivery) {
+    return { notificationType: 'Delivery', mail, delivery: payload.delivery as SesDelivery };
+  }
+  return undefined;
+}
+
+/**
+ * Map an SES bounce type to the classification used by parseBounce
+ */
+export function classifySesBounce(bounce: SesBounce): BounceClassification {
+  return bounce.bounceType === 'Permanent' ? 'hard' : 'soft';
+}
+
+function stripAngles(messageId: string): string {
+  return messageId.trim().replace(/^<(.*)>$/, '$1');
+}
+
+/**
+ * Receives SES notifications posted by SNS, verifies them, correlates them with sent messages
+ * and emits typed events. Hard bounces and complaints feed the suppression list when one is configured.
+ */
+export class SesNotificationHandler {
+  private listeners: { [K in keyof SesNotificationEvents]?: Array<SesNotificationListener<K>> } = {};
+  private tracked = new Map<string, TrackedSend>();
+
+  constructor(private config: SesNotificationHandlerConfig = {}) {}
+
+  /**
+   * Subscribe to an event. Returns a function that removes the listener.
+   */
+  on<K extends keyof SesNotificationEvents>(type: K, listener: SesNotificationListener<K>): () => void {
+    const listeners = (this.listeners[type] || []) as Array<SesNotificationListener<K>>;
+    listeners.push(listener);
+    this.listeners[type] = listeners as typeof this.listeners[K];
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Remember a sent message so later notifications about it carry it as `sent`
+   */
+  track(send: EmailSendResult | TrackedSend | string, metadata?: Record<string, string>): void {
+    const messageId = typeof send === 'string' ? send : send.messageId;
+    if (!messageId) {
+      return;
+    }
+
+    const key = stripAngles(messageId);
+    const provider = typeof send === 'string' ? undefined : send.provider;
+    const existingMetadata = typeof send === 'object' && 'metadata' in send ? send.metadata : undefined;
+    this.tracked.delete(key);
+    this.tracked.set(key, { messageId: key, provider, metadata: metadata || existingMetadata });
+
+    const maxTracked = this.config.maxTracked ?? 10000;
+    for (const oldest of this.tracked.keys()) {
+      if (this.tracked.size <= maxTracked) {
+        break;
+      }
+      this.tracked.delete(oldest);
+    }
+  }
+
+  /**
+   * Handle the body of an SNS POST (raw string or parsed JSON)
+   */
+  async handle(body: string | object): Promise<SesNotificationHandleResult> {
+    let payload: Record<string, unknown>;
+    try {
+      payload = (typeof body === 'string' ? JSON.parse(body) : body) as Record<string, unknown>;
+    } catch {
+      return { accepted: false, error: 'Body is not valid JSON' };
+    }
+    if (!payload || typeof payload !== 'object') {
+      return { accepted: false, error: 'Body is not an SNS message' };
+    }
+
+    try {
+      if (payload.Type === undefined) {
+        // SNS raw message delivery posts the SES notification itself, without a signature
+        if (this.config.verifySignatures !== false) {
+          return { accepted: false, error: 'Message is not signed; raw message delivery requires verifySignatures: false' };
+        }
+        return { accepted: true, event: await this.handleNotification(payload) };
+      }
+
+      const envelope = payload as unknown as SnsEnvelope;
+      const error = await this.checkEnvelope(envelope);
+      if (error) {
+        return { accepted: false, type: envelope.Type, error };
+      }
+
+      if (envelope.Type === 'Notification') {
+        return { accepted: true, type: envelope.Type, event: await this.handleNotification(envelope.Message, envelope.MessageId) };
+      }
+      return { accepted: true, type: envelope.Type, event: await this.handleSubscription(envelope) };
+    } catch (error) {
+      return {
+        accepted: false,
+        type: payload.Type as SnsMessageType | undefined,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Why an envelope must be rejected, if it must
+   */
+  private async checkEnvelope(envelope: SnsEnvelope): Promise<string | undefined> {
+    if (!['Notification', 'SubscriptionConfirmation', 'UnsubscribeConfirmation'].includes(envelope.Type)) {
+      return `Unsupported SNS message type "${envelope.Type}"`;
+    }
+    if (this.config.topicArns && !this.config.topicArns.includes(envelope.TopicArn)) {
+      return `Topic ${envelope.TopicArn} is not accepted`;
+    }
+    if (this.config.verifySignatures === false) {
+      return undefined;
+    }
+
+    const { certificate } = this.config;
+    if (!certificate) {
+      return 'No certificate configured to verify SNS signatures';
+    }
+    let pem = certificate;
+    if (typeof certificate === 'function') {
+      if (!isSnsUrl(envelope.SigningCertURL)) {
+        return `Signing certificate URL ${envelope.SigningCertURL} is not an SNS URL`;
+      }
+      pem = await certificate(envelope.SigningCertURL);
+    }
+    return verifySnsSignature(envelope, pem as string) ? undefined : 'Invalid SNS signature';
+  }
+
+  private async handleSubscription(envelope: SnsEnvelope): Promise<SnsSubscriptionEvent> {
+    const type = envelope.Type === 'SubscriptionConfirmation' ? 'subscriptionConfirmation' : 'unsubscribeConfirmation';
+    let confirmed = false;
+
+    if (type === 'subscriptionConfirmation' && this.config.confirmSubscription && envelope.SubscribeURL) {
+      if (!isSnsUrl(envelope.SubscribeURL)) {
+        throw new Error(`Subscribe URL ${envelope.SubscribeURL} is not an SNS URL`);
+      }
+      await this.config.confirmSubscription(envelope.SubscribeURL);
+      confirmed = true;
+    }
+
+    const event: SnsSubscriptionEvent = {
+      type,
+      topicArn: envelope.TopicArn,
+      subscribeUrl: envelope.SubscribeURL,
+      token: envelope.Token,
+      message: envelope.Message,
+      confirmed
+    };
+    await this.emit(type, event);
+    return event;
+  }
+
+  private async handleNotification(message: string | object, snsMessageId?: string): Promise<SesNotificationEvent | undefined> {
+    const notification = parseSesNotification(message);
+    if (!notification) {
+      return undefined;
+    }
+
+    const sent = await this.findSend(notification.mail);
+    switch (notification.notificationType) {
+      case 'Bounce': {
+        const classification = classifySesBounce(notification.bounce);
+        const event: SesBounceEvent = {
+          type: 'bounce',
+          mail: notification.mail,
+          bounce: notification.bounce,
+          classification,
+          sent,
+          suppressed: await this.suppressBounce(notification.bounce, classification),
+          snsMessageId
+        };
+        await this.emit('bounce', event);
+        return event;
+      }
+      case 'Complaint': {
+        const event: SesComplaintEvent = {
+          type: 'complaint',
+          mail: notification.mail,
+          complaint: notification.complaint,
+          sent,
+          suppressed: await this.suppressComplaint(notification.complaint),
+          snsMessageId
+        };
+        await this.emit('complaint', event);
+        return event;
+      }
+      case 'Delivery': {
+        const event: SesDeliveryEvent = { type: 'delivery', mail: notification.mail, delivery: notification.delivery, sent, snsMessageId };
+        await this.emit('delivery', event);
+        return event;
+      }
+    }
+  }
+
+  /**
+   * The tracked send of a notification, matched on the SES message ID or the Message-ID header
+   */
+  private async findSend(mail: SesMail): Promise<TrackedSend | undefined> {
+    const candidates = [mail.messageId, mail.commonHeaders?.messageId]
+      .filter((id): id is string => !!id)
+      .map(stripAngles);
+
+    for (const messageId of candidates) {
+      const sent = this.tracked.get(messageId) || await this.config.lookupSend?.(messageId);
+      if (sent) {
+        return sent;
+      }
+    }
+    return undefined;
+  }
+
+  private async suppressBounce(bounce: SesBounce, classification: BounceClassification): Promise<SuppressionEntry[]> {
+    const { softBounceTtlMs } = this.config;
+    if (classification === 'soft' && softBounceTtlMs === undefined) {
+      return [];
+    }
+
+    const entries: SuppressionEntry[] = [];
+    for (const recipient of bounce.bouncedRecipients || []) {
+      const entry = await this.suppress(recipient.emailAddress, {
+        reason: classification === 'hard' ? 'hard-bounce' : 'soft-bounce',
+        ttlMs: classification === 'soft' ? softBounceTtlMs : undefined,
+        note: recipient.diagnosticCode || recipient.status || `${bounce.bounceType}/${bounce.bounceSubType}`
+      });
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  private async suppressComplaint(complaint: SesComplaint): Promise<SuppressionEntry[]> {
+    const entries: SuppressionEntry[] = [];
+    for (const recipient of complaint.complainedRecipients || []) {
+      const entry = await this.suppress(recipient.emailAddress, { reason: 'complaint', note: complaint.complaintFeedbackType });
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Add a recipient to the suppression list without weakening an existing entry. Invalid addresses
+   * are skipped, since rejecting the message would only make SNS redeliver it.
+   */
+  private async suppress(email: string, options: SuppressOptions): Promise<SuppressionEntry | undefined> {
+    const { suppressionList } = this.config;
+    if (!suppressionList || !isValidEmailAddress(normalizeSuppressedAddress(email))) {
+      return undefined;
+    }
+    return suppressionList.add(email, { ...options, source: 'ses-notification', keepStronger: true });
+  }
+
+  /**
+   * Call the listeners of an event in order. A listener error rejects the message so SNS redelivers it.
+   */
+  private async emit<K extends keyof SesNotificationEvents>(type: K, event: SesNotificationEvents[K]): Promise<void> {
+    const listeners = (this.listeners[type] || []) as Array<SesNotificationListener<K>>;
+    for (const listener of [...listeners]) {
+      await listener(event);
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { SESClient, SendEmailCommand, SendRawEmailCommand, GetSendQuotaCommand, MessageTag } from "@aws-sdk/client-ses";
+import { EmailProvider, EmailProviderCapabilities, MessageField, ProviderMessage, ProviderQuota, ProviderSendPath, ProviderSendResult, getMessageFields, toAddressList } from './email-provider';
+
+/**
+ * Fields SendEmail can carry; messages with any other field are sent with SendRawEmail
+ */
+const SIMPLE_SEND_FIELDS: MessageField[] = ['cc', 'bcc', 'replyTo', 'text', 'html', 'tags'];
+
+/**
+ * Built-in AWS SES provider
+ */
+export class SesProvider implements EmailProvider {
+  readonly name = 'aws-ses';
+  readonly capabilities: EmailProviderCapabilities = {
+    attachments: true,
+    rawMime: true,
+    customHeaders: true, // Through SendRawEmail, which is chosen automatically
+    tags: true,
+    smtpUtf8: false
+  };
+
+  constructor(private client: SESClient) {}
+
+  /**
+   * Send with SendEmail, or SendRawEmail when the message needs MIME control
+   */
+  async send(message: ProviderMessage): Promise<ProviderSendResult> {
+    const { options } = message;
+    const tags = this.toMessageTags(options.tags);
+
+    if (this.describeSendPath(message).name === 'SendRawEmail') {
+      const { raw } = message.buildRaw();
+
+      // Bcc is not in the headers, so the recipients have to be listed explicitly
+      const response = await this.client.send(new SendRawEmailCommand({
+        Source: options.from,
+        Destinations: message.recipients,
+        RawMessage: {
+          Data: raw,
+        },
+        Tags: tags,
+      }));
+      return { messageId: response.MessageId };
+    }
+
+    const response = await this.client.send(new SendEmailCommand({
+      Destination: {
+        ToAddresses: toAddressList(options.to),
+        CcAddresses: options.cc ? toAddressList(options.cc) : undefined,
+        BccAddresses: options.bcc ? toAddressList(options.bcc) : undefined,
+      },
+      Message: {
+        Body: {
+          Html: options.html ? {
+            Charset: 'UTF-8',
+            Data: options.html,
+          } : undefined,
+          Text: options.text ? {
+            Charset: 'UTF-8',
+            Data: options.text,
+          } : undefined,
+        },
+        Subject: {
+          Charset: 'UTF-8',
+          Data: options.subject,
+        },
+      },
+      Source: options.from,
+      ReplyToAddresses: options.replyTo ? [options.replyTo] : undefined,
+      Tags: tags,
+    }));
+    return { messageId: response.MessageId };
+  }
+
+  /**
+   * SendRawEmail is used for signed messages and for fields SendEmail cannot carry:
+   * attachments, inline images and custom headers
+   */
+  describeSendPath(message: ProviderMessage): ProviderSendPath {
+    const needsRaw = message.signed || getMessageFields(message.options).some(field => !SIMPLE_SEND_FIELDS.includes(field));
+    return needsRaw
+      ? { name: 'SendRawEmail', preserves: [...SIMPLE_SEND_FIELDS, 'attachments', 'inlineImages', 'headers'] }
+      : { name: 'SendEmail', preserves: SIMPLE_SEND_FIELDS };
+  }
+
+  /**
+   * Check that SES is reachable by reading the sending quota
+   */
+  async verify(): Promise<void> {
+    await this.getQuota();
+  }
+
+  /**
+   * Read the account sending quota. SES reports an unlimited daily quota as -1.
+   */
+  async getQuota(): Promise<ProviderQuota> {
+    const response = await this.client.send(new GetSendQuotaCommand({}));
+    return {
+      maxSendRate: response.MaxSendRate,
+      max24HourSend: response.Max24HourSend !== undefined && response.Max24HourSend >= 0 ? response.Max24HourSend : undefined,
+      sentLast24Hours: response.SentLast24Hours
+    };
+  }
+
+  /**
+   * Convert tags to SES message tags
+   */
+  private toMessageTags(tags?: Record<string, string>): MessageTag[] | undefined {
+    return tags ? Object.entries(tags).map(([Name, Value]) => ({ Name, Value })) : undefined;
+  }
+}
@@ -0,0 +1,97 @@
+import nodemailer from 'nodemailer';
+import type { SmtpConfig } from './email-sender';
+import { EmailProvider, EmailProviderCapabilities, MessageField, ProviderMessage, ProviderSendPath, ProviderSendResult } from './email-provider';
+
+const SMTP_FIELDS: MessageField[] = ['cc', 'bcc', 'replyTo', 'text', 'html', 'attachments', 'inlineImages', 'headers'];
+
+/**
+ * Built-in SMTP provider (nodemailer)
+ */
+export class SmtpProvider implements EmailProvider {
+  readonly name = 'smtp';
+  readonly capabilities: EmailProviderCapabilities = {
+    attachments: true,
+    rawMime: true,
+    customHeaders: true,
+    tags: false,
+    smtpUtf8: true // When the server advertises SMTPUTF8
+  };
+
+  private transporter: nodemailer.Transporter;
+  private verified?: Promise<void>;
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport(config);
+  }
+
+  /**
+   * Send the message, verifying the connection before the first send and after a failure
+   */
+  async send(message: ProviderMessage): Promise<ProviderSendResult> {
+    try {
+      return await this.sendVerified(message);
+    } catch (error) {
+      this.verified = undefined;
+      throw error;
+    }
+  }
+
+  private async sendVerified(message: ProviderMessage): Promise<ProviderSendResult> {
+    const { options } = message;
+
+    // Verify SMTP connection
+    if (!this.verified) {
+      this.verified = this.transporter.verify().then(() => undefined);
+    }
+    await this.verified;
+
+    if (message.signed) {
+      // Send the signed message as-is so the transport does not re-render it
+      const { raw, messageId } = message.buildRaw();
+      await this.transporter.sendMail({
+        envelope: {
+          from: options.from,
+          to: message.recipients
+        },
+        raw
+      });
+      return { messageId };
+    }
+
+    const info = await this.transporter.sendMail({
+      from: options.from,
+      to: options.to,
+      cc: options.cc,
+      bcc: options.bcc,
+      subject: options.subject,
+      text: options.text,
+      html: options.html,
+      replyTo: options.replyTo,
+      attachments: options.attachments,
+      headers: options.headers,
+    });
+    return { messageId: info.messageId };
+  }
+
+  /**
+   * Signed messages are sent as pre-built MIME, everything else is rendered by nodemailer.
+   * Both carry every field except provider tags.
+   */
+  describeSendPath(message: ProviderMessage): ProviderSendPath {
+    return { name: message.signed ? 'raw' : 'sendMail', preserves: SMTP_FIELDS };
+  }
+
+  /**
+   * Check the connection and credentials
+   */
+  async verify(): Promise<void> {
+    await this.transporter.verify();
+  }
+
+  /**
+   * Close pooled connections
+   */
+  async close(): Promise<void> {
+    this.transporter.close();
+  }
+}
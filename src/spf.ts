@@ -0,0 +1,623 @@
+import net from 'net';
+import { DnsResolver, classifyDnsError, isTransientDnsStatus } from './dns-resolver';
+
+/**
+ * SPF check_host() results (RFC 7208 section 2.6)
+ */
+export type SpfResult = 'pass' | 'fail' | 'softfail' | 'neutral' | 'none' | 'permerror' | 'temperror';
+
+/**
+ * Directive qualifiers: pass, fail, softfail, neutral
+ */
+export type SpfQualifier = '+' | '-' | '~' | '?';
+
+/**
+ * A parsed SPF directive (qualifier + mechanism)
+ */
+export interface SpfMechanism {
+  qualifier: SpfQualifier;
+  name: 'all' | 'include' | 'a' | 'mx' | 'ptr' | 'ip4' | 'ip6' | 'exists';
+  value?: string; // domain-spec or IP network
+  ip4Cidr?: number;
+  ip6Cidr?: number;
+  term: string;
+}
+
+/**
+ * A parsed SPF record
+ */
+export interface SpfRecord {
+  mechanisms: SpfMechanism[];
+  redirect?: string;
+  exp?: string;
+}
+
+/**
+ * One record visited during evaluation: the root domain, an include or a redirect target
+ */
+export interface SpfTreeNode {
+  domain: string;
+  via?: string; // Term that led here, e.g. "include:_spf.google.com"
+  record?: string;
+  result?: SpfResult;
+  matched?: string; // Term that produced the result
+  error?: string;
+  children: SpfTreeNode[];
+}
+
+/**
+ * Result of evaluating SPF for a domain
+ */
+export interface SpfEvaluation {
+  domain: string;
+  ip?: string; // Undefined when the policy was inspected without a sending source
+  result: SpfResult;
+  record?: string;
+  matchedMechanism?: string;
+  allQualifier?: SpfQualifier; // Qualifier of the top-level "all" mechanism
+  lookupCount: number;
+  voidLookupCount: number;
+  explanation?: string;
+  warnings: string[];
+  tree: SpfTreeNode;
+}
+
+/**
+ * SPF evaluator options
+ */
+export interface SpfEvaluatorOptions {
+  maxLookups?: number; // DNS-querying terms allowed per evaluation (default: 10)
+  maxVoidLookups?: number; // Lookups allowed to return no records (default: 2)
+  maxMxOrPtrNames?: number; // Names considered per mx/ptr mechanism (default: 10)
+}
+
+const QUALIFIER_RESULTS: Record<SpfQualifier, SpfResult> = {
+  '+': 'pass',
+  '-': 'fail',
+  '~': 'softfail',
+  '?': 'neutral'
+};
+
+/**
+ * Error aborting an evaluation with permerror or temperror
+ */
+export class SpfEvaluationError extends Error {
+  constructor(public result: 'permerror' | 'temperror', message: string) {
+    super(message);
+    this.name = 'SpfEvaluationError';
+  }
+}
+
+interface EvaluationState {
+  ip?: string;
+  sender: string;
+  lookups: number;
+  voidLookups: number;
+}
+
+/**
+ * Check whether a TXT string is an SPF version 1 record
+ */
+export function isSpfRecord(txt: string): boolean {
+  return /^v=spf1(\s|$)/i.test(txt);
+}
+
+/**
+ * Split a mechanism argument into domain-spec and dual CIDR lengths
+ */
+function parseDualCidr(arg: string): { domain?: string; ip4Cidr?: number; ip6Cidr?: number } {
+  const match = /^(.*?)(?:\/(\d+))?(?:\/\/(\d+))?$/.exec(arg)!;
+  const ip4Cidr = match[2] !== undefined ? parseInt(match[2], 10) : undefined;
+  const ip6Cidr = match[3] !== undefined ? parseInt(match[3], 10) : undefined;
+
+  if ((ip4Cidr !== undefined && ip4Cidr > 32) || (ip6Cidr !== undefined && ip6Cidr > 128)) {
+    throw new SpfEvaluationError('permerror', `Invalid CIDR length in "${arg}"`);
+  }
+
+  return { domain: match[1] || undefined, ip4Cidr, ip6Cidr };
+}
+
+/**
+ * Parse an SPF record into mechanisms and modifiers.
+ * Throws SpfEvaluationError (permerror) on syntax errors.
+ */
+export function parseSpfRecord(record: string): SpfRecord {
+  if (!isSpfRecord(record)) {
+    throw new SpfEvaluationError('permerror', 'Record does not start with v=spf1');
+  }
+
+  const parsed: SpfRecord = { mechanisms: [] };
+  const terms = record.trim().split(/\s+/).slice(1);
+
+  for (const term of terms) {
+    const modifier = /^([a-z][a-z0-9_.-]*)=(.*)$/i.exec(term);
+    if (modifier) {
+      const name = modifier[1].toLowerCase();
+      if (name === 'redirect' || name === 'exp') {
+        if (parsed[name] !== undefined) {
+          throw new SpfEvaluationError('permerror', `Duplicate ${name}= modifier`);
+        }
+        if (!modifier[2]) {
+          throw new SpfEvaluationError('permerror', `Empty ${name}= modifier`);
+        }
+        parsed[name] = modifier[2];
+      }
+      // Unknown modifiers are ignored (RFC 7208 section 6)
+      continue;
+    }
+
+    const directive = /^([+\-~?]?)([a-z0-9]+)([:/].*)?$/i.exec(term);
+    if (!directive) {
+      throw new SpfEvaluationError('permerror', `Invalid term "${term}"`);
+    }
+
+    const qualifier = (directive[1] || '+') as SpfQualifier;
+    const name = directive[2].toLowerCase();
+    const arg = directive[3] || '';
+    const value = arg.startsWith(':') ? arg.slice(1) : undefined;
+
+    switch (name) {
+      case 'all':
+        if (arg) throw new SpfEvaluationError('permerror', `"all" takes no arguments: "${term}"`);
+        parsed.mechanisms.push({ qualifier, name, term });
+        break;
+      case 'include':
+      case 'exists':
+        if (!value || arg.startsWith('/')) throw new SpfEvaluationError('permerror', `"${name}" requires a domain: "${term}"`);
+        parsed.mechanisms.push({ qualifier, name, value, term });
+        break;
+      case 'ptr':
+        if (arg.startsWith('/')) throw new SpfEvaluationError('permerror', `"ptr" does not take a CIDR length: "${term}"`);
+        parsed.mechanisms.push({ qualifier, name, value, term });
+        break;
+      case 'a':
+      case 'mx': {
+        const cidr = parseDualCidr(value !== undefined ? value : arg);
+        parsed.mechanisms.push({ qualifier, name, value: cidr.domain, ip4Cidr: cidr.ip4Cidr, ip6Cidr: cidr.ip6Cidr, term });
+        break;
+      }
+      case 'ip4':
+      case 'ip6': {
+        if (!value) throw new SpfEvaluationError('permerror', `"${name}" requires a network: "${term}"`);
+        const [network, prefix] = value.split('/');
+        const family = name === 'ip4' ? 4 : 6;
+        const maxPrefix = family === 4 ? 32 : 128;
+        const length = prefix === undefined ? maxPrefix : parseInt(prefix, 10);
+        if (net.isIP(network) !== family || !/^\d*$/.test(prefix || '') || isNaN(length) || length > maxPrefix) {
+          throw new SpfEvaluationError('permerror', `Invalid network in "${term}"`);
+        }
+        parsed.mechanisms.push({ qualifier, name, value: network, [family === 4 ? 'ip4Cidr' : 'ip6Cidr']: length, term });
+        break;
+      }
+      default:
+        throw new SpfEvaluationError('permerror', `Unknown mechanism "${name}"`);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Convert an IP address to its family and numeric value. IPv4-mapped IPv6 addresses are treated as IPv4.
+ */
+function parseIp(ip: string): { family: 4 | 6; value: bigint } | undefined {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  if (mapped) {
+    ip = mapped[1];
+  }
+
+  if (net.isIPv4(ip)) {
+    return { family: 4, value: ip.split('.').reduce((acc, octet) => (acc << 8n) + BigInt(parseInt(octet, 10)), 0n) };
+  }
+
+  if (!net.isIPv6(ip)) {
+    return undefined;
+  }
+
+  let address = ip;
+  const embedded = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (embedded) {
+    const v4 = parseIp(embedded[1])!.value;
+    address = address.slice(0, -embedded[1].length) + `${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail !== undefined && tail ? tail.split(':') : [];
+  const groups = tail !== undefined
+    ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+    : headGroups;
+
+  return { family: 6, value: groups.reduce((acc, group) => (acc << 16n) + BigInt(parseInt(group, 16)), 0n) };
+}
+
+/**
+ * Check whether an address falls within a network
+ */
+function cidrMatch(ip: string, network: string, prefix: number): boolean {
+  const address = parseIp(ip);
+  const base = parseIp(network);
+  if (!address || !base || address.family !== base.family) {
+    return false;
+  }
+
+  const bits = address.family === 4 ? 32 : 128;
+  const shift = BigInt(bits - prefix);
+  return (address.value >> shift) === (base.value >> shift);
+}
+
+/**
+ * Format an IP address for the %{i} macro (dotted nibbles for IPv6)
+ */
+function macroIp(ip: string): string {
+  const parsed = parseIp(ip);
+  if (!parsed) return ip;
+  if (parsed.family === 4) {
+    return [24n, 16n, 8n, 0n].map(shift => ((parsed.value >> shift) & 0xffn).toString()).join('.');
+  }
+  return parsed.value.toString(16).padStart(32, '0').split('').join('.');
+}
+
+/**
+ * Expand SPF macros in a domain-spec (RFC 7208 section 7)
+ */
+export function expandSpfMacros(spec: string, context: { domain: string; sender: string; ip?: string }): string {
+  const [localPart, senderDomain] = context.sender.includes('@')
+    ? [context.sender.slice(0, context.sender.lastIndexOf('@')) || 'postmaster', context.sender.slice(context.sender.lastIndexOf('@') + 1)]
+    : ['postmaster', context.sender];
+  const family = context.ip ? parseIp(context.ip)?.family : undefined;
+
+  const letters: Record<string, string> = {
+    s: `${localPart}@${senderDomain}`,
+    l: localPart,
+    o: senderDomain,
+    d: context.domain,
+    i: context.ip ? macroIp(context.ip) : '',
+    p: 'unknown',
+    v: family === 6 ? 'ip6' : 'in-addr',
+    h: senderDomain
+  };
+
+  let output = '';
+  for (let i = 0; i < spec.length; i++) {
+    const char = spec[i];
+    if (char !== '%') {
+      output += char;
+      continue;
+    }
+
+    const next = spec[i + 1];
+    if (next === '%') { output += '%'; i++; continue; }
+    if (next === '_') { output += ' '; i++; continue; }
+    if (next === '-') { output += '%20'; i++; continue; }
+
+    const macro = /^\{([a-z])(\d*)(r?)([.\-+,/_=]*)\}/i.exec(spec.slice(i + 1));
+    if (!macro || letters[macro[1].toLowerCase()] === undefined) {
+      throw new SpfEvaluationError('permerror', `Invalid macro in "${spec}"`);
+    }
+
+    const [whole, letter, digits, reverse, delimiters] = macro;
+    let parts = letters[letter.toLowerCase()].split(new RegExp(`[${(delimiters || '.').replace(/[-\\]/g, '\\$&')}]`));
+    if (reverse) parts = parts.reverse();
+    if (digits) {
+      const count = parseInt(digits, 10);
+      if (count === 0) throw new SpfEvaluationError('permerror', `Invalid macro in "${spec}"`);
+      parts = parts.slice(-count);
+    }
+
+    const value = parts.join('.');
+    output += letter === letter.toUpperCase() ? encodeURIComponent(value) : value;
+    i += whole.length;
+  }
+
+  // Domain names longer than 253 characters are truncated from the left
+  while (output.length > 253 && output.includes('.')) {
+    output = output.slice(output.indexOf('.') + 1);
+  }
+
+  return output;
+}
+
+/**
+ * Check whether a name is usable as an SPF target domain (RFC 7208 section 4.3)
+ */
+function isValidSpfDomain(domain: string): boolean {
+  const labels = domain.replace(/\.$/, '').split('.');
+  return labels.length > 1 && labels.every(label => label.length > 0 && label.length <= 63);
+}
+
+/**
+ * SPF evaluator implementing check_host() from RFC 7208
+ */
+export class SpfEvaluator {
+  private options: Required<SpfEvaluatorOptions>;
+
+  constructor(private resolver: DnsResolver, options: SpfEvaluatorOptions = {}) {
+    this.options = {
+      maxLookups: options.maxLookups ?? 10,
+      maxVoidLookups: options.maxVoidLookups ?? 2,
+      maxMxOrPtrNames: options.maxMxOrPtrNames ?? 10
+    };
+  }
+
+  /**
+   * Evaluate whether `ip` is authorised to send mail for `domain`
+   */
+  async checkHost(ip: string, domain: string, sender?: string): Promise<SpfEvaluation> {
+    if (!parseIp(ip)) {
+      throw new Error(`Invalid IP address: ${ip}`);
+    }
+    return this.run(domain, ip, sender);
+  }
+
+  /**
+   * Walk a domain's SPF policy without a sending source, as if evaluating a host it does not list.
+   * This visits every include and redirect, so the lookup count is the worst case for the record.
+   */
+  async inspect(domain: string): Promise<SpfEvaluation> {
+    return this.run(domain, undefined);
+  }
+
+  private async run(domain: string, ip: string | undefined, sender?: string): Promise<SpfEvaluation> {
+    const state: EvaluationState = { ip, sender: sender || `postmaster@${domain}`, lookups: 0, voidLookups: 0 };
+    const tree: SpfTreeNode = { domain, children: [] };
+    const evaluation: SpfEvaluation = { domain, ip, result: 'none', lookupCount: 0, voidLookupCount: 0, warnings: [], tree };
+
+    try {
+      evaluation.result = await this.evaluate(domain, state, tree);
+    } catch (error) {
+      if (!(error instanceof SpfEvaluationError)) throw error;
+      evaluation.result = error.result;
+      evaluation.explanation = error.message;
+    }
+
+    evaluation.record = tree.record;
+    evaluation.matchedMechanism = tree.matched;
+    evaluation.lookupCount = state.lookups;
+    evaluation.voidLookupCount = state.voidLookups;
+    evaluation.warnings = this.analyze(tree, evaluation);
+    if (tree.record) {
+      try {
+        evaluation.allQualifier = parseSpfRecord(tree.record).mechanisms.find(mechanism => mechanism.name === 'all')?.qualifier;
+      } catch {
+        // Syntax errors are already reported as permerror
+      }
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * check_host() for a single domain, recording what was visited in `node`
+   */
+  private async evaluate(domain: string, state: EvaluationState, node: SpfTreeNode): Promise<SpfResult> {
+    try {
+      if (!isValidSpfDomain(domain)) {
+        node.result = 'none';
+        return 'none';
+      }
+
+      const record = await this.fetchRecord(domain);
+      if (!record) {
+        node.result = 'none';
+        return 'none';
+      }
+      node.record = record;
+
+      const parsed = parseSpfRecord(record);
+
+      for (const mechanism of parsed.mechanisms) {
+        if (await this.matches(mechanism, domain, state, node)) {
+          node.matched = mechanism.term;
+          node.result = QUALIFIER_RESULTS[mechanism.qualifier];
+          return node.result;
+        }
+      }
+
+      if (parsed.redirect) {
+        this.countLookup(state);
+        const target = expandSpfMacros(parsed.redirect, { domain, sender: state.sender, ip: state.ip });
+        const child: SpfTreeNode = { domain: target, via: `redirect=${parsed.redirect}`, children: [] };
+        node.children.push(child);
+
+        const result = await this.evaluate(target, state, child);
+        if (result === 'none') {
+          throw new SpfEvaluationError('permerror', `redirect=${target} has no SPF record`);
+        }
+        node.matched = `redirect=${parsed.redirect}`;
+        node.result = result;
+        return result;
+      }
+
+      node.result = 'neutral';
+      return 'neutral';
+    } catch (error) {
+      if (error instanceof SpfEvaluationError && !node.result) {
+        node.result = error.result;
+        node.error = error.message;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the single SPF record for a domain
+   */
+  private async fetchRecord(domain: string): Promise<string | undefined> {
+    let txtRecords: string[][];
+    try {
+      txtRecords = await this.resolver.resolveTxt(domain);
+    } catch (error) {
+      const status = classifyDnsError(error);
+      if (isTransientDnsStatus(status)) {
+        throw new SpfEvaluationError('temperror', `DNS ${status} looking up SPF record for ${domain}`);
+      }
+      return undefined;
+    }
+
+    const records = txtRecords.map(chunks => chunks.join('')).filter(isSpfRecord);
+    if (records.length > 1) {
+      throw new SpfEvaluationError('permerror', `${domain} publishes ${records.length} SPF records`);
+    }
+    return records[0];
+  }
+
+  /**
+   * Evaluate a single mechanism against the sending IP
+   */
+  private async matches(mechanism: SpfMechanism, domain: string, state: EvaluationState, node: SpfTreeNode): Promise<boolean> {
+    const { ip } = state;
+    const family = ip ? parseIp(ip)!.family : 4;
+    const target = () => expandSpfMacros(mechanism.value || domain, { domain, sender: state.sender, ip });
+    const prefix = family === 4 ? mechanism.ip4Cidr ?? 32 : mechanism.ip6Cidr ?? 128;
+
+    switch (mechanism.name) {
+      case 'all':
+        return true;
+
+      case 'ip4':
+      case 'ip6':
+        return !!ip && cidrMatch(ip, mechanism.value!, (mechanism.name === 'ip4' ? mechanism.ip4Cidr : mechanism.ip6Cidr)!);
+
+      case 'include': {
+        this.countLookup(state);
+        const includeDomain = target();
+        const child: SpfTreeNode = { domain: includeDomain, via: mechanism.term, children: [] };
+        node.children.push(child);
+
+        const result = await this.evaluate(includeDomain, state, child);
+        if (result === 'none') {
+          throw new SpfEvaluationError('permerror', `${mechanism.term} has no SPF record`);
+        }
+        return result === 'pass';
+      }
+
+      case 'a': {
+        this.countLookup(state);
+        const addresses = await this.lookupAddresses(target(), family, state);
+        return !!ip && addresses.some(address => cidrMatch(ip, address, prefix));
+      }
+
+      case 'mx': {
+        this.countLookup(state);
+        const exchanges = await this.lookup(state, () => this.resolver.resolveMx(target()));
+        if (exchanges.length > this.options.maxMxOrPtrNames) {
+          throw new SpfEvaluationError('permerror', `${mechanism.term} returned more than ${this.options.maxMxOrPtrNames} MX records`);
+        }
+        for (const exchange of exchanges) {
+          const addresses = await this.lookupAddresses(exchange.exchange, family, state);
+          if (ip && addresses.some(address => cidrMatch(ip, address, prefix))) {
+            return true;
+          }
+        }
+        return false;
+      }
+
+      case 'ptr': {
+        this.countLookup(state);
+        if (!ip || !this.resolver.reverse) {
+          return false;
+        }
+        const targetDomain = target().toLowerCase();
+        const names = (await this.lookup(state, () => this.resolver.reverse!(ip))).slice(0, this.options.maxMxOrPtrNames);
+        for (const name of names) {
+          const addresses = await this.lookupAddresses(name, family, state);
+          const lowerName = name.toLowerCase().replace(/\.$/, '');
+          if (addresses.includes(ip) && (lowerName === targetDomain || lowerName.endsWith(`.${targetDomain}`))) {
+            return true;
+          }
+        }
+        return false;
+      }
+
+      case 'exists': {
+        this.countLookup(state);
+        if (!ip) {
+          return false;
+        }
+        const addresses = await this.lookup(state, () => this.resolver.resolve4(target()));
+        return addresses.length > 0;
+      }
+    }
+  }
+
+  private async lookupAddresses(hostname: string, family: 4 | 6, state: EvaluationState): Promise<string[]> {
+    return this.lookup(state, () => family === 4 ? this.resolver.resolve4(hostname) : this.resolver.resolve6(hostname));
+  }
+
+  /**
+   * Run a DNS query, turning transient failures into temperror and counting void lookups
+   */
+  private async lookup<T>(state: EvaluationState, query: () => Promise<T[]>): Promise<T[]> {
+    try {
+      const records = await query();
+      if (records.length === 0) this.countVoidLookup(state);
+      return records;
+    } catch (error) {
+      const status = classifyDnsError(error);
+      if (isTransientDnsStatus(status)) {
+        throw new SpfEvaluationError('temperror', `DNS ${status} during SPF evaluation`);
+      }
+      this.countVoidLookup(state);
+      return [];
+    }
+  }
+
+  private countLookup(state: EvaluationState): void {
+    state.lookups++;
+    if (state.lookups > this.options.maxLookups) {
+      throw new SpfEvaluationError('permerror', `SPF evaluation exceeded ${this.options.maxLookups} DNS lookups`);
+    }
+  }
+
+  private countVoidLookup(state: EvaluationState): void {
+    state.voidLookups++;
+    if (state.voidLookups > this.options.maxVoidLookups) {
+      throw new SpfEvaluationError('permerror', `SPF evaluation exceeded ${this.options.maxVoidLookups} void DNS lookups`);
+    }
+  }
+
+  /**
+   * Policy warnings for the top-level record
+   */
+  private analyze(tree: SpfTreeNode, evaluation: SpfEvaluation): string[] {
+    const warnings: string[] = [];
+    if (!tree.record) {
+      return warnings;
+    }
+
+    let parsed: SpfRecord;
+    try {
+      parsed = parseSpfRecord(tree.record);
+    } catch {
+      return warnings;
+    }
+
+    const all = parsed.mechanisms.find(mechanism => mechanism.name === 'all');
+    if (all?.qualifier === '+') {
+      warnings.push('"+all" authorises every host on the internet to send as this domain');
+    } else if (all?.qualifier === '?') {
+      warnings.push('"?all" gives no guidance to receivers about unlisted hosts');
+    } else if (!all && !parsed.redirect) {
+      warnings.push('Record has no "all" mechanism, so unlisted hosts get a neutral result');
+    }
+
+    if (parsed.mechanisms.some(mechanism => mechanism.name === 'ptr')) {
+      warnings.push('The "ptr" mechanism is slow and deprecated (RFC 7208 section 5.5)');
+    }
+
+    if (evaluation.result !== 'permerror' && evaluation.lookupCount >= this.options.maxLookups - 2) {
+      warnings.push(`SPF evaluation used ${evaluation.lookupCount} of ${this.options.maxLookups} allowed DNS lookups`);
+    }
+
+    return warnings;
+  }
+}
+
+/**
+ * Check whether an evaluation visited a given include/redirect domain
+ */
+export function spfTreeIncludes(tree: SpfTreeNode, domain: string): boolean {
+  const target = domain.toLowerCase();
+  return tree.domain.toLowerCase() === target || tree.children.some(child => spfTreeIncludes(child, target));
+}
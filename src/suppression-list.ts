@@ -0,0 +1,306 @@
+import { Clock, systemClock } from './clock';
+import { isValidEmailAddress } from './email-address';
+import { JsonlStore } from './jsonl-store';
+
+/**
+ * Why an address must not be mailed
+ */
+export type SuppressionReason = 'hard-bounce' | 'soft-bounce' | 'complaint' | 'unsubscribe' | 'manual';
+
+const SUPPRESSION_REASONS: SuppressionReason[] = ['hard-bounce', 'soft-bounce', 'complaint', 'unsubscribe', 'manual'];
+
+/**
+ * How strongly a reason forbids mailing; used by the keepStronger option of add
+ */
+const REASON_STRENGTH: Record<SuppressionReason, number> = {
+  'soft-bounce': 0,
+  'hard-bounce': 1,
+  unsubscribe: 1,
+  manual: 1,
+  complaint: 2
+};
+
+/**
+ * A suppressed address
+ */
+export interface SuppressionEntry {
+  email: string; // Normalized: bare address, lower case
+  reason: SuppressionReason;
+  source?: string; // Where the suppression came from, e.g. 'ses-notification', 'cli' or 'import'
+  createdAt: number;
+  expiresAt?: number; // The address may be mailed again after this time
+  note?: string;
+}
+
+/**
+ * Options for SuppressionList.add and import
+ */
+export interface SuppressOptions {
+  reason?: SuppressionReason; // Default: 'manual'
+  source?: string;
+  expiresAt?: Date | number;
+  ttlMs?: number; // Alternative to expiresAt, relative to now
+  note?: string;
+  keepStronger?: boolean; // Keep an active entry that is permanent while the new one expires, or has a stronger reason
+}
+
+/**
+ * Configuration of SuppressionList
+ */
+export interface SuppressionListConfig {
+  path: string; // JSONL file holding the list
+  clock?: Clock;
+  compactAfter?: number; // Rewrite the file once it holds this many superseded records (default: 1000)
+}
+
+/**
+ * Outcome of SuppressionList.import
+ */
+export interface SuppressionImportResult {
+  imported: number;
+  invalid: string[]; // Lines or values that did not contain a valid address
+}
+
+/**
+ * Export formats of SuppressionList.export
+ */
+export type SuppressionExportFormat = 'json' | 'csv';
+
+const CSV_COLUMNS = ['email', 'reason', 'source', 'createdAt', 'expiresAt', 'note'] as const;
+
+/**
+ * Reduce "Name <address>" to the lower-case address used as the suppression key
+ */
+export function normalizeSuppressedAddress(address: string): string {
+  return (address.match(/<([^>]+)>\s*$/)?.[1] || address).trim().toLowerCase();
+}
+
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const time = /^\d+$/.test(value.trim()) ? Number(value) : Date.parse(value);
+    return isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+/**
+ * Addresses that must not be mailed, backed by an append-only JSONL file.
+ * Expired entries are ignored and dropped when the file is compacted.
+ */
+export class SuppressionList {
+  private store: JsonlStore<SuppressionEntry>;
+  private clock: Clock;
+
+  constructor(config: SuppressionListConfig) {
+    this.clock = config.clock || systemClock;
+    this.store = new JsonlStore({
+      path: config.path,
+      key: 'email',
+      compactAfter: config.compactAfter,
+      retain: entry => this.isActive(entry)
+    });
+  }
+
+  /**
+   * Suppress an address, replacing any existing entry unless `keepStronger` is set and the existing
+   * entry is stronger, in which case it is returned unchanged. Throws when the address is invalid.
+   */
+  async add(email: string, options: SuppressOptions = {}): Promise<SuppressionEntry> {
+    await this.store.load();
+
+    const address = normalizeSuppressedAddress(email);
+    if (!isValidEmailAddress(address)) {
+      throw new Error(`Invalid email address "${email}"`);
+    }
+
+    const now = this.clock.now();
+    const entry: SuppressionEntry = {
+      email: address,
+      reason: options.reason || 'manual',
+      source: options.source,
+      createdAt: now,
+      expiresAt: options.expiresAt !== undefined
+        ? new Date(options.expiresAt).getTime()
+        : options.ttlMs !== undefined ? now + options.ttlMs : undefined,
+      note: options.note
+    };
+
+    const existing = this.store.get(address);
+    if (options.keepStronger && existing && this.isActive(existing) && this.isStronger(existing, entry)) {
+      return existing;
+    }
+
+    await this.store.set(entry);
+    return entry;
+  }
+
+  /**
+   * Remove an address from the list
+   */
+  async remove(email: string): Promise<boolean> {
+    return await this.store.delete(normalizeSuppressedAddress(email));
+  }
+
+  /**
+   * The active suppression of an address, if any
+   */
+  async get(email: string): Promise<SuppressionEntry | undefined> {
+    await this.store.load();
+    const entry = this.store.get(normalizeSuppressedAddress(email));
+    return entry && this.isActive(entry) ? entry : undefined;
+  }
+
+  /**
+   * Whether an address is suppressed
+   */
+  async isSuppressed(email: string): Promise<boolean> {
+    return !!(await this.get(email));
+  }
+
+  /**
+   * The active suppressions among a list of addresses
+   */
+  async check(emails: string[]): Promise<SuppressionEntry[]> {
+    const found: SuppressionEntry[] = [];
+    for (const email of emails) {
+      const entry = await this.get(email);
+      if (entry && !found.includes(entry)) {
+        found.push(entry);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * List active entries, optionally only those with one reason, oldest first
+   */
+  async list(reason?: SuppressionReason, includeExpired = false): Promise<SuppressionEntry[]> {
+    await this.store.load();
+    return this.store.values()
+      .filter(entry => (includeExpired || this.isActive(entry)) && (!reason || entry.reason === reason))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Add addresses from a JSON array (as written by export), CSV with an `email` header column,
+   * or plain text with one address per line. Fields missing from the data come from `defaults`.
+   */
+  async import(data: string, defaults: SuppressOptions = {}): Promise<SuppressionImportResult> {
+    const result: SuppressionImportResult = { imported: 0, invalid: [] };
+    const records: Array<Partial<Record<typeof CSV_COLUMNS[number], unknown>>> = [];
+
+    if (data.trim().startsWith('[')) {
+      records.push(...(JSON.parse(data) as unknown[]).map(item => (typeof item === 'string' ? { email: item } : item as object)));
+    } else {
+      const lines = data.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith('#'));
+      const header = lines.length > 0
+        ? parseCsvLine(lines[0]).map(column => CSV_COLUMNS.find(name => name.toLowerCase() === column.toLowerCase()) || column)
+        : [];
+      const hasHeader = header.includes('email');
+      if (hasHeader) {
+        lines.shift();
+      }
+      const columns = hasHeader ? header : ['email'];
+      for (const line of lines) {
+        const fields = parseCsvLine(line);
+        records.push(Object.fromEntries(columns.map((column, index) => [column, fields[index]])));
+      }
+    }
+
+    for (const record of records) {
+      const email = typeof record.email === 'string' ? record.email : '';
+      const reason = SUPPRESSION_REASONS.includes(record.reason as SuppressionReason) ? record.reason as SuppressionReason : undefined;
+      const expiresAt = toTimestamp(record.expiresAt);
+      try {
+        await this.add(email, {
+          ...defaults,
+          reason: reason || defaults.reason,
+          source: typeof record.source === 'string' && record.source ? record.source : defaults.source || 'import',
+          expiresAt: expiresAt ?? defaults.expiresAt,
+          note: typeof record.note === 'string' && record.note ? record.note : defaults.note
+        });
+        result.imported++;
+      } catch {
+        result.invalid.push(email || JSON.stringify(record));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Serialize the active entries as a JSON array or CSV with a header row
+   */
+  async export(format: SuppressionExportFormat = 'json'): Promise<string> {
+    const entries = await this.list();
+    if (format === 'json') {
+      return JSON.stringify(entries, null, 2);
+    }
+
+    const rows = entries.map(entry => [
+      entry.email,
+      entry.reason,
+      entry.source || '',
+      new Date(entry.createdAt).toISOString(),
+      entry.expiresAt !== undefined ? new Date(entry.expiresAt).toISOString() : '',
+      entry.note || ''
+    ].map(toCsvField).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  /**
+   * Rewrite the file with only the active entries
+   */
+  async compact(): Promise<void> {
+    await this.store.compact();
+  }
+
+  private isActive(entry: SuppressionEntry): boolean {
+    return entry.expiresAt === undefined || entry.expiresAt > this.clock.now();
+  }
+
+  /**
+   * Whether replacing `existing` with `entry` would weaken the suppression
+   */
+  private isStronger(existing: SuppressionEntry, entry: SuppressionEntry): boolean {
+    if (existing.expiresAt === undefined && entry.expiresAt !== undefined) {
+      return true;
+    }
+    return REASON_STRENGTH[existing.reason] > REASON_STRENGTH[entry.reason];
+  }
+}
@@ -0,0 +1,224 @@
+import { escapeHtml } from './email-template';
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'center', 'dd', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure',
+  'footer', 'form', 'header', 'main', 'nav', 'p', 'section', 'table', 'tbody', 'thead', 'tfoot', 'ul', 'ol'
+]);
+const SKIPPED_ELEMENTS = new Set(['head', 'style', 'script', 'title', 'template', 'noscript']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', trade: '™', hellip: '…',
+  mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', middot: '·', euro: '€',
+  pound: '£', yen: '¥', cent: '¢', deg: '°', times: '×', laquo: '«', raquo: '»'
+};
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<!doctype[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>|[^<]+|</gi;
+
+/**
+ * Decode HTML character references
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i'));
+  return match ? decodeHtmlEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+interface ListState {
+  ordered: boolean;
+  index: number;
+}
+
+/**
+ * Accumulates plain text, collapsing whitespace and tracking line breaks between blocks
+ */
+class TextWriter {
+  output = '';
+  private pendingBreaks = 0;
+  private pendingPrefix = '';
+  private lineIndent = '';
+
+  /**
+   * Request at least `count` line breaks before the next text
+   */
+  breakLines(count: number): void {
+    this.pendingBreaks = Math.max(this.pendingBreaks, count);
+  }
+
+  setIndent(indent: string): void {
+    this.lineIndent = indent;
+  }
+
+  /**
+   * Text written at the start of the next line, e.g. a list marker
+   */
+  prefixNextLine(prefix: string): void {
+    this.pendingPrefix = prefix;
+  }
+
+  write(text: string, preformatted = false): void {
+    const content = preformatted ? text : text.replace(/\s+/g, ' ');
+    if (!content || (!preformatted && content === ' ' && (this.pendingBreaks > 0 || this.atLineStart()))) {
+      return;
+    }
+
+    if (this.pendingBreaks > 0 && this.output) {
+      this.output += '\n'.repeat(this.pendingBreaks);
+    }
+    if (this.pendingBreaks > 0 || this.atLineStart()) {
+      this.output += this.lineIndent + this.pendingPrefix;
+      this.pendingPrefix = '';
+    }
+    this.pendingBreaks = 0;
+
+    this.output += !preformatted && /(^|[ \n])$/.test(this.output) ? content.replace(/^ /, '') : content;
+  }
+
+  private atLineStart(): boolean {
+    return this.output === '' || this.output.endsWith('\n');
+  }
+}
+
+/**
+ * Derive a readable text/plain alternative from HTML: block elements become paragraphs, list items
+ * get markers, table cells are joined with " | ", headings stand alone (h1 and h2 upper-cased) and
+ * link targets are listed as numbered footnotes.
+ */
+export function htmlToText(html: string): string {
+  const writer = new TextWriter();
+  const lists: ListState[] = [];
+  const links: string[] = [];
+  const openLinks: Array<{ href?: string; start: number }> = [];
+  const headings: number[] = [];
+  let skipDepth = 0;
+  let skipElement = '';
+  let preDepth = 0;
+  let cellIndex = 0;
+
+  for (const match of html.matchAll(TOKEN_PATTERN)) {
+    const [token, closing, rawName, attributes = '', selfClosing] = match;
+
+    if (!rawName) {
+      if (skipDepth === 0 && !token.startsWith('<!')) {
+        writer.write(decodeHtmlEntities(token), preDepth > 0);
+      }
+      continue;
+    }
+
+    const name = rawName.toLowerCase();
+    if (skipDepth > 0) {
+      if (name === skipElement) {
+        skipDepth += closing ? -1 : selfClosing ? 0 : 1;
+      }
+      continue;
+    }
+    if (SKIPPED_ELEMENTS.has(name) && !closing && !selfClosing) {
+      skipDepth = 1;
+      skipElement = name;
+      continue;
+    }
+
+    if (name === 'br') {
+      writer.write('\n', true);
+    } else if (name === 'hr') {
+      writer.breakLines(2);
+      writer.write('----------------------------------------', true);
+      writer.breakLines(2);
+    } else if (name === 'img') {
+      const alt = getAttribute(attributes, 'alt');
+      if (alt) {
+        writer.write(`[${alt}]`);
+      }
+    } else if (/^h[1-6]$/.test(name)) {
+      writer.breakLines(2);
+      if (!closing) {
+        headings.push(writer.output.length);
+      } else if (headings.length > 0) {
+        const start = headings.pop()!;
+        if (name === 'h1' || name === 'h2') {
+          writer.output = writer.output.slice(0, start) + writer.output.slice(start).toUpperCase();
+        }
+      }
+    } else if (name === 'ul' || name === 'ol') {
+      if (!closing) {
+        lists.push({ ordered: name === 'ol', index: Number(getAttribute(attributes, 'start') ?? 1) - 1 });
+      } else {
+        lists.pop();
+      }
+      writer.setIndent('  '.repeat(Math.max(0, lists.length - 1)));
+      writer.breakLines(lists.length > 0 ? 1 : 2);
+    } else if (name === 'li') {
+      writer.breakLines(1);
+      const list = lists[lists.length - 1];
+      if (!closing) {
+        writer.prefixNextLine(list?.ordered ? `${++list.index}. ` : '* ');
+      }
+    } else if (name === 'tr') {
+      writer.breakLines(1);
+      cellIndex = 0;
+    } else if (name === 'td' || name === 'th') {
+      if (!closing && cellIndex++ > 0) {
+        writer.write(' | ', true);
+      }
+    } else if (name === 'pre') {
+      writer.breakLines(2);
+      preDepth += closing ? -1 : 1;
+    } else if (name === 'a') {
+      if (!closing) {
+        openLinks.push({ href: getAttribute(attributes, 'href'), start: writer.output.length });
+      } else {
+        const link = openLinks.pop();
+        const href = link?.href?.trim();
+        if (link && href && !/^(#|javascript:)/i.test(href)) {
+          const text = writer.output.slice(link.start).trim();
+          if (!text) {
+            writer.write(href);
+          } else if (text !== href && text !== href.replace(/^mailto:/i, '')) {
+            links.push(href);
+            writer.write(` [${links.length}]`);
+          }
+        }
+      }
+    } else if (BLOCK_ELEMENTS.has(name)) {
+      writer.breakLines(2);
+    }
+  }
+
+  let text = writer.output
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  if (links.length > 0) {
+    text += '\n\n' + links.map((href, index) => `[${index + 1}] ${href}`).join('\n');
+  }
+  return text;
+}
+
+/**
+ * Wrap plain text into minimal HTML: escaped, paragraphs at blank lines, line breaks kept
+ * and URLs turned into links
+ */
+export function textToHtml(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => {
+      const escaped = escapeHtml(paragraph.trim())
+        .replace(/https?:\/\/[^\s<]+[^\s<.,;:!?)'"&]/g, url => `<a href="${url}">${url}</a>`)
+        .replace(/\n/g, '<br>\n');
+      return `<p>${escaped}</p>`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+
+/**
+ * Value of List-Unsubscribe-Post announcing one-click unsubscribe (RFC 8058)
+ */
+export const ONE_CLICK_UNSUBSCRIBE = 'List-Unsubscribe=One-Click';
+
+/**
+ * Unsubscribe targets advertised in the List-Unsubscribe header (RFC 2369)
+ */
+export interface UnsubscribeOptions {
+  url?: string; // HTTPS endpoint; EmailSender appends a signed token when configured with a secret
+  mailto?: string; // Address or mailto: URI that processes unsubscribe requests
+  oneClick?: boolean; // Add List-Unsubscribe-Post (default: true when url is HTTPS)
+  list?: string; // List identifier carried in the signed token
+}
+
+/**
+ * Secret used by EmailSender to sign unsubscribe URLs
+ */
+export interface UnsubscribeSigningConfig {
+  secret: string;
+  tokenTtlMs?: number; // Tokens never expire when omitted
+}
+
+/**
+ * Options for createUnsubscribeToken
+ */
+export interface UnsubscribeTokenOptions {
+  list?: string;
+  expiresAt?: Date | number;
+}
+
+/**
+ * Outcome of verifyUnsubscribeToken
+ */
+export interface UnsubscribeTokenVerification {
+  valid: boolean;
+  email?: string;
+  list?: string;
+  error?: string;
+}
+
+/**
+ * List-Unsubscribe headers found on a message
+ */
+export interface ListUnsubscribeCheck {
+  present: boolean;
+  oneClick: boolean; // HTTPS URL plus List-Unsubscribe-Post, as Gmail and Yahoo require for bulk mail
+  mailto?: string;
+  url?: string;
+  issues: string[];
+}
+
+function sign(payload: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Create a URL-safe token identifying the recipient, signed with HMAC-SHA256
+ */
+export function createUnsubscribeToken(email: string, secret: string, options: UnsubscribeTokenOptions = {}): string {
+  const payload = Buffer.from(JSON.stringify({
+    e: email,
+    l: options.list,
+    x: options.expiresAt !== undefined ? new Date(options.expiresAt).getTime() : undefined
+  })).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Check a token's signature and expiry and return the recipient it identifies
+ */
+export function verifyUnsubscribeToken(token: string, secret: string, now: number = Date.now()): UnsubscribeTokenVerification {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    return { valid: false, error: 'Malformed token' };
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return { valid: false, error: 'Invalid signature' };
+  }
+
+  let data: { e?: unknown; l?: unknown; x?: unknown };
+  try {
+    data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, error: 'Malformed token' };
+  }
+  if (typeof data.e !== 'string') {
+    return { valid: false, error: 'Malformed token' };
+  }
+
+  const list = typeof data.l === 'string' ? data.l : undefined;
+  if (typeof data.x === 'number' && now > data.x) {
+    return { valid: false, email: data.e, list, error: 'Token has expired' };
+  }
+  return { valid: true, email: data.e, list };
+}
+
+/**
+ * Add a signed `token` query parameter to an unsubscribe URL
+ */
+export function buildUnsubscribeUrl(url: string, email: string, secret: string, options: UnsubscribeTokenOptions = {}): string {
+  const result = new URL(url);
+  result.searchParams.set('token', createUnsubscribeToken(email, secret, options));
+  return result.toString();
+}
+
+/**
+ * Whether a POST body is an RFC 8058 one-click unsubscribe request. Accepts the raw
+ * application/x-www-form-urlencoded (or multipart) body, or already parsed fields.
+ */
+export function isOneClickUnsubscribeRequest(body: string | Record<string, unknown>): boolean {
+  if (typeof body !== 'string') {
+    return body['List-Unsubscribe'] === 'One-Click';
+  }
+  return new URLSearchParams(body.trim()).get('List-Unsubscribe') === 'One-Click' ||
+    /name="List-Unsubscribe"\r?\n\r?\nOne-Click\r?\n/.test(body);
+}
+
+/**
+ * Build the List-Unsubscribe and List-Unsubscribe-Post headers. Throws when no target is given,
+ * a target is malformed, or one-click is requested without an HTTPS URL.
+ */
+export function buildListUnsubscribeHeaders(options: UnsubscribeOptions): Record<string, string> {
+  const targets: string[] = [];
+
+  if (options.mailto) {
+    const mailto = /^mailto:/i.test(options.mailto) ? options.mailto : `mailto:${options.mailto}`;
+    if (!/^mailto:[^@\s<>]+@[^@\s<>]+$/i.test(mailto)) {
+      throw new Error(`Invalid unsubscribe mailto "${options.mailto}"`);
+    }
+    targets.push(mailto);
+  }
+
+  let https = false;
+  if (options.url) {
+    let url: URL;
+    try {
+      url = new URL(options.url);
+    } catch {
+      throw new Error(`Invalid unsubscribe URL "${options.url}"`);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error(`Unsubscribe URL must be an HTTP or HTTPS URL: "${options.url}"`);
+    }
+    https = url.protocol === 'https:';
+    targets.push(url.toString());
+  }
+
+  if (targets.length === 0) {
+    throw new Error('Unsubscribe options need a url or a mailto address');
+  }
+  if (options.oneClick && !https) {
+    throw new Error('One-click unsubscribe (RFC 8058) requires an HTTPS URL');
+  }
+
+  const headers: Record<string, string> = {
+    'List-Unsubscribe': targets.map(target => `<${target}>`).join(', ')
+  };
+  if (https && options.oneClick !== false) {
+    headers['List-Unsubscribe-Post'] = ONE_CLICK_UNSUBSCRIBE;
+  }
+  return headers;
+}
+
+/**
+ * Check the List-Unsubscribe headers of a message against the Gmail and Yahoo bulk-sender rules
+ */
+export function checkListUnsubscribe(headers: Record<string, string> = {}): ListUnsubscribeCheck {
+  const find = (name: string) => Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+  const value = find('list-unsubscribe');
+  const post = find('list-unsubscribe-post');
+
+  if (!value) {
+    return {
+      present: false,
+      oneClick: false,
+      issues: ['Message has no List-Unsubscribe header. Gmail and Yahoo require one (with one-click unsubscribe) for bulk mail.']
+    };
+  }
+
+  const targets = [...value.matchAll(/<([^>]*)>/g)].map(match => match[1].trim());
+  const mailto = targets.find(target => /^mailto:/i.test(target));
+  const url = targets.find(target => /^https?:/i.test(target));
+  const issues: string[] = [];
+
+  if (targets.length === 0) {
+    issues.push('List-Unsubscribe header has no <...> targets.');
+  } else if (!url || !/^https:/i.test(url)) {
+    issues.push('List-Unsubscribe has no HTTPS URL, which one-click unsubscribe requires.');
+  }
+  if (!post) {
+    issues.push(`List-Unsubscribe-Post header is missing. Add "List-Unsubscribe-Post: ${ONE_CLICK_UNSUBSCRIBE}" to enable one-click unsubscribe.`);
+  } else if (post.trim() !== ONE_CLICK_UNSUBSCRIBE) {
+    issues.push(`List-Unsubscribe-Post must be "${ONE_CLICK_UNSUBSCRIBE}", found "${post}".`);
+  }
+
+  return {
+    present: true,
+    oneClick: issues.length === 0,
+    mailto,
+    url,
+    issues
+  };
+}
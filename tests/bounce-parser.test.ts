@@ -0,0 +1,237 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseBounce, classifyBounce, suppressBouncedRecipients, SuppressionList } from '../src/index';
+
+const postfixBounce = [
+  'Return-Path: <>',
+  'From: MAILER-DAEMON@mail.example.com (Mail Delivery System)',
+  'Subject: Undelivered Mail Returned to Sender',
+  'To: sender@example.com',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/report; report-type=delivery-status;',
+  '\tboundary="8D5C21A0.1697000000/mail.example.com"',
+  '',
+  'This is a MIME-encapsulated message.',
+  '',
+  '--8D5C21A0.1697000000/mail.example.com',
+  'Content-Description: Notification',
+  'Content-Type: text/plain; charset=us-ascii',
+  '',
+  'This is the mail system at host mail.example.com.',
+  '',
+  "I'm sorry to have to inform you that your message could not",
+  'be delivered to one or more recipients.',
+  '',
+  '--8D5C21A0.1697000000/mail.example.com',
+  'Content-Description: Delivery report',
+  'Content-Type: message/delivery-status',
+  '',
+  'Reporting-MTA: dns; mail.example.com',
+  'X-Postfix-Queue-ID: 8D5C21A0',
+  'Original-Envelope-Id: env-42',
+  'Arrival-Date: Mon, 12 Oct 2026 10:00:00 +0000 (UTC)',
+  '',
+  'Final-Recipient: rfc822; missing@example.org',
+  'Original-Recipient: rfc822;Missing@Example.org',
+  'Action: failed',
+  'Status: 5.1.1',
+  'Remote-MTA: dns; mx.example.org',
+  'Diagnostic-Code: smtp; 550 5.1.1 <missing@example.org>: Recipient address',
+  '    rejected: User unknown in virtual mailbox table',
+  '',
+  'Final-Recipient: rfc822; full@example.org',
+  'Action: failed',
+  'Status: 5.2.2',
+  'Diagnostic-Code: smtp; 552 5.2.2 Mailbox full',
+  '',
+  'Final-Recipient: rfc822; slow@example.org',
+  'Action: delayed',
+  'Status: 4.4.1',
+  'Diagnostic-Code: X-Postfix; connect to mx.example.org[192.0.2.1]:25: Connection timed out',
+  '',
+  '--8D5C21A0.1697000000/mail.example.com',
+  'Content-Description: Undelivered Message Headers',
+  'Content-Type: text/rfc822-headers',
+  '',
+  'From: sender@example.com',
+  'To: missing@example.org',
+  'Subject: Welcome aboard',
+  'Message-ID: <3f1c2f6e-0d4b-4a8e-9c1a-9b7f0e6d5c4b@example.com>',
+  '',
+  '--8D5C21A0.1697000000/mail.example.com--',
+  ''
+].join('\r\n');
+
+const encodedBounce = [
+  'From: postmaster@relay.example.net',
+  'Subject: Delivery Status Notification (Failure)',
+  'Content-Type: multipart/report; report-type=delivery-status; boundary=outer',
+  '',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary=inner',
+  '',
+  '--inner',
+  'Content-Type: text/plain',
+  '',
+  'Delivery has failed.',
+  '--inner--',
+  '--outer',
+  'Content-Type: message/delivery-status',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('Reporting-MTA: dns;relay.example.net\r\n\r\nFinal-Recipient: rfc822;<blocked@example.org>\r\nAction: failed\r\nStatus: 5.7.1\r\nDiagnostic-Code: smtp;550 5.7.1 Message rejected as spam\r\n').toString('base64'),
+  '--outer',
+  'Content-Type: message/rfc822',
+  '',
+  'From: sender@example.com',
+  'Message-ID: original-id@example.com',
+  'Subject: Newsletter',
+  '',
+  'Hello',
+  '--outer--'
+].join('\r\n');
+
+const qmailBounce = [
+  'From: MAILER-DAEMON@mx.example.net',
+  'To: sender@example.com',
+  'Subject: failure notice',
+  '',
+  'Hi. This is the qmail-send program at mx.example.net.',
+  "I'm afraid I wasn't able to deliver your message to the following addresses.",
+  'This is a permanent error; I\'ve given up. Sorry it didn\'t work out.',
+  '',
+  '<gone@example.org>:',
+  '192.0.2.10 does not like recipient.',
+  'Remote host said: 550 5.1.1 The email account that you tried to reach does not exist',
+  'Giving up on 192.0.2.10.',
+  '',
+  '--- Below this line is a copy of the message.',
+  '',
+  'From: sender@example.com',
+  'Message-ID: <abc@example.com>',
+  'Subject: Hello'
+].join('\n');
+
+describe('parseBounce', () => {
+  test('should read every recipient of an RFC 3464 report', () => {
+    const bounce = parseBounce(postfixBounce);
+
+    expect(bounce).toMatchObject({
+      isBounce: true,
+      standard: true,
+      reportingMta: 'mail.example.com',
+      originalEnvelopeId: 'env-42',
+      originalMessageId: '<3f1c2f6e-0d4b-4a8e-9c1a-9b7f0e6d5c4b@example.com>',
+      originalSubject: 'Welcome aboard'
+    });
+    expect(bounce.recipients).toEqual([
+      {
+        recipient: 'missing@example.org',
+        originalRecipient: 'Missing@Example.org',
+        action: 'failed',
+        status: '5.1.1',
+        diagnosticCode: '550 5.1.1 <missing@example.org>: Recipient address rejected: User unknown in virtual mailbox table',
+        remoteMta: 'mx.example.org',
+        classification: 'hard'
+      },
+      expect.objectContaining({ recipient: 'full@example.org', status: '5.2.2', classification: 'soft' }),
+      expect.objectContaining({ recipient: 'slow@example.org', action: 'delayed', status: '4.4.1', classification: 'soft' })
+    ]);
+  });
+
+  test('should decode encoded parts, nested multiparts and bare Message-IDs', () => {
+    const bounce = parseBounce(Buffer.from(encodedBounce));
+
+    expect(bounce).toMatchObject({ isBounce: true, standard: true, reportingMta: 'relay.example.net', originalMessageId: '<original-id@example.com>' });
+    expect(bounce.recipients).toEqual([expect.objectContaining({
+      recipient: 'blocked@example.org',
+      status: '5.7.1',
+      diagnosticCode: '550 5.7.1 Message rejected as spam',
+      classification: 'hard'
+    })]);
+  });
+
+  test('should read non-standard bounces on a best-effort basis', () => {
+    const bounce = parseBounce(qmailBounce);
+
+    expect(bounce).toMatchObject({ isBounce: true, standard: false, originalMessageId: '<abc@example.com>' });
+    expect(bounce.recipients).toEqual([{
+      recipient: 'gone@example.org',
+      action: 'failed',
+      status: '5.1.1',
+      diagnosticCode: 'Remote host said: 550 5.1.1 The email account that you tried to reach does not exist',
+      classification: 'hard'
+    }]);
+  });
+
+  test('should not treat ordinary mail or success reports as bounces', () => {
+    expect(parseBounce('From: friend@example.org\r\nSubject: Lunch?\r\n\r\nAt 550 Main St, 5.1.1 minutes away')).toEqual({
+      isBounce: false,
+      standard: false,
+      originalMessageId: undefined,
+      originalSubject: undefined,
+      recipients: []
+    });
+
+    const delivered = postfixBounce.replace(/Action: failed\r\nStatus: 5\.1\.1/, 'Action: delivered\r\nStatus: 2.0.0');
+    expect(parseBounce(delivered).recipients[0].classification).toBe('none');
+  });
+
+  test('should classify by action and status', () => {
+    expect(classifyBounce('failed', '5.1.1')).toBe('hard');
+    expect(classifyBounce('failed', '5.2.2')).toBe('soft');
+    expect(classifyBounce('failed', '4.2.2')).toBe('soft');
+    expect(classifyBounce('failed')).toBe('hard');
+    expect(classifyBounce('delayed', '5.0.0')).toBe('soft');
+    expect(classifyBounce('relayed')).toBe('none');
+  });
+});
+
+describe('suppressBouncedRecipients', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bounce-suppression-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should suppress hard bounces, and soft bounces only with a TTL', async () => {
+    const list = new SuppressionList({ path: path.join(directory, 'suppressions.jsonl') });
+    const bounce = parseBounce(postfixBounce);
+
+    const hardOnly = await suppressBouncedRecipients(list, bounce);
+    expect(hardOnly).toEqual([expect.objectContaining({
+      email: 'missing@example.org',
+      reason: 'hard-bounce',
+      source: 'bounce',
+      note: expect.stringContaining('550 5.1.1')
+    })]);
+
+    const withSoft = await suppressBouncedRecipients(list, bounce, { softBounceTtlMs: 60000, source: 'mailbox' });
+    expect(withSoft.map(entry => [entry.email, entry.reason, entry.expiresAt !== undefined])).toEqual([
+      ['missing@example.org', 'hard-bounce', false],
+      ['full@example.org', 'soft-bounce', true],
+      ['slow@example.org', 'soft-bounce', true]
+    ]);
+  });
+
+  test('should keep stronger suppressions and skip invalid recipients', async () => {
+    const list = new SuppressionList({ path: path.join(directory, 'suppressions.jsonl') });
+    await list.add('full@example.org', { reason: 'complaint' });
+    await list.add('missing@example.org', { reason: 'hard-bounce' });
+    const bounce = parseBounce(postfixBounce.replace('Final-Recipient: rfc822; missing@example.org', 'Final-Recipient: rfc822; not-an-address'));
+
+    const entries = await suppressBouncedRecipients(list, bounce, { softBounceTtlMs: 60000 });
+
+    expect(entries.map(entry => [entry.email, entry.reason])).toEqual([
+      ['full@example.org', 'complaint'],
+      ['slow@example.org', 'soft-bounce']
+    ]);
+    expect(await list.get('full@example.org')).toMatchObject({ reason: 'complaint', expiresAt: undefined });
+    expect(await list.get('missing@example.org')).toMatchObject({ reason: 'hard-bounce' });
+  });
+});
@@ -0,0 +1,118 @@
+import nodemailer from 'nodemailer';
+import { EmailSender, type EmailProvider, type ProviderMessage, type BulkSendProgress } from '../src/index';
+
+class RecordingProvider implements EmailProvider {
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false };
+  readonly sent: string[] = [];
+  inFlight = 0;
+  maxInFlight = 0;
+
+  constructor(readonly name: string, private rejected: string[] = []) {}
+
+  async send(message: ProviderMessage) {
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    await new Promise(resolve => setImmediate(resolve));
+    this.inFlight--;
+
+    const to = message.recipients[0];
+    if (this.rejected.includes(to)) {
+      throw Object.assign(new Error('550 5.1.1 User unknown'), { responseCode: 550 });
+    }
+    this.sent.push(to);
+    return { messageId: `id-${to}` };
+  }
+
+  async verify() {}
+}
+
+const messages = (count: number) =>
+  Array.from({ length: count }, (_, i) => ({ to: `user${i}@example.org`, subject: 'Newsletter', text: 'Hi' }));
+
+describe('EmailSender.sendBulk', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should send every message and summarize the results', async () => {
+    const provider = new RecordingProvider('relay', ['user2@example.org']);
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider] });
+    const progress: BulkSendProgress[] = [];
+
+    const result = await sender.sendBulk(messages(6), { concurrency: 3, onProgress: p => progress.push(p) });
+
+    expect(result).toMatchObject({ successful: 5, failed: 1, skipped: 0, total: 6, aborted: false });
+    expect(result.results.map(item => item.status)).toEqual(['sent', 'sent', 'failed', 'sent', 'sent', 'sent']);
+    expect(result.results[0]).toMatchObject({ index: 0, to: 'user0@example.org', result: { messageId: 'id-user0@example.org' } });
+    expect(result.results[2].result).toMatchObject({ errorClass: 'permanent-recipient' });
+    expect(provider.maxInFlight).toBe(3);
+    expect(progress.map(p => p.completed)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(progress[5]).toMatchObject({ total: 6, successful: 5, failed: 1 });
+  });
+
+  test('should skip the remaining messages with stopOnError', async () => {
+    const provider = new RecordingProvider('relay', ['user1@example.org']);
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider] });
+
+    const result = await sender.sendBulk(messages(5), { concurrency: 1, stopOnError: true });
+
+    expect(result).toMatchObject({ successful: 1, failed: 1, skipped: 3 });
+    expect(result.results[4]).toEqual({ index: 4, to: 'user4@example.org', status: 'skipped' });
+    expect(provider.sent).toEqual(['user0@example.org']);
+  });
+
+  test('should schedule messages with a send time without holding a worker', async () => {
+    const provider = new RecordingProvider('relay');
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider] });
+    const [later, ...now] = messages(3);
+
+    const result = await sender.sendBulk([{ ...later, delayMs: 24 * 60 * 60 * 1000 }, ...now], { concurrency: 1 });
+
+    expect(result).toMatchObject({ successful: 2, scheduled: 1, skipped: 0 });
+    expect(result.results[0]).toMatchObject({ status: 'scheduled', result: { scheduled: { id: expect.any(String) } } });
+    expect(provider.sent).toEqual(['user1@example.org', 'user2@example.org']);
+    expect(sender.cancelScheduled(result.results[0].result!.scheduled!.id)).toBe(true);
+  });
+
+  test('should stop starting messages once aborted', async () => {
+    const provider = new RecordingProvider('relay');
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider] });
+    const controller = new AbortController();
+
+    const result = await sender.sendBulk(messages(10), {
+      concurrency: 2,
+      signal: controller.signal,
+      onProgress: ({ completed }) => completed === 3 && controller.abort()
+    });
+
+    expect(result.aborted).toBe(true);
+    expect(result.successful).toBe(4); // The message in flight when aborting still completes
+    expect(result.skipped).toBe(6);
+  });
+
+  test('should reuse one SMTP transport and verify it once', async () => {
+    const transport = {
+      verify: jest.fn().mockResolvedValue(true),
+      sendMail: jest.fn().mockResolvedValue({ messageId: 'smtp-id' }),
+      close: jest.fn()
+    };
+    const createTransport = jest.spyOn(nodemailer, 'createTransport').mockReturnValue(transport as never);
+    const sender = new EmailSender({
+      smtp: { host: 'smtp.example.com', port: 587, secure: false, pool: true },
+      autoDetectFromEnv: false
+    });
+
+    const result = await sender.sendBulk(messages(4));
+    await sender.close();
+
+    expect(result.successful).toBe(4);
+    expect(createTransport).toHaveBeenCalledTimes(1);
+    expect(transport.verify).toHaveBeenCalledTimes(1);
+    expect(transport.sendMail).toHaveBeenCalledTimes(4);
+    expect(transport.close).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { signDkim, verifyDkimSignature, EmailSender } from '../src/index';
+
+const rsaKeys = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ed25519Keys = crypto.generateKeyPairSync('ed25519');
+
+const message = [
+  'From: Sender <sender@example.com>',
+  'To: recipient@example.org',
+  'Subject: Quarterly   report',
+  '  for Q3',
+  'Date: Mon, 19 Oct 2026 10:00:00 +0000',
+  'Message-ID: <abc@example.com>',
+  'X-Unsigned: anything',
+  '',
+  'Hello  world  ',
+  '',
+  '',
+  ''
+].join('\r\n');
+
+const signingOptions = {
+  domain: 'example.com',
+  selector: 'mail',
+  privateKey: rsaKeys.privateKey.export({ format: 'pem', type: 'pkcs8' }),
+  timestamp: new Date('2026-10-19T10:00:00Z')
+};
+
+describe('signDkim', () => {
+  test('should prepend a DKIM-Signature covering the present headers', () => {
+    const signed = signDkim(message, signingOptions).toString();
+
+    expect(signed.startsWith('DKIM-Signature: v=1;')).toBe(true);
+    expect(signed).toContain('a=rsa-sha256');
+    expect(signed).toContain('c=relaxed/relaxed');
+    expect(signed).toContain('d=example.com');
+    expect(signed).toContain('s=mail');
+    expect(signed).toContain(`t=${Date.parse('2026-10-19T10:00:00Z') / 1000}`);
+    expect(signed).toContain('h=from:subject:date:message-id:to;');
+    expect(signed.endsWith(message)).toBe(true);
+  });
+
+  test('should produce signatures that verify for every canonicalization', () => {
+    for (const canonicalization of ['simple/simple', 'simple/relaxed', 'relaxed/simple', 'relaxed/relaxed'] as const) {
+      const signed = signDkim(message, { ...signingOptions, canonicalization });
+      const result = verifyDkimSignature(signed, rsaKeys.publicKey);
+
+      expect(result).toEqual({ valid: true, domain: 'example.com', selector: 'mail', algorithm: 'rsa-sha256', bodyHashMatches: true });
+    }
+  });
+
+  test('should sign with Ed25519 keys', () => {
+    const signed = signDkim(message, { ...signingOptions, privateKey: ed25519Keys.privateKey });
+
+    expect(signed.toString()).toContain('a=ed25519-sha256');
+    expect(verifyDkimSignature(signed, ed25519Keys.publicKey).valid).toBe(true);
+  });
+
+  test('should only sign the configured headers', () => {
+    const signed = signDkim(message, { ...signingOptions, headers: ['From', 'Subject', 'X-Missing'] });
+
+    expect(signed.toString()).toContain('h=from:subject;');
+    expect(verifyDkimSignature(signed, rsaKeys.publicKey).valid).toBe(true);
+  });
+
+  test('should sign the wire bytes of headers with raw 8-bit characters', () => {
+    const raw = Buffer.concat([Buffer.from('From: sender@example.com\r\nSubject: Caf'), Buffer.from([0xe9]), Buffer.from('\r\n\r\nHi\r\n')]);
+    const signed = signDkim(raw, { ...signingOptions, headers: ['From', 'Subject'] });
+
+    // Recompute the relaxed header data from the bytes on the wire, independently of the signer
+    const [signatureHeader] = signed.toString('latin1').split('\r\nFrom:');
+    const signatureValue = signatureHeader.replace(/\r\n\t/g, ' ').slice('DKIM-Signature:'.length).trim();
+    const data = Buffer.concat([
+      Buffer.from('from:sender@example.com\r\nsubject:Caf'),
+      Buffer.from([0xe9]),
+      Buffer.from(`\r\ndkim-signature:${signatureValue.replace(/b=[\w+/=\s]+$/, 'b=')}`)
+    ]);
+    const signature = Buffer.from(signatureValue.match(/b=([\w+/=\s]+)$/)![1].replace(/\s/g, ''), 'base64');
+
+    expect(crypto.verify('sha256', data, rsaKeys.publicKey, signature)).toBe(true);
+    expect(verifyDkimSignature(signed, rsaKeys.publicKey).valid).toBe(true);
+  });
+});
+
+describe('verifyDkimSignature', () => {
+  test('should tolerate whitespace changes under relaxed canonicalization', () => {
+    const signed = signDkim(message, signingOptions).toString()
+      .replace('Subject: Quarterly   report', 'subject:Quarterly report')
+      .replace('Hello  world  ', 'Hello world');
+
+    expect(verifyDkimSignature(signed, rsaKeys.publicKey).valid).toBe(true);
+  });
+
+  test('should detect a modified body', () => {
+    const signed = signDkim(message, signingOptions).toString().replace('Hello', 'Goodbye');
+    const result = verifyDkimSignature(signed, rsaKeys.publicKey);
+
+    expect(result.valid).toBe(false);
+    expect(result.bodyHashMatches).toBe(false);
+    expect(result.error).toBe('Body hash does not match');
+  });
+
+  test('should detect a modified signed header but ignore unsigned ones', () => {
+    const signed = signDkim(message, signingOptions).toString();
+
+    expect(verifyDkimSignature(signed.replace('X-Unsigned: anything', 'X-Unsigned: changed'), rsaKeys.publicKey).valid).toBe(true);
+
+    const tampered = verifyDkimSignature(signed.replace('To: recipient@example.org', 'To: attacker@example.net'), rsaKeys.publicKey);
+    expect(tampered.valid).toBe(false);
+    expect(tampered.error).toBe('Signature does not match');
+  });
+
+  test('should reject the wrong key', () => {
+    const signed = signDkim(message, signingOptions);
+
+    expect(verifyDkimSignature(signed, crypto.generateKeyPairSync('rsa', { modulusLength: 1024 }).publicKey).valid).toBe(false);
+    expect(verifyDkimSignature(signed, ed25519Keys.publicKey).error).toBe('Key does not match algorithm rsa-sha256');
+    expect(verifyDkimSignature(message, rsaKeys.publicKey).error).toBe('Message has no DKIM-Signature header');
+  });
+});
+
+describe('EmailSender DKIM signing', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should send a signed raw message over SMTP', async () => {
+    const sendMail = jest.fn().mockResolvedValue({ messageId: 'relay-id' });
+    jest.spyOn(nodemailer, 'createTransport').mockReturnValue({ verify: jest.fn().mockResolvedValue(true), sendMail } as never);
+
+    const sender = new EmailSender({
+      smtp: { host: 'smtp.example.com', port: 587, secure: false },
+      defaultFrom: 'sender@example.com',
+      autoDetectFromEnv: false,
+      dkim: signingOptions
+    });
+
+    const result = await sender.sendWithSmtp({
+      to: 'recipient@example.org',
+      bcc: 'hidden@example.org',
+      subject: 'Signed',
+      text: 'Signed body',
+      html: '<p>Signed body</p>'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.messageId).toMatch(/^<.+@example\.com>$/);
+    expect(sender.getConfigStatus().hasDkim).toBe(true);
+
+    const { envelope, raw } = sendMail.mock.calls[0][0];
+    expect(envelope).toEqual({ from: 'sender@example.com', to: ['recipient@example.org', 'hidden@example.org'] });
+    expect(raw.toString()).not.toContain('hidden@example.org');
+    expect(verifyDkimSignature(raw, rsaKeys.publicKey).valid).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { parseDkimRecord, getDkimKeyBits, discoverDkimSelectors, FakeDnsResolver, EmailDeliverabilityTester } from '../src/index';
+
+const rsaPublicKey = (modulusLength: number, type: 'spki' | 'pkcs1' = 'spki'): string => {
+  const { publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength });
+  return publicKey.export({ format: 'der', type }).toString('base64');
+};
+
+const ed25519PublicKey = (): string => {
+  const { publicKey } = crypto.generateKeyPairSync('ed25519');
+  // The DNS record carries the raw 32-byte key, which is the tail of the SPKI encoding
+  return publicKey.export({ format: 'der', type: 'spki' }).subarray(-32).toString('base64');
+};
+
+describe('parseDkimRecord', () => {
+  test('should parse tags and apply defaults', () => {
+    const { record, errors } = parseDkimRecord('v=DKIM1; t=y:s; p=MIIBIjAN BgkqhkiG');
+
+    expect(errors).toEqual([]);
+    expect(record).toEqual({
+      version: 'DKIM1',
+      keyType: 'rsa',
+      publicKey: 'MIIBIjANBgkqhkiG',
+      hashAlgorithms: undefined,
+      serviceTypes: ['*'],
+      flags: ['y', 's'],
+      notes: undefined
+    });
+  });
+
+  test('should report structural errors', () => {
+    expect(parseDkimRecord('v=DKIM1; k=rsa').errors).toContain('Missing required p= tag');
+    expect(parseDkimRecord('v=DKIM2; p=abc').errors).toContain('Unsupported version "DKIM2"');
+    expect(parseDkimRecord('k=rsa; v=DKIM1; p=abc').errors).toContain('v= must be the first tag');
+  });
+});
+
+describe('getDkimKeyBits', () => {
+  test('should measure RSA keys in SPKI and PKCS#1 form', () => {
+    expect(getDkimKeyBits('rsa', rsaPublicKey(1024))).toBe(1024);
+    expect(getDkimKeyBits('rsa', rsaPublicKey(2048, 'pkcs1'))).toBe(2048);
+  });
+
+  test('should accept Ed25519 keys', () => {
+    expect(getDkimKeyBits('ed25519', ed25519PublicKey())).toBe(256);
+  });
+
+  test('should reject garbage', () => {
+    expect(() => getDkimKeyBits('rsa', 'AAAA')).toThrow();
+  });
+});
+
+describe('discoverDkimSelectors', () => {
+  const dnsResolver = new FakeDnsResolver({
+    'google._domainkey.example.com': { txt: [[`v=DKIM1; k=rsa; p=${rsaPublicKey(2048)}`]] },
+    'old._domainkey.example.com': { txt: [['v=DKIM1; k=rsa; p=']] },
+    'weak._domainkey.example.com': { txt: [[`v=DKIM1; p=${rsaPublicKey(512)}`]] },
+    'abc123._domainkey.example.com': {
+      txt: [[`p=${rsaPublicKey(1024)}`]],
+      cname: ['abc123.dkim.amazonses.com']
+    }
+  });
+
+  test('should probe common and configured selectors', async () => {
+    const result = await discoverDkimSelectors(dnsResolver, 'example.com', ['old', 'weak', 'abc123']);
+
+    expect(result.probedSelectors).toEqual(expect.arrayContaining(['old', 'weak', 'abc123', 'default', 'google', 'selector1']));
+    expect(result.selectors.map(key => key.selector)).toEqual(['old', 'weak', 'abc123', 'google']);
+
+    const [old, weak, ses, google] = result.selectors;
+    expect(old.revoked).toBe(true);
+    expect(weak).toMatchObject({ keyType: 'rsa', keyBits: 512, weak: true });
+    expect(ses).toMatchObject({ keyBits: 1024, weak: false, cname: 'abc123.dkim.amazonses.com' });
+    expect(google).toMatchObject({ keyType: 'rsa', keyBits: 2048, weak: false, revoked: false });
+  });
+
+  test('should only probe configured selectors when common probing is disabled', async () => {
+    const result = await discoverDkimSelectors(dnsResolver, 'example.com', ['weak'], false);
+
+    expect(result.probedSelectors).toEqual(['weak']);
+  });
+});
+
+describe('EmailDeliverabilityTester DKIM checks', () => {
+  test('should flag revoked and weak keys in recommendations', async () => {
+    const dnsResolver = new FakeDnsResolver({
+      'example.com': { mx: [{ exchange: 'mx.example.com', priority: 10 }] },
+      'old._domainkey.example.com': { txt: [['v=DKIM1; p=']] },
+      'weak._domainkey.example.com': { txt: [[`v=DKIM1; p=${rsaPublicKey(512)}`]] }
+    });
+    const tester = new EmailDeliverabilityTester(undefined, undefined, { dnsResolver, dkimSelectors: ['old'] });
+
+    const result = await tester.testEmailDeliverability({
+      email: 'user@example.com',
+      skipActualDelivery: true,
+      dkimSelectors: ['weak']
+    });
+
+    expect(result.dkim?.selectors).toHaveLength(2);
+    expect(result.recommendations).toContain('DKIM key for selector "old" is revoked (empty p=). Messages signed with it will fail DKIM.');
+    expect(result.recommendations).toContain('DKIM key for selector "weak" is only 512 bits. Rotate to a 2048-bit RSA key.');
+  });
+
+  test('should recommend configuring a selector when no key is found', async () => {
+    const dnsResolver = new FakeDnsResolver({ 'example.com': { mx: [{ exchange: 'mx.example.com', priority: 10 }] } });
+    const tester = new EmailDeliverabilityTester(undefined, undefined, { dnsResolver });
+
+    const result = await tester.testEmailDeliverability({ email: 'user@example.com', skipActualDelivery: true });
+
+    expect(result.dkim?.selectors).toEqual([]);
+    expect(result.recommendations.some(rec => rec.startsWith('No DKIM key found'))).toBe(true);
+  });
+});
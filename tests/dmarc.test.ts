@@ -0,0 +1,170 @@
+import { parseDmarcRecord, lookupDmarc, getOrganizationalDomain, FakeDnsResolver, EmailDeliverabilityTester } from '../src/index';
+
+describe('parseDmarcRecord', () => {
+  test('should parse all tags', () => {
+    const { record, errors } = parseDmarcRecord(
+      'v=DMARC1; p=quarantine; sp=reject; pct=50; adkim=s; aspf=r; rua=mailto:agg@example.com,mailto:b@example.com!10m; ruf=mailto:forensic@example.com; fo=1:d'
+    );
+
+    expect(errors).toEqual([]);
+    expect(record).toEqual({
+      p: 'quarantine',
+      sp: 'reject',
+      pct: 50,
+      adkim: 's',
+      aspf: 'r',
+      rua: ['mailto:agg@example.com', 'mailto:b@example.com!10m'],
+      ruf: ['mailto:forensic@example.com'],
+      fo: ['1', 'd'],
+      ri: 86400
+    });
+  });
+
+  test('should apply defaults', () => {
+    const { record } = parseDmarcRecord('v=DMARC1; p=none');
+
+    expect(record).toMatchObject({ p: 'none', pct: 100, adkim: 'r', aspf: 'r', rua: [], fo: ['0'] });
+  });
+
+  test('should report malformed tags and keep defaults', () => {
+    const { record, errors } = parseDmarcRecord('v=DMARC1; p=reject; pct=150; adkim=x; fo=2; rua=agg@example.com');
+
+    expect(record?.p).toBe('reject');
+    expect(record?.pct).toBe(100);
+    expect(errors).toEqual([
+      'Invalid rua URI: agg@example.com',
+      'Invalid pct value "150" (expected 0-100)',
+      'Invalid fo value "2" (expected 0, 1, d or s separated by colons)',
+      'Invalid adkim value "x" (expected r or s)'
+    ]);
+  });
+
+  test('should warn about report URIs that are not mailto: without counting them as errors', () => {
+    const { record, errors, warnings } = parseDmarcRecord('v=DMARC1; p=reject; rua=https://reports.example.com/dmarc');
+
+    expect(record?.rua).toEqual(['https://reports.example.com/dmarc']);
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual(['rua URI https://reports.example.com/dmarc is not a mailto: address; most receivers only send reports by email']);
+  });
+
+  test('should treat a missing policy with a valid rua as p=none', () => {
+    const { record, errors } = parseDmarcRecord('v=DMARC1; rua=mailto:agg@example.com');
+
+    expect(record?.p).toBe('none');
+    expect(errors).toContain('Missing required p= tag');
+  });
+
+  test('should drop records without v=DMARC1 first or without a usable policy', () => {
+    expect(parseDmarcRecord('p=reject; v=DMARC1').errors).toContain('Record must start with v=DMARC1');
+    expect(parseDmarcRecord('v=DMARC1; p=block').record).toBeUndefined();
+  });
+});
+
+describe('getOrganizationalDomain', () => {
+  test('should strip subdomains down to the registrable domain', () => {
+    expect(getOrganizationalDomain('mail.example.com')).toBe('example.com');
+    expect(getOrganizationalDomain('a.b.example.co.uk')).toBe('example.co.uk');
+    expect(getOrganizationalDomain('example.com')).toBe('example.com');
+  });
+});
+
+describe('lookupDmarc', () => {
+  const dnsResolver = new FakeDnsResolver({
+    '_dmarc.example.com': { txt: [['v=DMARC1; p=reject; sp=quarantine; rua=mailto:dmarc@example.com']] },
+    '_dmarc.own.example.com': { txt: [['v=DMARC1; p=none']] },
+    '_dmarc.double.test': { txt: [['v=DMARC1; p=none'], ['v=DMARC1; p=reject']] },
+    '_dmarc.flaky.test': { error: 'ETIMEOUT' }
+  });
+
+  test('should prefer a record on the domain itself', async () => {
+    const result = await lookupDmarc(dnsResolver, 'own.example.com');
+
+    expect(result.source).toBe('domain');
+    expect(result.effectivePolicy).toBe('none');
+    expect(result.strength).toBe('monitor');
+  });
+
+  test('should fall back to the organizational domain and apply sp', async () => {
+    const result = await lookupDmarc(dnsResolver, 'news.example.com');
+
+    expect(result.source).toBe('organizational');
+    expect(result.recordDomain).toBe('example.com');
+    expect(result.effectivePolicy).toBe('quarantine');
+    expect(result.strength).toBe('quarantine');
+  });
+
+  test('should ignore multiple records', async () => {
+    const result = await lookupDmarc(dnsResolver, 'double.test');
+
+    expect(result.record).toBeUndefined();
+    expect(result.strength).toBe('invalid');
+  });
+
+  test('should not fall back on transient failures', async () => {
+    const result = await lookupDmarc(dnsResolver, 'flaky.test');
+
+    expect(result.dnsStatus).toBe('timeout');
+    expect(result.strength).toBe('missing');
+  });
+});
+
+describe('EmailDeliverabilityTester DMARC grading', () => {
+  const testDomain = async (record: string) => {
+    const dnsResolver = new FakeDnsResolver({
+      'example.com': { mx: [{ exchange: 'mx.example.com', priority: 10 }] },
+      '_dmarc.example.com': { txt: [[record]] }
+    });
+    const tester = new EmailDeliverabilityTester(undefined, undefined, { dnsResolver });
+    return tester.testEmailDeliverability({ email: 'user@example.com', skipActualDelivery: true });
+  };
+
+  test('should flag p=none without reporting', async () => {
+    const result = await testDomain('v=DMARC1; p=none');
+
+    expect(result.dmarc?.strength).toBe('monitor');
+    expect(result.recommendations.some(rec => rec.includes('no reports are being collected'))).toBe(true);
+  });
+
+  test('should flag partial enforcement', async () => {
+    const result = await testDomain('v=DMARC1; p=reject; pct=25; rua=mailto:dmarc@example.com');
+
+    expect(result.dmarc?.strength).toBe('partial');
+    expect(result.recommendations.some(rec => rec.includes('pct=25'))).toBe(true);
+  });
+
+  test('should report non-mailto report URIs as a note rather than a problem', async () => {
+    const result = await testDomain('v=DMARC1; p=reject; rua=https://reports.example.com/dmarc');
+
+    expect(result.dmarc?.strength).toBe('reject');
+    expect(result.recommendations.some(rec => rec.includes('has problems'))).toBe(false);
+    expect(result.recommendations.some(rec => rec.includes('is not a mailto: address'))).toBe(true);
+  });
+
+  test('should grade the subdomain policy for mail from a subdomain', async () => {
+    const dnsResolver = new FakeDnsResolver({
+      'mail.example.com': { mx: [{ exchange: 'mx.example.com', priority: 10 }] },
+      '_dmarc.example.com': { txt: [['v=DMARC1; p=reject; sp=none; rua=mailto:dmarc@example.com']] }
+    });
+    const tester = new EmailDeliverabilityTester(undefined, undefined, { dnsResolver });
+
+    const result = await tester.testEmailDeliverability({ email: 'user@mail.example.com', skipActualDelivery: true });
+
+    expect(result.dmarc?.effectivePolicy).toBe('none');
+    expect(result.recommendations).toContain('DMARC policy is sp=none (monitoring only). Move to sp=quarantine or sp=reject once aggregate reports look clean.');
+    expect(result.recommendations.some(rec => rec.includes('exempts subdomains'))).toBe(false);
+  });
+
+  test('should report multiple records without claiming none exist', async () => {
+    const dnsResolver = new FakeDnsResolver({
+      'example.com': { mx: [{ exchange: 'mx.example.com', priority: 10 }] },
+      '_dmarc.example.com': { txt: [['v=DMARC1; p=reject'], ['v=DMARC1; p=none']] }
+    });
+    const tester = new EmailDeliverabilityTester(undefined, undefined, { dnsResolver });
+
+    const result = await tester.testEmailDeliverability({ email: 'user@example.com', skipActualDelivery: true });
+
+    expect(result.recommendations.filter(rec => rec.includes('DMARC'))).toEqual([
+      'DMARC record at _dmarc.example.com has problems: _dmarc.example.com publishes 2 DMARC records; receivers will ignore them all.'
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import dns from 'dns';
+import { DefaultDnsResolver, FakeDnsResolver, createDnsError, classifyDnsError } from '../src/index';
+
+describe('FakeDnsResolver', () => {
+  const resolver = new FakeDnsResolver({
+    'example.com': {
+      mx: [{ exchange: 'mx.example.com', priority: 10 }],
+      txt: [['v=spf1 -all']]
+    },
+    'flaky.example': { error: 'ETIMEOUT' }
+  });
+
+  test('should serve canned records', async () => {
+    await expect(resolver.resolveMx('EXAMPLE.com')).resolves.toEqual([{ exchange: 'mx.example.com', priority: 10 }]);
+    await expect(resolver.resolveTxt('example.com')).resolves.toEqual([['v=spf1 -all']]);
+  });
+
+  test('should reject with Node-style error codes', async () => {
+    await expect(resolver.resolveMx('unknown.example')).rejects.toMatchObject({ code: 'ENOTFOUND' });
+    await expect(resolver.resolve4('example.com')).rejects.toMatchObject({ code: 'ENODATA' });
+    await expect(resolver.resolveTxt('flaky.example')).rejects.toMatchObject({ code: 'ETIMEOUT' });
+  });
+
+  test('should record queries', () => {
+    expect(resolver.queries).toContainEqual({ type: 'MX', hostname: 'unknown.example' });
+  });
+});
+
+describe('DefaultDnsResolver', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should cache answers', async () => {
+    const spy = jest.spyOn(dns.promises.Resolver.prototype, 'resolveMx')
+      .mockResolvedValue([{ exchange: 'mx.example.com', priority: 10 }]);
+    const resolver = new DefaultDnsResolver();
+
+    await resolver.resolveMx('example.com');
+    await resolver.resolveMx('Example.com');
+
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should coalesce concurrent lookups of the same name', async () => {
+    const spy = jest.spyOn(dns.promises.Resolver.prototype, 'resolveTxt').mockResolvedValue([['hello']]);
+    const resolver = new DefaultDnsResolver({ cache: false });
+
+    await Promise.all([resolver.resolveTxt('example.com'), resolver.resolveTxt('example.com')]);
+
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should respect record TTLs', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const spy = jest.spyOn(dns.promises.Resolver.prototype, 'resolve4')
+      .mockResolvedValue([{ address: '192.0.2.1', ttl: 30 }] as never);
+    const resolver = new DefaultDnsResolver();
+
+    await expect(resolver.resolve4('example.com')).resolves.toEqual(['192.0.2.1']);
+    now.mockReturnValue(29_000);
+    await resolver.resolve4('example.com');
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(31_000);
+    await resolver.resolve4('example.com');
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  test('should cache NXDOMAIN but not timeouts', async () => {
+    const spy = jest.spyOn(dns.promises.Resolver.prototype, 'resolveMx')
+      .mockRejectedValueOnce(createDnsError('ENOTFOUND', 'queryMx', 'missing.example'))
+      .mockRejectedValue(createDnsError('ETIMEOUT', 'queryMx', 'slow.example'));
+    const resolver = new DefaultDnsResolver();
+
+    await expect(resolver.resolveMx('missing.example')).rejects.toMatchObject({ code: 'ENOTFOUND' });
+    await expect(resolver.resolveMx('missing.example')).rejects.toMatchObject({ code: 'ENOTFOUND' });
+    await expect(resolver.resolveMx('slow.example')).rejects.toMatchObject({ code: 'ETIMEOUT' });
+    await expect(resolver.resolveMx('slow.example')).rejects.toMatchObject({ code: 'ETIMEOUT' });
+
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('classifyDnsError', () => {
+  test('should map resolver error codes to DNS statuses', () => {
+    expect(classifyDnsError(createDnsError('ENOTFOUND', 'queryMx', 'a'))).toBe('nxdomain');
+    expect(classifyDnsError(createDnsError('ENODATA', 'queryMx', 'a'))).toBe('nodata');
+    expect(classifyDnsError(createDnsError('ETIMEOUT', 'queryMx', 'a'))).toBe('timeout');
+    expect(classifyDnsError(createDnsError('EREFUSED', 'queryMx', 'a'))).toBe('refused');
+    expect(classifyDnsError(createDnsError('ESERVFAIL', 'queryMx', 'a'))).toBe('servfail');
+    expect(classifyDnsError(new Error('unexpected'))).toBe('servfail');
+  });
+});
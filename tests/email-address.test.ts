@@ -0,0 +1,124 @@
+import { parseEmailAddress, isValidEmailAddress, toAsciiEmailAddress } from '../src/index';
+
+describe('parseEmailAddress', () => {
+  describe('Valid addresses', () => {
+    test('should accept dot-atom local parts', () => {
+      const result = parseEmailAddress("o'brien+tag.x@mail.example.com");
+
+      expect(result.valid).toBe(true);
+      expect(result.localPart).toBe("o'brien+tag.x");
+      expect(result.domain).toBe('mail.example.com');
+      expect(result.issues).toEqual([]);
+    });
+
+    test('should accept quoted local parts with spaces, @ and escapes', () => {
+      const result = parseEmailAddress('"john @ \\"doe\\""@example.com');
+
+      expect(result.valid).toBe(true);
+      expect(result.isQuotedLocalPart).toBe(true);
+      expect(result.domain).toBe('example.com');
+    });
+
+    test('should accept IPv4 and IPv6 domain literals', () => {
+      const ipv4 = parseEmailAddress('user@[192.0.2.1]');
+      const ipv6 = parseEmailAddress('user@[IPv6:2001:db8::1]');
+
+      expect(ipv4.valid).toBe(true);
+      expect(ipv4.isDomainLiteral).toBe(true);
+      expect(ipv6.valid).toBe(true);
+      expect(ipv6.isDomainLiteral).toBe(true);
+    });
+
+    test('should accept a local part of exactly 64 characters', () => {
+      expect(isValidEmailAddress(`${'a'.repeat(64)}@example.com`)).toBe(true);
+    });
+  });
+
+  describe('Invalid addresses', () => {
+    test('should report dot placement in the local part', () => {
+      expect(parseEmailAddress('test..test@example.com').issues)
+        .toContain('Local part must not contain consecutive dots');
+      expect(parseEmailAddress('.test@example.com').issues)
+        .toContain('Local part must not start with a dot');
+      expect(parseEmailAddress('test.@example.com').issues)
+        .toContain('Local part must not end with a dot');
+    });
+
+    test('should report invalid characters in an unquoted local part', () => {
+      const result = parseEmailAddress('john doe@example.com');
+
+      expect(result.valid).toBe(false);
+      expect(result.issues[0]).toContain('space');
+    });
+
+    test('should enforce RFC 5321 length limits', () => {
+      expect(parseEmailAddress(`${'a'.repeat(65)}@example.com`).issues)
+        .toContain('Local part exceeds 64 characters');
+      expect(parseEmailAddress(`user@${'a'.repeat(64)}.com`).issues)
+        .toContain(`Domain label "${'a'.repeat(64)}" exceeds 63 characters`);
+
+      const longDomain = `${Array(5).fill('a'.repeat(60)).join('.')}.com`;
+      const result = parseEmailAddress(`user@${longDomain}`);
+      expect(result.issues).toContain('Email address exceeds 254 characters');
+      expect(result.issues).toContain('Domain exceeds 255 characters');
+    });
+
+    test('should report domain structure problems', () => {
+      expect(parseEmailAddress('user@example.com.').issues).toContain('Domain must not end with a dot');
+      expect(parseEmailAddress('user@example').issues).toContain('Domain must be fully qualified (e.g. example.com)');
+      expect(parseEmailAddress('user@-example.com').issues)
+        .toContain('Domain label "-example" must not start or end with a hyphen');
+      expect(parseEmailAddress('user@example.123').issues).toContain('Top-level domain must not be all-numeric');
+    });
+
+    test('should reject malformed domain literals', () => {
+      expect(parseEmailAddress('user@[IPv6:2001:db8::g]').valid).toBe(false);
+      expect(parseEmailAddress('user@[300.0.0.1]').valid).toBe(false);
+      expect(parseEmailAddress('user@[192.0.2.1').issues).toContain('Domain literal is not terminated with ]');
+    });
+
+    test('should report unterminated quoted local parts', () => {
+      expect(parseEmailAddress('"john@example.com').issues).toContain('Quoted local part is not terminated');
+    });
+
+    test('should report missing parts', () => {
+      expect(parseEmailAddress('').issues).toEqual(['Email address is empty']);
+      expect(parseEmailAddress('invalid-email').issues).toEqual(['Email address is missing the @ separator']);
+      expect(parseEmailAddress('@example.com').issues).toContain('Local part (before @) is empty');
+      expect(parseEmailAddress('test@').issues).toContain('Domain (after @) is empty');
+    });
+  });
+
+  describe('Internationalized addresses', () => {
+    test('should normalize IDN domains to punycode', () => {
+      const result = parseEmailAddress('info@bücher.de');
+
+      expect(result.valid).toBe(true);
+      expect(result.asciiDomain).toBe('xn--bcher-kva.de');
+      expect(result.unicodeDomain).toBe('bücher.de');
+      expect(result.requiresSmtpUtf8).toBe(false);
+    });
+
+    test('should flag non-ASCII local parts as requiring SMTPUTF8', () => {
+      const umlaut = parseEmailAddress('jörg@bücher.de');
+      const cjk = parseEmailAddress('用户@例子.广告');
+
+      expect(umlaut.valid).toBe(true);
+      expect(umlaut.requiresSmtpUtf8).toBe(true);
+      expect(cjk.valid).toBe(true);
+      expect(cjk.requiresSmtpUtf8).toBe(true);
+      expect(cjk.asciiDomain).toBe('xn--fsqu00a.xn--4rr70v');
+    });
+
+    test('should measure the local part length in octets', () => {
+      // 22 three-byte characters = 66 octets
+      expect(parseEmailAddress(`${'用'.repeat(22)}@example.com`).issues)
+        .toContain('Local part exceeds 64 characters');
+    });
+
+    test('should convert addresses to their ASCII-domain form', () => {
+      expect(toAsciiEmailAddress('info@bücher.de')).toBe('info@xn--bcher-kva.de');
+      expect(toAsciiEmailAddress('invalid-email')).toBe('invalid-email');
+    });
+  });
+});
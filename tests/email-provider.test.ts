@@ -0,0 +1,250 @@
+import crypto from 'crypto';
+import { SESClient, SendEmailCommand, SendRawEmailCommand } from '@aws-sdk/client-ses';
+import {
+  EmailSender,
+  EmailDeliverabilityTester,
+  FakeDnsResolver,
+  verifyDkimSignature,
+  type EmailProvider,
+  type ProviderMessage
+} from '../src/index';
+
+class FakeProvider implements EmailProvider {
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: true };
+  readonly messages: ProviderMessage[] = [];
+
+  constructor(readonly name: string, private failure?: string) {}
+
+  async send(message: ProviderMessage) {
+    this.messages.push(message);
+    if (this.failure) {
+      throw Object.assign(new Error(this.failure), { code: 'ECONNREFUSED' });
+    }
+    return { messageId: `${this.name}-${this.messages.length}` };
+  }
+
+  async verify() {
+    if (this.failure) {
+      throw new Error(this.failure);
+    }
+  }
+}
+
+const message = { to: 'recipient@example.org', bcc: 'hidden@example.org', subject: 'Hello', text: 'Hi' };
+
+describe('EmailSender providers', () => {
+  let consoleLog: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should register custom providers after the built-in ones', () => {
+    const sender = new EmailSender({
+      aws: { accessKeyId: 'key', secretAccessKey: 'secret' },
+      autoDetectFromEnv: false,
+      providers: [new FakeProvider('relay')]
+    });
+
+    expect(sender.getProviderNames()).toEqual(['aws-ses', 'relay']);
+    expect(sender.getConfigStatus()).toMatchObject({ hasAwsSes: true, hasSmtp: false, providers: ['aws-ses', 'relay'] });
+    expect(sender.getProvider('relay')?.capabilities.rawMime).toBe(true);
+
+    expect(sender.unregisterProvider('aws-ses')).toBe(true);
+    expect(sender.getConfigStatus().hasAwsSes).toBe(false);
+  });
+
+  test('should send through an explicitly requested provider', async () => {
+    const relay = new FakeProvider('relay');
+    const sender = new EmailSender({ defaultFrom: 'sender@example.com', autoDetectFromEnv: false, providers: [relay] });
+
+    const result = await sender.send(message, 'relay');
+
+    expect(result).toEqual({
+      success: true,
+      messageId: 'relay-1',
+      provider: 'relay',
+      attempts: [{ provider: 'relay', success: true, messageId: 'relay-1' }]
+    });
+    expect(relay.messages[0].options.from).toBe('sender@example.com');
+    expect(relay.messages[0].recipients).toEqual(['recipient@example.org', 'hidden@example.org']);
+    expect(relay.messages[0].signed).toBe(false);
+  });
+
+  test('should report unknown providers', async () => {
+    const sender = new EmailSender({ autoDetectFromEnv: false });
+
+    expect(await sender.send(message, 'relay')).toMatchObject({
+      success: false,
+      error: 'Provider "relay" is not registered.',
+      errorClass: 'permanent-config',
+      provider: 'relay'
+    });
+    expect((await sender.sendWithSes(message)).error).toBe('AWS SES not configured. Please provide AWS credentials.');
+    expect((await sender.send(message)).error).toBe('No email provider configured. Please configure AWS SES or SMTP.');
+  });
+
+  test('should fall back through providers in registration order', async () => {
+    const primary = new FakeProvider('primary', 'Connection refused');
+    const secondary = new FakeProvider('secondary');
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [primary, secondary] });
+
+    const result = await sender.send(message);
+
+    expect(result.provider).toBe('secondary');
+    expect(result.messageId).toBe('secondary-1');
+    expect(result.attempts).toEqual([
+      { provider: 'primary', success: false, error: 'Connection refused', errorClass: 'transient', action: 'failover' },
+      { provider: 'secondary', success: true, messageId: 'secondary-1' }
+    ]);
+    expect(primary.messages).toHaveLength(1);
+    expect(consoleLog).toHaveBeenCalledWith('📤 Trying primary');
+  });
+
+  test('should return the last failure when every provider fails', async () => {
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [new FakeProvider('primary', 'Connection refused'), new FakeProvider('secondary', 'Mailbox full')]
+    });
+
+    const result = await sender.send(message);
+
+    expect(result).toMatchObject({ success: false, error: 'Mailbox full', errorClass: 'transient', provider: 'secondary' });
+    expect(result.attempts?.map(attempt => attempt.provider)).toEqual(['primary', 'secondary']);
+  });
+
+  test('should hand DKIM-signed raw messages to providers', async () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    const relay = new FakeProvider('relay');
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      defaultFrom: 'sender@example.com',
+      providers: [relay],
+      dkim: { domain: 'example.com', selector: 'mail', privateKey }
+    });
+
+    await sender.send(message, 'relay');
+
+    expect(relay.messages[0].signed).toBe(true);
+    expect(verifyDkimSignature(relay.messages[0].buildRaw().raw, publicKey).valid).toBe(true);
+  });
+
+  test('should refuse DKIM signing through providers without raw MIME support', async () => {
+    const relay = new FakeProvider('relay');
+    Object.assign(relay.capabilities, { rawMime: false });
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [relay],
+      dkim: { domain: 'example.com', selector: 'mail', privateKey: crypto.generateKeyPairSync('ed25519').privateKey }
+    });
+
+    const result = await sender.send(message, 'relay');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('cannot send raw MIME');
+    expect(relay.messages).toHaveLength(0);
+  });
+
+  test('should pass tags to SES', async () => {
+    const send = jest.spyOn(SESClient.prototype, 'send').mockResolvedValue({ MessageId: 'ses-id' } as never);
+    const sender = new EmailSender({ aws: { accessKeyId: 'key', secretAccessKey: 'secret' }, autoDetectFromEnv: false });
+
+    await sender.sendWithSes({ ...message, tags: { campaign: 'spring' } });
+
+    const { input } = send.mock.calls[0][0] as SendEmailCommand;
+    expect(input.Tags).toEqual([{ Name: 'campaign', Value: 'spring' }]);
+    expect(input.Destination?.BccAddresses).toEqual(['hidden@example.org']);
+  });
+
+  test('should switch SES to raw MIME for custom headers and inline images', async () => {
+    const send = jest.spyOn(SESClient.prototype, 'send').mockResolvedValue({ MessageId: 'ses-id' } as never);
+    const sender = new EmailSender({ aws: { accessKeyId: 'key', secretAccessKey: 'secret' }, autoDetectFromEnv: false });
+
+    await sender.sendWithSes({ ...message, headers: { 'X-Campaign-Id': '42', References: '<a@example.org>' }, tags: { campaign: 'spring' } });
+    await sender.sendWithSes({ ...message, html: '<img src="cid:logo">', attachments: [{ filename: 'logo.png', content: 'png', cid: 'logo' }] });
+
+    const [withHeaders, withImage] = send.mock.calls.map(([command]) => (command as SendRawEmailCommand).input);
+    expect(withHeaders.RawMessage?.Data?.toString()).toContain('X-Campaign-Id: 42\r\nReferences: <a@example.org>');
+    expect(withHeaders.Destinations).toEqual(['recipient@example.org', 'hidden@example.org']);
+    expect(withHeaders.Tags).toEqual([{ Name: 'campaign', Value: 'spring' }]);
+    expect(withImage.RawMessage?.Data?.toString()).toContain('Content-ID: <logo>');
+  });
+
+  test('should report the send path and dropped fields of each provider', () => {
+    const sender = new EmailSender({
+      aws: { accessKeyId: 'key', secretAccessKey: 'secret' },
+      smtp: { host: 'smtp.example.com', port: 587, secure: false },
+      autoDetectFromEnv: false,
+      providers: [Object.assign(new FakeProvider('relay'), { capabilities: { attachments: false, rawMime: false, customHeaders: false, tags: false, smtpUtf8: false } })]
+    });
+
+    const simple = sender.getCapabilityReport({ ...message, tags: { campaign: 'spring' } });
+    const full = sender.getCapabilityReport({ ...message, headers: { 'X-Campaign-Id': '42' }, attachments: [{ filename: 'a.txt', content: 'a' }] });
+
+    expect(simple.map(({ provider, path, dropped }) => ({ provider, path, dropped }))).toEqual([
+      { provider: 'aws-ses', path: 'SendEmail', dropped: [] },
+      { provider: 'smtp', path: 'sendMail', dropped: ['tags'] },
+      { provider: 'relay', path: 'send', dropped: ['tags'] }
+    ]);
+    expect(full.map(({ provider, path, dropped }) => ({ provider, path, dropped }))).toEqual([
+      { provider: 'aws-ses', path: 'SendRawEmail', dropped: [] },
+      { provider: 'smtp', path: 'sendMail', dropped: [] },
+      { provider: 'relay', path: 'send', dropped: ['attachments', 'headers'] }
+    ]);
+    expect(simple[0].preserves).not.toContain('headers');
+  });
+
+  test('should test the connection of every provider', async () => {
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [new FakeProvider('healthy'), new FakeProvider('down', 'Connection refused')]
+    });
+
+    expect(await sender.testConnection()).toEqual({
+      aws: { configured: false },
+      smtp: { configured: false },
+      providers: {
+        healthy: { configured: true, connected: true },
+        down: { configured: true, connected: false, error: 'Connection refused' }
+      }
+    });
+  });
+});
+
+describe('EmailDeliverabilityTester providers', () => {
+  const dnsResolver = new FakeDnsResolver({
+    'example.com': { mx: [{ exchange: 'mx.example.com', priority: 10 }] }
+  });
+
+  test('should key delivery results by provider name', async () => {
+    const relay = new FakeProvider('relay');
+    const tester = new EmailDeliverabilityTester(undefined, 'sender@example.com', { dnsResolver, providers: [relay] });
+
+    const result = await tester.testEmailDeliverability({
+      email: 'test@example.com',
+      provider: ['relay', 'aws-ses'],
+      spfSource: { ip: '192.0.2.1', domain: 'example.com' }
+    });
+
+    expect(result.deliverabilityTests).toEqual({
+      relay: { success: true, messageId: 'relay-1' },
+      'aws-ses': { success: false, error: 'AWS SES not configured' }
+    });
+    expect(relay.messages[0].options).toMatchObject({ from: 'sender@example.com', to: 'test@example.com' });
+    expect(result.recommendations).toContain('AWS SES delivery failed: AWS SES not configured');
+  });
+
+  test('should test every registered provider with "all"', async () => {
+    const tester = new EmailDeliverabilityTester(undefined, undefined, { dnsResolver });
+    tester.registerProvider(new FakeProvider('relay', 'Relay offline'));
+
+    const result = await tester.testEmailDeliverability({ email: 'test@example.com', provider: 'all', skipActualDelivery: true });
+
+    expect(Object.keys(result.deliverabilityTests)).toEqual(['aws-ses', 'smtp', 'relay']);
+    expect(result.deliverabilityTests.relay).toEqual({ success: true, messageId: 'skipped-test-mode' });
+  });
+});
@@ -0,0 +1,181 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { EmailQueue, EmailSender, type Clock, type EmailProvider, type ProviderMessage } from '../src/index';
+
+class FakeClock implements Clock {
+  time = 1000;
+
+  now() {
+    return this.time;
+  }
+
+  async sleep(ms: number) {
+    this.time += ms;
+  }
+}
+
+class ScriptedProvider implements EmailProvider {
+  readonly name = 'relay';
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false };
+  readonly messages: ProviderMessage[] = [];
+
+  constructor(private outcomes: Array<Error | string> = ['relay-id']) {}
+
+  async send(message: ProviderMessage) {
+    const outcome = this.outcomes[Math.min(this.messages.length, this.outcomes.length - 1)];
+    this.messages.push(message);
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    return { messageId: outcome };
+  }
+
+  async verify() {}
+}
+
+const message = { to: 'recipient@example.org', subject: 'Hello', text: 'Hi' };
+const transient = () => Object.assign(new Error('Connection refused'), { code: 'ECONNREFUSED' });
+const permanent = () => Object.assign(new Error('550 5.1.1 User unknown'), { responseCode: 550 });
+
+describe('EmailQueue', () => {
+  let directory: string;
+  let queuePath: string;
+  let clock: FakeClock;
+
+  const createQueue = (provider: EmailProvider, maxAttempts = 3) => new EmailQueue(
+    new EmailSender({ autoDetectFromEnv: false, providers: [provider] }),
+    { path: queuePath, clock, retry: { maxAttempts, baseDelayMs: 1000, jitter: false } }
+  );
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'email-queue-'));
+    queuePath = path.join(directory, 'queue', 'outbound.jsonl');
+    clock = new FakeClock();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should persist enqueued messages across instances', async () => {
+    const { id } = await createQueue(new ScriptedProvider()).enqueue(message, { provider: 'relay' });
+
+    const reopened = createQueue(new ScriptedProvider());
+
+    expect(await reopened.get(id)).toMatchObject({ state: 'pending', options: message, provider: 'relay', attempts: 0, maxAttempts: 3 });
+    expect(await reopened.getCounts()).toEqual({ pending: 1, sending: 0, sent: 0, failed: 0, dead: 0 });
+  });
+
+  test('should drain due messages and record the outcome', async () => {
+    const provider = new ScriptedProvider();
+    const queue = createQueue(provider);
+    const { id } = await queue.enqueue(message);
+    await queue.enqueue(message, { sendAt: clock.time + 5000 });
+
+    expect(await queue.drain()).toEqual({ sent: 1, failed: 0, dead: 0 });
+    expect(await queue.get(id)).toMatchObject({ state: 'sent', attempts: 1, messageId: 'relay-id' });
+    expect(provider.messages).toHaveLength(1);
+
+    const lines = (await fs.readFile(queuePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.filter(record => record.id === id).map(record => record.state)).toEqual(['pending', 'sending', 'sent']);
+  });
+
+  test('should retry transient failures with backoff until attempts run out', async () => {
+    const queue = createQueue(new ScriptedProvider([transient()]), 2);
+    const { id } = await queue.enqueue(message);
+
+    expect(await queue.drain()).toEqual({ sent: 0, failed: 1, dead: 0 });
+    expect(await queue.get(id)).toMatchObject({ state: 'failed', attempts: 1, lastError: 'Connection refused', errorClass: 'transient', nextAttemptAt: 2000 });
+
+    expect(await queue.drain()).toEqual({ sent: 0, failed: 0, dead: 0 });
+
+    clock.time = 2000;
+    expect(await queue.drain()).toEqual({ sent: 0, failed: 0, dead: 1 });
+    expect((await queue.get(id))?.state).toBe('dead');
+  });
+
+  test('should retry until the message is sent', async () => {
+    const queue = createQueue(new ScriptedProvider([transient(), 'relay-id']));
+    const { id } = await queue.enqueue(message);
+
+    await queue.drain();
+    clock.time += 1000;
+    await queue.drain();
+
+    expect(await queue.get(id)).toMatchObject({ state: 'sent', attempts: 2, messageId: 'relay-id', lastError: undefined });
+  });
+
+  test('should retry failures reported before any attempt and thrown errors', async () => {
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [new ScriptedProvider()] });
+    const queue = new EmailQueue(sender, { path: queuePath, clock, retry: { maxAttempts: 3, baseDelayMs: 1000, jitter: false } });
+    jest.spyOn(sender, 'send')
+      .mockResolvedValueOnce({ success: false, error: 'Suppression list unavailable', errorClass: 'transient', provider: 'relay' })
+      .mockRejectedValueOnce(new Error('Template store offline'));
+    const { id } = await queue.enqueue(message);
+
+    expect(await queue.drain()).toEqual({ sent: 0, failed: 1, dead: 0 });
+    clock.time = 2000;
+    expect(await queue.drain()).toEqual({ sent: 0, failed: 1, dead: 0 });
+    expect(await queue.get(id)).toMatchObject({ state: 'failed', attempts: 2, lastError: 'Template store offline', nextAttemptAt: 4000 });
+
+    clock.time = 4000;
+    expect(await queue.drain()).toEqual({ sent: 1, failed: 0, dead: 0 });
+
+    const lines = (await fs.readFile(queuePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(record => [record.state, record.nextAttemptAt])).toEqual([
+      ['pending', 1000], ['sending', 1000], ['failed', 2000], ['sending', 2000], ['failed', 4000], ['sending', 4000], ['sent', 4000]
+    ]);
+  });
+
+  test('should mark permanent failures dead and requeue them on request', async () => {
+    const queue = createQueue(new ScriptedProvider([permanent(), 'relay-id']));
+    const { id } = await queue.enqueue(message);
+
+    expect(await queue.drain()).toEqual({ sent: 0, failed: 0, dead: 1 });
+    expect(await queue.get(id)).toMatchObject({ state: 'dead', attempts: 1, errorClass: 'permanent-recipient' });
+
+    expect(await queue.requeue(id)).toMatchObject({ state: 'pending', attempts: 0 });
+    expect(await queue.drain()).toEqual({ sent: 1, failed: 0, dead: 0 });
+  });
+
+  test('should resend messages left sending by a crashed process', async () => {
+    const crashed = createQueue(new ScriptedProvider());
+    const { id } = await crashed.enqueue(message);
+    const record = JSON.parse((await fs.readFile(queuePath, 'utf8')).trim());
+    await fs.appendFile(queuePath, JSON.stringify({ ...record, state: 'sending', attempts: 1 }) + '\n{"id":"partial');
+
+    const provider = new ScriptedProvider();
+    const restarted = createQueue(provider);
+
+    expect(await restarted.get(id)).toMatchObject({ state: 'pending', attempts: 1 });
+    expect(await restarted.drain()).toEqual({ sent: 1, failed: 0, dead: 0 });
+    expect(await createQueue(provider).get(id)).toMatchObject({ state: 'sent', attempts: 2 });
+  });
+
+  test('should round-trip attachment buffers', async () => {
+    const provider = new ScriptedProvider();
+    const content = Buffer.from([0, 1, 2, 255]);
+    await createQueue(provider).enqueue({ ...message, attachments: [{ filename: 'data.bin', content }] });
+
+    await createQueue(provider).drain();
+
+    expect(provider.messages[0].options.attachments?.[0].content).toEqual(content);
+  });
+
+  test('should remove entries and compact the file', async () => {
+    const queue = createQueue(new ScriptedProvider());
+    const kept = await queue.enqueue(message);
+    const removed = await queue.enqueue(message);
+    await queue.drain();
+
+    expect(await queue.remove(removed.id)).toBe(true);
+    await queue.compact();
+
+    const lines = (await fs.readFile(queuePath, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines).toEqual([expect.objectContaining({ id: kept.id, state: 'sent' })]);
+    expect(await createQueue(new ScriptedProvider()).list()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,178 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolveSendTime, EmailSender, EmailQueue, type Clock, type EmailProvider, type ProviderMessage } from '../src/index';
+
+class FakeClock implements Clock {
+  private timers: Array<{ at: number; callback: () => void }> = [];
+
+  constructor(public time: number) {}
+
+  now() {
+    return this.time;
+  }
+
+  async sleep(ms: number) {
+    this.time += ms;
+  }
+
+  setTimer(callback: () => void, ms: number) {
+    const timer = { at: this.time + ms, callback };
+    this.timers.push(timer);
+    return () => {
+      this.timers = this.timers.filter(other => other !== timer);
+    };
+  }
+
+  async advance(ms: number) {
+    this.time += ms;
+    const due = this.timers.filter(timer => timer.at <= this.time);
+    this.timers = this.timers.filter(timer => timer.at > this.time);
+    due.forEach(timer => timer.callback());
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  get pendingTimers() {
+    return this.timers.length;
+  }
+}
+
+class RecordingProvider implements EmailProvider {
+  readonly name = 'relay';
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false };
+  readonly messages: ProviderMessage[] = [];
+
+  async send(message: ProviderMessage) {
+    this.messages.push(message);
+    return { messageId: `relay-${this.messages.length}` };
+  }
+
+  async verify() {}
+}
+
+const NOW = Date.UTC(2025, 0, 15, 12, 0, 0);
+const message = { to: 'recipient@example.org', subject: 'Reminder', text: 'Hi' };
+
+describe('resolveSendTime', () => {
+  test('should resolve delays and absolute times', () => {
+    expect(resolveSendTime({}, NOW)).toBe(NOW);
+    expect(resolveSendTime({ delayMs: 1800000 }, NOW)).toBe(NOW + 1800000);
+    expect(resolveSendTime({ sendAt: new Date(NOW + 5000) }, NOW)).toBe(NOW + 5000);
+    expect(resolveSendTime({ sendAt: NOW + 7000 }, NOW)).toBe(NOW + 7000);
+    expect(resolveSendTime({ sendAt: '2025-01-16T09:00:00Z', timeZone: 'Asia/Tokyo' }, NOW)).toBe(Date.UTC(2025, 0, 16, 9));
+  });
+
+  test('should read wall-clock times in the given time zone', () => {
+    expect(resolveSendTime({ sendAt: '2025-01-16T09:00', timeZone: 'Europe/Berlin' }, NOW)).toBe(Date.UTC(2025, 0, 16, 8));
+    expect(resolveSendTime({ sendAt: '2025-07-16T09:00', timeZone: 'Europe/Berlin' }, NOW)).toBe(Date.UTC(2025, 6, 16, 7));
+    expect(resolveSendTime({ sendAt: '2025-01-16 09:00:30', timeZone: 'America/New_York' }, NOW)).toBe(Date.UTC(2025, 0, 16, 14, 0, 30));
+    expect(resolveSendTime({ sendAt: '2025-01-16T09:00', timeZone: 'Asia/Kolkata' }, NOW)).toBe(Date.UTC(2025, 0, 16, 3, 30));
+  });
+
+  test('should reject invalid delivery times', () => {
+    expect(() => resolveSendTime({ sendAt: NOW, delayMs: 10 }, NOW)).toThrow('either sendAt or delayMs');
+    expect(() => resolveSendTime({ delayMs: -1 }, NOW)).toThrow('Invalid delayMs');
+    expect(() => resolveSendTime({ sendAt: 'tomorrow' }, NOW)).toThrow('Invalid sendAt');
+    expect(() => resolveSendTime({ sendAt: '2025-01-16T09:00', timeZone: 'Mars/Olympus' }, NOW)).toThrow('Invalid time zone');
+  });
+});
+
+describe('EmailSender scheduling', () => {
+  let clock: FakeClock;
+  let provider: RecordingProvider;
+  let sender: EmailSender;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    clock = new FakeClock(NOW);
+    provider = new RecordingProvider();
+    sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider], clock });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should send once the delay has passed', async () => {
+    const scheduled = sender.schedule({ ...message, delayMs: 30 * 60 * 1000 });
+
+    expect(scheduled.sendAt).toBe(NOW + 30 * 60 * 1000);
+    expect(sender.getScheduled()).toEqual([{ id: scheduled.id, sendAt: scheduled.sendAt, options: message, provider: undefined }]);
+
+    await clock.advance(29 * 60 * 1000);
+    expect(provider.messages).toHaveLength(0);
+
+    await clock.advance(60 * 1000);
+    expect(await scheduled.result).toMatchObject({ success: true, messageId: 'relay-1' });
+    expect(provider.messages[0].options).not.toHaveProperty('delayMs');
+    expect(sender.getScheduled()).toEqual([]);
+  });
+
+  test('should cancel a scheduled send by id', async () => {
+    const scheduled = sender.schedule({ ...message, sendAt: '2025-01-16T09:00', timeZone: 'Europe/Berlin' });
+
+    expect(sender.cancelScheduled(scheduled.id)).toBe(true);
+    expect(sender.cancelScheduled(scheduled.id)).toBe(false);
+    expect(await scheduled.result).toMatchObject({ success: false, error: 'Scheduled send cancelled' });
+    expect(clock.pendingTimers).toBe(0);
+
+    await clock.advance(24 * 60 * 60 * 1000);
+    expect(provider.messages).toHaveLength(0);
+  });
+
+  test('should return the schedule id from send() without waiting for delivery', async () => {
+    const result = await sender.send({ ...message, sendAt: NOW + 1000 });
+
+    expect(result).toEqual({ success: true, provider: 'none', scheduled: { id: expect.any(String), sendAt: NOW + 1000 } });
+    expect(provider.messages).toHaveLength(0);
+    expect(sender.cancelScheduled(result.scheduled!.id)).toBe(true);
+
+    await clock.advance(1000);
+    expect(provider.messages).toHaveLength(0);
+  });
+
+  test('should send past times immediately and report invalid ones', async () => {
+    expect((await sender.send({ ...message, sendAt: NOW - 1000 })).scheduled).toBeDefined();
+    await clock.advance(0);
+
+    expect(provider.messages).toHaveLength(1);
+    expect(await sender.send({ ...message, delayMs: -5 })).toMatchObject({
+      success: false,
+      error: 'Invalid delayMs: -5',
+      errorClass: 'permanent-config'
+    });
+  });
+});
+
+describe('EmailQueue scheduling', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'email-scheduler-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should hold queued messages until their send time', async () => {
+    const clock = new FakeClock(NOW);
+    const provider = new RecordingProvider();
+    const queue = new EmailQueue(
+      new EmailSender({ autoDetectFromEnv: false, providers: [provider], clock }),
+      { path: path.join(directory, 'queue.jsonl'), clock }
+    );
+
+    const entry = await queue.enqueue({ ...message, sendAt: '2025-01-15T14:00', timeZone: 'Europe/Berlin' });
+
+    expect(entry.nextAttemptAt).toBe(Date.UTC(2025, 0, 15, 13));
+    expect(entry.options).toEqual(message);
+    expect(await queue.drain()).toEqual({ sent: 0, failed: 0, dead: 0 });
+
+    clock.time = entry.nextAttemptAt;
+    expect(await queue.drain()).toEqual({ sent: 1, failed: 0, dead: 0 });
+    expect(provider.messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  TemplateEngine,
+  TemplateError,
+  EmailSender,
+  EmailDeliverabilityTester,
+  FakeDnsResolver,
+  type EmailProvider,
+  type ProviderMessage
+} from '../src/index';
+
+class RecordingProvider implements EmailProvider {
+  readonly name = 'relay';
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: true };
+  readonly messages: ProviderMessage[] = [];
+
+  async send(message: ProviderMessage) {
+    this.messages.push(message);
+    return { messageId: 'relay-id' };
+  }
+
+  async verify() {}
+}
+
+const createEngine = () => new TemplateEngine({
+  layouts: {
+    main: {
+      html: '<html><body>{{{body}}}{{> footer}}</body></html>',
+      text: '{{{body}}}\n-- \n{{company}}'
+    }
+  },
+  defaultLayout: 'main',
+  partials: {
+    footer: '<p>Sent to {{email}} by {{> company}}</p>',
+    company: '<b>{{company}}</b>'
+  },
+  templates: {
+    welcome: {
+      subject: 'Welcome, {{user.name}}!',
+      text: 'Hello {{user.name}}, your plan is {{plan}}.',
+      html: '<h1>Hello {{user.name}}</h1><p>{{{intro}}}</p>'
+    },
+    plain: {
+      subject: 'Code {{code}}',
+      text: 'Your code is {{code}}',
+      layout: false
+    }
+  }
+});
+
+const data = { user: { name: 'Ada <Admin>' }, plan: 'Pro & more', intro: '<em>Glad you are here</em>', email: 'ada@example.com', company: 'Example' };
+
+describe('TemplateEngine', () => {
+  test('should render parts with escaping, partials and the layout', () => {
+    expect(createEngine().render('welcome', data)).toEqual({
+      subject: 'Welcome, Ada <Admin>!',
+      text: 'Hello Ada <Admin>, your plan is Pro & more.\n-- \nExample',
+      html: '<html><body><h1>Hello Ada &lt;Admin&gt;</h1><p><em>Glad you are here</em></p><p>Sent to ada@example.com by <b>Example</b></p></body></html>'
+    });
+  });
+
+  test('should skip the layout when a template opts out', () => {
+    expect(createEngine().render('plain', { code: 42 })).toEqual({ subject: 'Code 42', text: 'Your code is 42', html: undefined });
+  });
+
+  test('should list every missing variable', () => {
+    const engine = createEngine();
+
+    expect(() => engine.render('welcome', { user: {} })).toThrow(TemplateError);
+    expect(engine.findMissingVariables('welcome', { user: {} })).toEqual(['user.name', 'plan', 'company', 'intro', 'email']);
+    expect(engine.findMissingVariables('plain', { code: 0 })).toEqual([]);
+  });
+
+  test('should report unknown templates, partials and layouts', () => {
+    const engine = createEngine();
+    engine.registerTemplate('broken', { subject: 'Hi', html: '{{> missing}}', layout: false });
+    engine.registerTemplate('framed', { subject: 'Hi', text: 'x', layout: 'fancy' });
+    engine.registerPartial('loop', '{{> loop}}');
+    engine.registerTemplate('recursive', { subject: '{{> loop}}', layout: false });
+
+    expect(() => engine.render('nope')).toThrow('Template "nope" is not registered');
+    expect(() => engine.render('broken')).toThrow('Partial "missing" is not registered');
+    expect(() => engine.render('framed')).toThrow('Layout "fancy" is not registered');
+    expect(() => engine.render('recursive')).toThrow('nested more than 10 levels');
+  });
+
+  test('should keep subjects on one line', () => {
+    const engine = new TemplateEngine({ templates: { note: { subject: 'Note: {{title}}' } } });
+
+    expect(engine.render('note', { title: 'first\r\nBcc: victim@example.org' }).subject).toBe('Note: first Bcc: victim@example.org');
+  });
+});
+
+describe('EmailSender.sendTemplate', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should render and send a template', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider], templates: createEngine() });
+
+    const result = await sender.sendTemplate('welcome', data, 'ada@example.com', { replyTo: 'support@example.com', tags: { campaign: 'welcome' } });
+
+    expect(result).toMatchObject({ success: true, provider: 'relay' });
+    expect(provider.messages[0].options).toMatchObject({
+      to: 'ada@example.com',
+      subject: 'Welcome, Ada <Admin>!',
+      replyTo: 'support@example.com',
+      tags: { campaign: 'welcome' }
+    });
+    expect(provider.messages[0].options.html).toContain('Ada &lt;Admin&gt;');
+  });
+
+  test('should not send when variables are missing', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider] });
+    sender.getTemplateEngine().registerTemplate('reset', { subject: 'Reset', text: 'Use {{link}}' });
+
+    expect(await sender.sendTemplate('reset', {}, 'ada@example.com', { provider: 'relay' })).toEqual({
+      success: false,
+      error: 'Template "reset" is missing variables: link',
+      errorClass: 'permanent-config',
+      provider: 'relay'
+    });
+    expect(provider.messages).toHaveLength(0);
+  });
+});
+
+describe('EmailDeliverabilityTester test message', () => {
+  test('should escape the tested address in the default HTML', async () => {
+    const provider = new RecordingProvider();
+    const tester = new EmailDeliverabilityTester(undefined, 'sender@example.com', {
+      dnsResolver: new FakeDnsResolver({ 'example.com': { mx: [{ exchange: 'mx.example.com', priority: 10 }] } }),
+      providers: [provider]
+    });
+
+    await tester.testEmailDeliverability({ email: '"<b>x</b>"@example.com', provider: 'relay' });
+
+    expect(provider.messages[0].options.html).toContain('&quot;&lt;b&gt;x&lt;/b&gt;&quot;@example.com');
+  });
+});
@@ -1,4 +1,4 @@
-import { EmailDeliverabilityTester, quickEmailValidation, batchEmailValidation } from '../src/index';
+import { EmailDeliverabilityTester, FakeDnsResolver, quickEmailValidation, batchEmailValidation } from '../src/index';
 
 describe('EmailDeliverabilityTester', () => {
   let tester: EmailDeliverabilityTester;
@@ -13,7 +13,8 @@ describe('EmailDeliverabilityTester', () => {
         'test@example.com',
         'user.name@domain.co.uk',
         'user+tag@example.org',
-        'first.last@subdomain.example.com'
+        'first.last@subdomain.example.com',
+        '"john doe"@example.com'
       ];
 
       for (const email of validEmails) {
@@ -30,7 +31,9 @@ describe('EmailDeliverabilityTester', () => {
         'invalid-email',
         '@example.com',
         'test@',
-        // 'test..test@example.com', // This might actually pass some regex validation
+        'test..test@example.com',
+        'test.@example.com',
+        'test@example.com.',
         'test@example',
         ''
       ];
@@ -41,6 +44,7 @@ describe('EmailDeliverabilityTester', () => {
           skipActualDelivery: true
         });
         expect(result.isValid).toBe(false);
+        expect(result.formatIssues.length).toBeGreaterThan(0);
       }
     });
   });
@@ -69,6 +73,155 @@ describe('EmailDeliverabilityTester', () => {
     });
   });
 
+  describe('Domain Validation (offline)', () => {
+    let dnsResolver: FakeDnsResolver;
+
+    beforeEach(() => {
+      dnsResolver = new FakeDnsResolver({
+        'example.com': {
+          mx: [{ exchange: 'mx.example.com', priority: 10 }],
+          txt: [['v=spf1 include:amazonses.com -all']]
+        },
+        '_dmarc.example.com': { txt: [['v=DMARC1; p=reject']] },
+        'xn--bcher-kva.de': { mx: [{ exchange: 'mx.xn--bcher-kva.de', priority: 10 }] },
+        'flaky.example.com': { error: 'ETIMEOUT' },
+        'broken.example.com': { error: 'ESERVFAIL' },
+        'nomx.example.com': { txt: [['hello']] },
+        'implicit.example.com': { a: ['192.0.2.10'] },
+        'implicit6.example.com': { aaaa: ['2001:db8::10'] },
+        'nullmx.example.com': { mx: [{ exchange: '', priority: 0 }], a: ['192.0.2.20'] }
+      });
+      tester = new EmailDeliverabilityTester(undefined, undefined, { dnsResolver });
+    });
+
+    test('should use the injected resolver', async () => {
+      const result = await tester.testEmailDeliverability({
+        email: 'test@example.com',
+        skipActualDelivery: true
+      });
+
+      expect(result.domainExists).toBe(true);
+      expect(result.mxRecords).toEqual([{ exchange: 'mx.example.com', priority: 10 }]);
+      expect(result.spfRecord).toBe('v=spf1 include:amazonses.com -all');
+      expect(result.dmarcRecord).toBe('v=DMARC1; p=reject');
+    });
+
+    test('should look up internationalized domains in punycode form', async () => {
+      const result = await tester.testEmailDeliverability({
+        email: 'jörg@bücher.de',
+        skipActualDelivery: true
+      });
+
+      expect(result.domainExists).toBe(true);
+      expect(result.normalizedDomain).toBe('xn--bcher-kva.de');
+      expect(result.requiresSmtpUtf8).toBe(true);
+      expect(result.recommendations.some(rec => rec.includes('SMTPUTF8'))).toBe(true);
+      expect(dnsResolver.queries).toContainEqual({ type: 'MX', hostname: 'xn--bcher-kva.de' });
+    });
+
+    test('should report the DNS status of the MX lookup', async () => {
+      const ok = await tester.testEmailDeliverability({ email: 'test@example.com', skipActualDelivery: true });
+      const nxdomain = await tester.testEmailDeliverability({ email: 'test@missing.example.com', skipActualDelivery: true });
+      const nodata = await tester.testEmailDeliverability({ email: 'test@nomx.example.com', skipActualDelivery: true });
+
+      expect(ok.dnsStatus).toBe('ok');
+      expect(nxdomain.dnsStatus).toBe('nxdomain');
+      expect(nxdomain.domainExists).toBe(false);
+      expect(nodata.dnsStatus).toBe('nodata');
+      expect(nodata.domainExists).toBe(true);
+      expect(nodata.inconclusive).toBe(false);
+    });
+
+    test('should mark transient DNS failures as inconclusive', async () => {
+      const result = await tester.testEmailDeliverability({
+        email: 'test@flaky.example.com',
+        skipActualDelivery: true
+      });
+
+      expect(result.dnsStatus).toBe('timeout');
+      expect(result.inconclusive).toBe(true);
+      expect(result.recommendations.some(rec => rec.includes('Domain does not exist'))).toBe(false);
+      expect(result.recommendations[0]).toContain('inconclusive');
+    });
+
+    test('should skip authentication records when the domain is missing or DNS is failing', async () => {
+      const missing = await tester.testEmailDeliverability({ email: 'test@missing.example.com', skipActualDelivery: true });
+      const flaky = await tester.testEmailDeliverability({ email: 'test@flaky.example.com', skipActualDelivery: true });
+
+      expect(missing.dmarc).toBeUndefined();
+      expect(flaky.dkim).toBeUndefined();
+      expect(dnsResolver.queries).toEqual([
+        { type: 'MX', hostname: 'missing.example.com' },
+        { type: 'MX', hostname: 'flaky.example.com' }
+      ]);
+    });
+
+    test('should fall back to A/AAAA records when no MX is published', async () => {
+      const ipv4 = await tester.testEmailDeliverability({ email: 'test@implicit.example.com', skipActualDelivery: true });
+      const ipv6 = await tester.testEmailDeliverability({ email: 'test@implicit6.example.com', skipActualDelivery: true });
+      const none = await tester.testEmailDeliverability({ email: 'test@nomx.example.com', skipActualDelivery: true });
+
+      expect(ipv4.domainExists).toBe(true);
+      expect(ipv4.implicitMx).toBe(true);
+      expect(ipv4.recommendations.some(rec => rec.includes('implicit MX'))).toBe(true);
+      expect(ipv6.implicitMx).toBe(true);
+      expect(none.implicitMx).toBe(false);
+    });
+
+    test('should recognise null MX records', async () => {
+      const result = await tester.testEmailDeliverability({
+        email: 'test@nullmx.example.com',
+        skipActualDelivery: true
+      });
+
+      expect(result.domainExists).toBe(true);
+      expect(result.nullMx).toBe(true);
+      expect(result.recommendations.some(rec => rec.includes('null MX'))).toBe(true);
+    });
+
+    test('should count implicit and null MX domains correctly in batches', async () => {
+      const result = await tester.testMultipleEmails([
+        { email: 'test@example.com', skipActualDelivery: true },
+        { email: 'test@implicit.example.com', skipActualDelivery: true },
+        { email: 'test@nullmx.example.com', skipActualDelivery: true },
+        { email: 'test@nomx.example.com', skipActualDelivery: true }
+      ]);
+
+      expect(result.successful).toBe(2);
+      expect(result.failed).toBe(2);
+      expect(result.inconclusive).toBe(0);
+    });
+
+    test('should count domain literals as deliverable without MX recommendations', async () => {
+      const result = await tester.testMultipleEmails([
+        { email: 'user@[192.0.2.1]', skipActualDelivery: true },
+        { email: 'user@[IPv6:2001:db8::1]', skipActualDelivery: true }
+      ]);
+
+      expect(result.successful).toBe(2);
+      expect(result.failed).toBe(0);
+      expect(result.results[0].domainLiteral).toBe(true);
+      expect(result.results[0].recommendations.some(rec => rec.includes('MX'))).toBe(false);
+    });
+
+    test('should keep inconclusive addresses apart in batch validation', async () => {
+      const result = await tester.validateEmails([
+        'test@example.com',
+        'test@missing.example.com',
+        'test@flaky.example.com',
+        'test@broken.example.com'
+      ]);
+
+      expect(result.validEmails).toEqual(['test@example.com']);
+      expect(result.invalidEmails.map(entry => entry.email)).toEqual(['test@missing.example.com']);
+      expect(result.inconclusiveEmails).toEqual([
+        expect.objectContaining({ email: 'test@flaky.example.com', dnsStatus: 'timeout' }),
+        expect.objectContaining({ email: 'test@broken.example.com', dnsStatus: 'servfail' })
+      ]);
+      expect(result.summary).toEqual({ total: 4, valid: 1, invalid: 1, inconclusive: 2 });
+    });
+  });
+
   describe('Batch Testing', () => {
     test('should handle batch email validation', async () => {
       const emails = [
@@ -91,6 +244,7 @@ describe('EmailDeliverabilityTester', () => {
       expect(result.summary.total).toBe(0);
       expect(result.summary.valid).toBe(0);
       expect(result.summary.invalid).toBe(0);
+      expect(result.summary.inconclusive).toBe(0);
       expect(result.validEmails).toEqual([]);
       expect(result.invalidEmails).toEqual([]);
     });
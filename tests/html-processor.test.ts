@@ -0,0 +1,159 @@
+import { processHtml, EmailSender, type EmailProvider, type ProviderMessage } from '../src/index';
+
+class RecordingProvider implements EmailProvider {
+  readonly name = 'relay';
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false };
+  readonly messages: ProviderMessage[] = [];
+
+  async send(message: ProviderMessage) {
+    this.messages.push(message);
+    return { messageId: 'relay-id' };
+  }
+
+  async verify() {}
+}
+
+describe('processHtml', () => {
+  test('should inline CSS by specificity and keep rules that cannot be inlined', () => {
+    const html = '<html><head><style>'
+      + 'p { color: #333; margin: 0 } .lead { font-size: 18px !important } #hero > h1 { color: red } td h1 { color: blue }'
+      + ' a:hover { color: blue } @media (max-width: 600px) { p { font-size: 14px } }'
+      + '</style></head><body><div id="hero"><h1>Hi</h1></div>'
+      + '<p class="lead" style="font-size: 12px; color: green">Intro<p>Second</body></html>';
+
+    const { html: output, report } = processHtml(html);
+
+    expect(output).toBe('<html><head><style>a:hover { color: blue }\n@media (max-width: 600px) { p { font-size: 14px } }</style></head>'
+      + '<body><div id="hero"><h1 style="color: red">Hi</h1></div>'
+      + '<p class="lead" style="margin: 0; font-size: 18px; color: green">Intro</p><p style="color: #333; margin: 0">Second</p></body></html>');
+    expect(report).toMatchObject({ changed: true, inlinedRules: 4, keptRules: 2 });
+  });
+
+  test('should remove style elements once every rule is inlined', () => {
+    const { html } = processHtml('<style>/* brand */ .button { background: #0a0 }</style><a class="button" href="https://example.com">Go</a>');
+
+    expect(html).toBe('<a class="button" href="https://example.com" style="background: #0a0">Go</a>');
+  });
+
+  test('should sanitise scripts, forms, handlers and external fonts', () => {
+    const html = '<head><link rel="stylesheet" href="https://fonts.googleapis.com/css?family=Roboto">'
+      + '<style>@import url(https://example.com/x.css); @font-face { font-family: X; src: url(x.woff) } @media print { p { color: #000 } }</style></head>'
+      + '<body onload="track()"><a href="javascript:alert(1)" onclick="x()">Bad</a><script>alert("</p>")</script>'
+      + '<form action="/subscribe"><input name="email"><button>Go</button></form><iframe src="https://example.com"></iframe></body>';
+
+    const { html: output, report } = processHtml(html);
+
+    expect(output).toBe('<head><style>@media print { p { color: #000 } }</style></head><body><a>Bad</a></body>');
+    expect(report.removedElements).toEqual({ link: 1, script: 1, form: 1, iframe: 1 });
+    expect(report.removedAttributes).toEqual({ onload: 1, href: 1, onclick: 1 });
+    expect(report.removedCssRules).toBe(2);
+  });
+
+  test('should remove obfuscated script URLs and non-image data URLs', () => {
+    const html = '<a href="java&#x09;script:alert(1)">Tab</a><a href="&#x0A;JavaScript&#x0D;:alert(1)">Newline</a>'
+      + '<a href="\x01vbscript:msgbox(1)">Control</a><a href="data:text/html;base64,PHNjcmlwdD4=">Data</a>'
+      + '<img src="data:image/png;base64,iVBORw0KGgo=" alt="Pixel"><img src="data:text/html,x">';
+
+    const { html: output, report } = processHtml(html, { inlineCss: false });
+
+    expect(output).toBe('<a>Tab</a><a>Newline</a><a>Control</a><a>Data</a><img src="data:image/png;base64,iVBORw0KGgo=" alt="Pixel"><img>');
+    expect(report.removedAttributes).toEqual({ href: 4, src: 1 });
+  });
+
+  test('should read slash-separated attributes and escape tags it cannot parse', () => {
+    expect(processHtml('<p>x</p><img/onerror=alert(1) src=x>')).toMatchObject({
+      html: '<p>x</p><img src="x">',
+      report: { changed: true, removedAttributes: { onerror: 1 } }
+    });
+    expect(processHtml('<svg/onload=alert(1)>').html).toBe('<svg></svg>');
+    expect(processHtml('<a href=/x/y/>Go</a>').html).toBe('<a href=/x/y/>Go</a>');
+
+    const { html, report } = processHtml('<p>1 <b"x onclick=y>2</p>');
+    expect(html).toBe('<p>1 &lt;b"x onclick=y>2</p>');
+    expect(report.escapedBrackets).toBe(1);
+  });
+
+  test('should remove script from style attributes and stylesheets', () => {
+    const html = '<style>.a { color: red } .b { background: url("javascript:alert(1)") }</style>'
+      + '<p style="color: red; background:url(javascript:alert(1))">A</p><p style="width: ex/**/pression(alert(1))">B</p>'
+      + '<p style="background: \\75rl(\'java\\73 cript:alert(1)\')">C</p><p style="background: url(https://example.com/bg.png)">D</p>';
+
+    const { html: output, report } = processHtml(html, { inlineCss: false });
+
+    expect(output).toBe('<style>.a { color: red }</style><p style="color: red">A</p><p>B</p><p>C</p>'
+      + '<p style="background: url(https://example.com/bg.png)">D</p>');
+    expect(report.removedAttributes).toEqual({ style: 3 });
+    expect(report.removedCssRules).toBe(1);
+  });
+
+  test('should resolve relative URLs against the base URL', () => {
+    const html = '<a href="/pricing?a=1&amp;b=2">Pricing</a><img src="img/logo.png" alt="Logo">'
+      + '<img src="//cdn.example.com/x.png"><a href="mailto:help@example.com">Help</a><a href="#top">Top</a><img src="cid:logo">';
+
+    const { html: output, report } = processHtml(html, { baseUrl: 'https://example.com/news/' });
+
+    expect(output).toBe('<a href="https://example.com/pricing?a=1&amp;b=2">Pricing</a><img src="https://example.com/news/img/logo.png" alt="Logo">'
+      + '<img src="https://cdn.example.com/x.png"><a href="mailto:help@example.com">Help</a><a href="#top">Top</a><img src="cid:logo">');
+    expect(report.rewrittenUrls).toEqual([
+      { from: '/pricing?a=1&b=2', to: 'https://example.com/pricing?a=1&b=2' },
+      { from: 'img/logo.png', to: 'https://example.com/news/img/logo.png' },
+      { from: '//cdn.example.com/x.png', to: 'https://cdn.example.com/x.png' }
+    ]);
+  });
+
+  test('should report relative URLs and oversized HTML', () => {
+    const html = `<img src="logo.png"><p>${'x'.repeat(2048)}</p>`;
+
+    const { html: output, report } = processHtml(html, { maxSizeBytes: 1024 });
+
+    expect(output).toBe(html);
+    expect(report.changed).toBe(false);
+    expect(report.relativeUrls).toEqual(['logo.png']);
+    expect(report.warnings).toEqual([
+      expect.stringContaining('Relative URLs cannot be loaded by mail clients'),
+      'HTML is 3 KB; messages over 1 KB are clipped by Gmail'
+    ]);
+  });
+
+  test('should honour disabled steps', () => {
+    const html = '<style>p { color: red }</style><p onclick="x()">Hi</p>';
+
+    expect(processHtml(html, { inlineCss: false, sanitize: false }).html).toBe(html);
+  });
+});
+
+describe('EmailSender HTML processing', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should process html before providers see it and return the report', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider], htmlProcessing: true });
+
+    const result = await sender.send({
+      to: 'recipient@example.org',
+      subject: 'Hi',
+      html: '<style>h1 { color: red }</style><h1>News</h1><script>alert(1)</script>'
+    });
+
+    expect(provider.messages[0].options.html).toBe('<h1 style="color: red">News</h1>');
+    expect(provider.messages[0].options.text).toBe('NEWS');
+    expect(result.htmlReport).toMatchObject({ changed: true, inlinedRules: 1, removedElements: { script: 1 } });
+  });
+
+  test('should leave html untouched by default', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider] });
+    const html = '<style>h1 { color: red }</style><h1>News</h1>';
+
+    const result = await sender.send({ to: 'recipient@example.org', subject: 'Hi', html });
+
+    expect(provider.messages[0].options.html).toBe(html);
+    expect(result.htmlReport).toBeUndefined();
+  });
+});
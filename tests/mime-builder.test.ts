@@ -0,0 +1,161 @@
+import { SESClient, SendRawEmailCommand } from '@aws-sdk/client-ses';
+import { buildMimeMessage, encodeWords, encodeQuotedPrintable, foldHeader, EmailSender } from '../src/index';
+
+const decodeWords = (value: string): string =>
+  value
+    .replace(/\?=\s+(?==\?)/g, '?=') // Whitespace between adjacent encoded-words is not part of the text
+    .replace(/=\?UTF-8\?B\?([^?]*)\?=/g, (_, base64) => Buffer.from(base64, 'base64').toString());
+
+const headerBlock = (raw: string): string => raw.slice(0, raw.indexOf('\r\n\r\n'));
+
+describe('MIME encoding helpers', () => {
+  test('should split encoded-words without breaking characters', () => {
+    const subject = 'Grüße aus Köln — 日本語のテキストも含まれています';
+    const encoded = encodeWords(subject);
+
+    encoded.split(' ').forEach(word => expect(word.length).toBeLessThanOrEqual(75));
+    expect(encoded.split(' ').length).toBeGreaterThan(1);
+    expect(decodeWords(encoded)).toBe(subject);
+  });
+
+  test('should fold long headers at whitespace', () => {
+    const folded = foldHeader('X-Long', Array(30).fill('word').join(' '));
+
+    folded.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(76));
+    expect(folded.split('\r\n').slice(1).every(line => line.startsWith(' '))).toBe(true);
+    expect(folded.replace(/\r\n/g, '')).toBe(`X-Long: ${Array(30).fill('word').join(' ')}`);
+  });
+
+  test('should reject header injection', () => {
+    expect(() => foldHeader('Subject', 'Hi\r\nBcc: victim@example.com')).toThrow('Header Subject must not contain line breaks');
+    expect(() => buildMimeMessage({ from: 'a@example.com', subject: 'x', headers: { 'Bad Name': 'x' } })).toThrow('Invalid header name "Bad Name"');
+  });
+
+  test('should reject custom headers the builder writes itself', () => {
+    for (const name of ['From', 'message-id', 'DATE', 'MIME-Version', 'Content-Type']) {
+      expect(() => buildMimeMessage({ from: 'a@example.com', subject: 'x', headers: { [name]: 'x' } }))
+        .toThrow(`Header "${name}" is written by the message builder`);
+    }
+    expect(() => buildMimeMessage({ from: 'a@example.com', subject: 'x', headers: { Date: 'x' } })).toThrow(expect.objectContaining({ errorClass: 'permanent-config' }));
+    expect(buildMimeMessage({ from: 'a@example.com', subject: 'x', headers: { 'X-Mailer': 'test' } }).raw.toString()).toContain('X-Mailer: test');
+  });
+
+  test('should quoted-printable encode with soft line breaks', () => {
+    const encoded = encodeQuotedPrintable(`café = ${'x'.repeat(100)} \nend `);
+
+    expect(encoded.startsWith('caf=C3=A9 =3D ')).toBe(true);
+    encoded.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(76));
+    expect(encoded.endsWith('end=20')).toBe(true);
+  });
+});
+
+describe('buildMimeMessage', () => {
+  test('should build a single text part message', () => {
+    const { raw, messageId } = buildMimeMessage({
+      from: 'Sender <sender@example.com>',
+      to: ['recipient@example.org'],
+      subject: 'Plain',
+      text: 'Hello\nworld',
+      date: new Date('2026-10-19T10:00:00Z')
+    });
+    const message = raw.toString();
+
+    expect(messageId).toMatch(/^<[0-9a-f-]+@example\.com>$/);
+    expect(headerBlock(message).split('\r\n')).toEqual([
+      'From: Sender <sender@example.com>',
+      'To: recipient@example.org',
+      'Subject: Plain',
+      `Message-ID: ${messageId}`,
+      'Date: Mon, 19 Oct 2026 10:00:00 +0000',
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 7bit'
+    ]);
+    expect(message.endsWith('\r\n\r\nHello\r\nworld\r\n')).toBe(true);
+  });
+
+  test('should nest mixed, alternative and related parts', () => {
+    const { raw } = buildMimeMessage({
+      from: 'sender@example.com',
+      to: ['recipient@example.org'],
+      subject: 'Report',
+      text: 'See attached',
+      html: '<p><img src="cid:logo"></p>',
+      attachments: [
+        { filename: 'report.pdf', content: Buffer.from('%PDF-1.4') },
+        { filename: 'logo.png', content: Buffer.from([0x89, 0x50]), cid: 'logo' }
+      ]
+    });
+    const message = raw.toString();
+
+    const contentTypes = [...message.matchAll(/Content-Type: ([^;\r\n]+)/g)].map(match => match[1]);
+    expect(contentTypes).toEqual(['multipart/mixed', 'multipart/alternative', 'text/plain', 'multipart/related', 'text/html', 'image/png', 'application/pdf']);
+    expect(message).toContain('Content-Disposition: inline; filename="logo.png"\r\nContent-ID: <logo>');
+    expect(message).toContain('Content-Disposition: attachment; filename="report.pdf"');
+    expect(message).toContain(Buffer.from('%PDF-1.4').toString('base64'));
+
+    const boundaries = [...message.matchAll(/boundary="([^"]+)"/g)].map(match => match[1]);
+    expect(boundaries).toHaveLength(3);
+    boundaries.forEach(boundary => expect(message).toContain(`--${boundary}--`));
+  });
+
+  test('should encode non-ASCII headers, names and bodies', () => {
+    const { raw } = buildMimeMessage({
+      from: 'Zoë Müller <zoe@example.com>',
+      to: ['"Doe, John" <john@example.org>'],
+      subject: 'Résumé attached',
+      text: 'Voilà',
+      headers: { 'X-Campaign-Id': 'spring-2026' },
+      attachments: [{ filename: 'résumé.txt', content: 'cv' }]
+    });
+    const message = raw.toString();
+    const headers = headerBlock(message);
+
+    expect(/^[\x00-\x7f]*$/.test(message)).toBe(true);
+    expect(decodeWords(headers.match(/^From: (.*)$/m)![1])).toBe('Zoë Müller <zoe@example.com>');
+    expect(headers).toContain('To: "Doe, John" <john@example.org>');
+    expect(decodeWords(headers.match(/^Subject: (.*)$/m)![1])).toBe('Résumé attached');
+    expect(headers).toContain('X-Campaign-Id: spring-2026');
+    expect(message).toContain('Content-Transfer-Encoding: quoted-printable\r\n\r\nVoil=C3=A0');
+    expect(message).toContain("filename*=utf-8''r%C3%A9sum%C3%A9.txt");
+  });
+});
+
+describe('EmailSender raw SES path', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should send attachments with explicit destinations and no Bcc header', async () => {
+    const send = jest.spyOn(SESClient.prototype, 'send').mockResolvedValue({ MessageId: 'ses-id' } as never);
+    const sender = new EmailSender({
+      aws: { accessKeyId: 'key', secretAccessKey: 'secret', region: 'us-east-1' },
+      defaultFrom: 'sender@example.com',
+      autoDetectFromEnv: false
+    });
+
+    const result = await sender.sendWithSes({
+      to: 'recipient@example.org',
+      cc: ['copy@example.org'],
+      bcc: 'hidden@example.org',
+      subject: 'Attachment',
+      text: 'See attached',
+      attachments: [{ filename: 'data.csv', content: 'a,b\n1,2' }]
+    });
+
+    expect(result).toEqual({
+      success: true,
+      messageId: 'ses-id',
+      provider: 'aws-ses',
+      attempts: [{ provider: 'aws-ses', success: true, messageId: 'ses-id' }]
+    });
+
+    const { input } = send.mock.calls[0][0] as SendRawEmailCommand;
+    expect(input.Source).toBe('sender@example.com');
+    expect(input.Destinations).toEqual(['recipient@example.org', 'copy@example.org', 'hidden@example.org']);
+
+    const raw = String(input.RawMessage?.Data);
+    expect(raw).not.toContain('hidden@example.org');
+    expect(raw).toContain('Content-Type: text/csv; name="data.csv"');
+  });
+});
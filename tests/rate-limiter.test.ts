@@ -0,0 +1,183 @@
+import { SESClient, GetSendQuotaCommand } from '@aws-sdk/client-ses';
+import { RateLimiter, EmailSender, EmailSendError, type Clock, type EmailProvider } from '../src/index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class FakeClock implements Clock {
+  readonly sleeps: number[] = [];
+  time = 0;
+
+  now() {
+    return this.time;
+  }
+
+  async sleep(ms: number) {
+    this.sleeps.push(ms);
+    this.time += ms;
+  }
+}
+
+const relay = (failure?: string): EmailProvider & { calls: number } => ({
+  name: 'relay',
+  capabilities: { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false },
+  calls: 0,
+  async send() {
+    this.calls++;
+    if (failure) {
+      throw new Error(failure);
+    }
+    return { messageId: `relay-${this.calls}` };
+  },
+  async verify() {}
+});
+
+const message = { to: 'recipient@example.org', subject: 'Hello', text: 'Hi' };
+
+describe('RateLimiter', () => {
+  test('should pace sends with a token bucket', async () => {
+    const clock = new FakeClock();
+    const limiter = new RateLimiter({ maxPerSecond: 2 }, clock);
+
+    for (let i = 0; i < 4; i++) {
+      await limiter.acquire();
+    }
+
+    expect(clock.sleeps).toEqual([500, 500]);
+  });
+
+  test('should refuse sends over the 24-hour cap and give back released allowance', async () => {
+    const limiter = new RateLimiter({ maxPer24Hours: 3 }, new FakeClock());
+
+    const release = await limiter.acquire(2);
+    await expect(limiter.acquire(2)).rejects.toThrow(EmailSendError);
+    await expect(limiter.acquire(2)).rejects.toMatchObject({ errorClass: 'quota-exhausted' });
+
+    release();
+    await limiter.acquire(2);
+    expect(limiter.getStatus()).toEqual({ maxPerSecond: undefined, maxPer24Hours: 3, sentLast24Hours: 2, remaining24Hours: 1 });
+  });
+
+  test('should queue sends until earlier ones leave the 24-hour window', async () => {
+    const clock = new FakeClock();
+    const limiter = new RateLimiter({ maxPer24Hours: 2 }, clock, 'queue');
+
+    await limiter.acquire(2);
+    clock.time = 1000;
+    await limiter.acquire(1);
+
+    expect(clock.sleeps).toEqual([DAY_MS - 1000]);
+    expect(limiter.getStatus().sentLast24Hours).toBe(1);
+  });
+
+  test('should count usage reported by the provider', async () => {
+    const limiter = new RateLimiter({ maxPer24Hours: 10 }, new FakeClock(), 'queue');
+    limiter.setSentLast24Hours(9);
+
+    await limiter.acquire();
+    expect(limiter.getStatus().remaining24Hours).toBe(0);
+    await expect(limiter.acquire(11)).rejects.toThrow('24-hour sending quota of 10 exhausted');
+  });
+});
+
+describe('EmailSender rate limits', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const mockSes = (quota: object) => jest.spyOn(SESClient.prototype, 'send').mockImplementation(async (command: unknown) => (
+    command instanceof GetSendQuotaCommand ? quota : { MessageId: 'ses-id' }
+  ) as never);
+
+  test('should enforce the SES sending quota', async () => {
+    const send = mockSes({ Max24HourSend: 200, MaxSendRate: 14, SentLast24Hours: 199 });
+    const sender = new EmailSender({
+      aws: { accessKeyId: 'key', secretAccessKey: 'secret' },
+      autoDetectFromEnv: false,
+      useProviderQuotas: true,
+      clock: new FakeClock()
+    });
+
+    expect((await sender.send(message)).success).toBe(true);
+    expect(await sender.send(message)).toMatchObject({ success: false, errorClass: 'quota-exhausted', provider: 'aws-ses' });
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(sender.getConfigStatus().rateLimits).toEqual({
+      'aws-ses': { maxPerSecond: 14, maxPer24Hours: 200, sentLast24Hours: 200, remaining24Hours: 0 }
+    });
+  });
+
+  test('should neither retry nor fail over when the daily cap is used up', async () => {
+    const clock = new FakeClock();
+    const primary = relay();
+    const backup = { ...relay(), name: 'backup' };
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [primary, backup],
+      rateLimits: { relay: { maxPer24Hours: 1 } },
+      failover: { policy: { throttled: 'retry' } },
+      retry: { maxAttempts: 3 },
+      clock
+    });
+
+    expect((await sender.send(message)).success).toBe(true);
+    const result = await sender.send(message);
+
+    expect(result).toMatchObject({ success: false, errorClass: 'quota-exhausted', provider: 'relay' });
+    expect(result.attempts).toEqual([expect.objectContaining({ provider: 'relay', errorClass: 'quota-exhausted', action: 'stop' })]);
+    expect(primary.calls).toBe(1);
+    expect(backup.calls).toBe(0);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  test('should report the quota from testConnection and let manual limits win', async () => {
+    mockSes({ Max24HourSend: -1, MaxSendRate: 14, SentLast24Hours: 5 });
+    const sender = new EmailSender({
+      aws: { accessKeyId: 'key', secretAccessKey: 'secret' },
+      autoDetectFromEnv: false,
+      rateLimits: { 'aws-ses': { maxPerSecond: 2 } }
+    });
+
+    const { aws } = await sender.testConnection();
+
+    expect(aws).toEqual({ configured: true, connected: true, quota: { maxSendRate: 14, max24HourSend: undefined, sentLast24Hours: 5 } });
+    expect(sender.getConfigStatus().rateLimits['aws-ses']).toEqual({
+      maxPerSecond: 2,
+      maxPer24Hours: undefined,
+      sentLast24Hours: 5,
+      remaining24Hours: undefined
+    });
+  });
+
+  test('should pace a manually limited relay by recipient count', async () => {
+    const clock = new FakeClock();
+    const provider = relay();
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [provider],
+      rateLimits: { relay: { maxPerSecond: 1 } },
+      clock
+    });
+
+    await sender.send({ ...message, bcc: 'hidden@example.org' });
+
+    expect(provider.calls).toBe(1);
+    expect(clock.sleeps).toEqual([1000]);
+  });
+
+  test('should not count failed sends against the daily cap', async () => {
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [relay('Connection refused')],
+      rateLimits: { relay: { maxPer24Hours: 1 } },
+      clock: new FakeClock()
+    });
+
+    await sender.send(message);
+
+    expect(sender.getConfigStatus().rateLimits.relay.sentLast24Hours).toBe(0);
+  });
+});
@@ -0,0 +1,150 @@
+import { SESClient } from '@aws-sdk/client-ses';
+import { getBackoffDelay, EmailSender, type Clock, type EmailProvider } from '../src/index';
+
+class FakeClock implements Clock {
+  readonly sleeps: number[] = [];
+  private time = 0;
+
+  now() {
+    return this.time;
+  }
+
+  async sleep(ms: number) {
+    this.sleeps.push(ms);
+    this.time += ms;
+  }
+}
+
+const failing = (name: string, errors: Error[], messageId = `${name}-id`): EmailProvider & { calls: number } => ({
+  name,
+  capabilities: { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false },
+  calls: 0,
+  async send() {
+    const error = errors[this.calls++];
+    if (error) {
+      throw error;
+    }
+    return { messageId };
+  },
+  async verify() {}
+});
+
+const throttling = () => Object.assign(new Error('Rate exceeded'), { name: 'Throttling' });
+const message = { to: 'recipient@example.org', subject: 'Hello', text: 'Hi' };
+
+describe('getBackoffDelay', () => {
+  test('should double the delay up to the cap', () => {
+    const policy = { baseDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+    expect([1, 2, 3, 4, 5].map(retry => getBackoffDelay(retry, policy))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  test('should apply full jitter', () => {
+    expect(getBackoffDelay(3, { baseDelayMs: 100 }, () => 0.5)).toBe(200);
+    expect(getBackoffDelay(3, { baseDelayMs: 100 }, () => 0)).toBe(0);
+  });
+});
+
+describe('EmailSender retry policy', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should retry transient failures with exponential backoff', async () => {
+    const clock = new FakeClock();
+    const provider = failing('relay', [throttling(), Object.assign(new Error('451 4.3.0 Try later'), { responseCode: 451 })]);
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [provider],
+      retry: { maxAttempts: 4, baseDelayMs: 500, jitter: false },
+      clock
+    });
+
+    const result = await sender.send(message);
+
+    expect(result).toMatchObject({ success: true, provider: 'relay', messageId: 'relay-id' });
+    expect(clock.sleeps).toEqual([500, 1000]);
+    expect(result.attempts).toEqual([
+      { provider: 'relay', success: false, error: 'Rate exceeded', errorClass: 'throttled', action: 'retry', retryDelayMs: 500 },
+      { provider: 'relay', success: false, error: '451 4.3.0 Try later', errorClass: 'transient', action: 'retry', retryDelayMs: 1000 },
+      { provider: 'relay', success: true, messageId: 'relay-id' }
+    ]);
+  });
+
+  test('should give up after maxAttempts and then apply the failover policy', async () => {
+    const clock = new FakeClock();
+    const primary = failing('primary', [throttling(), throttling(), throttling()]);
+    const secondary = failing('secondary', []);
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [primary, secondary],
+      retry: { maxAttempts: 3, baseDelayMs: 100, jitter: false },
+      clock
+    });
+
+    const result = await sender.send(message);
+
+    expect(primary.calls).toBe(3);
+    expect(clock.sleeps).toEqual([100, 200]);
+    expect(result.provider).toBe('secondary');
+    expect(result.attempts?.map(attempt => attempt.action)).toEqual(['retry', 'retry', 'failover', undefined]);
+  });
+
+  test('should not retry permanent failures', async () => {
+    const clock = new FakeClock();
+    const provider = failing('relay', [Object.assign(new Error('550 5.1.1 User unknown'), { responseCode: 550 })]);
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider], retry: {}, clock });
+
+    const result = await sender.send(message);
+
+    expect(result.success).toBe(false);
+    expect(provider.calls).toBe(1);
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  test('should use a custom retryable predicate', async () => {
+    const clock = new FakeClock();
+    const provider = failing('relay', [new Error('Mailbox busy')]);
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [provider],
+      retry: { retryable: attempt => /busy/.test(attempt.error || ''), jitter: false },
+      clock
+    });
+
+    expect((await sender.send(message)).success).toBe(true);
+    expect(clock.sleeps).toEqual([200]);
+  });
+
+  test('should not retry without a retry policy', async () => {
+    const provider = failing('relay', [throttling()]);
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider] });
+
+    expect((await sender.send(message)).success).toBe(false);
+    expect(provider.calls).toBe(1);
+  });
+
+  test('should retry SES throttling through sendWithSes', async () => {
+    const clock = new FakeClock();
+    const send = jest.spyOn(SESClient.prototype, 'send')
+      .mockRejectedValueOnce(throttling() as never)
+      .mockResolvedValueOnce({ MessageId: 'ses-id' } as never);
+    const sender = new EmailSender({
+      aws: { accessKeyId: 'key', secretAccessKey: 'secret' },
+      autoDetectFromEnv: false,
+      retry: { jitter: false },
+      clock
+    });
+
+    const result = await sender.sendWithSes(message);
+
+    expect(result).toMatchObject({ success: true, messageId: 'ses-id' });
+    expect(result.attempts).toHaveLength(2);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(clock.sleeps).toEqual([200]);
+  });
+});
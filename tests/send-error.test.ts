@@ -0,0 +1,154 @@
+import { classifySendError, EmailSendError, EmailSender, type EmailProvider, type ProviderMessage } from '../src/index';
+
+const sesError = (name: string, message = name, httpStatusCode = 400) =>
+  Object.assign(new Error(message), { name, $metadata: { httpStatusCode } });
+
+const smtpError = (responseCode: number, response: string, code = 'EENVELOPE') =>
+  Object.assign(new Error(response), { code, responseCode, response });
+
+class ScriptedProvider implements EmailProvider {
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false };
+  calls = 0;
+
+  constructor(readonly name: string, private outcomes: Array<Error | string>) {}
+
+  async send(_message: ProviderMessage) {
+    const outcome = this.outcomes[Math.min(this.calls++, this.outcomes.length - 1)];
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    return { messageId: outcome };
+  }
+
+  async verify() {}
+}
+
+const message = { to: 'recipient@example.org', subject: 'Hello', text: 'Hi' };
+const instantClock = { now: () => 0, sleep: async () => undefined };
+
+describe('classifySendError', () => {
+  test('should classify SES errors', () => {
+    expect(classifySendError(sesError('Throttling', 'Rate exceeded'))).toBe('throttled');
+    expect(classifySendError(sesError('MessageRejected', 'Maximum sending rate exceeded.'))).toBe('throttled');
+    expect(classifySendError(sesError('MessageRejected', 'Daily message quota exceeded.'))).toBe('quota-exhausted');
+    expect(classifySendError(sesError('MessageRejected', 'Email address is not verified. The following identities failed the check in region US-EAST-1: sender@example.com'))).toBe('permanent-config');
+    expect(classifySendError(sesError('MessageRejected', 'Address blacklisted.'))).toBe('permanent-recipient');
+    expect(classifySendError(sesError('InvalidClientTokenId', 'The security token included in the request is invalid.', 403))).toBe('auth');
+    expect(classifySendError(sesError('AccountSendingPausedException'))).toBe('permanent-config');
+    expect(classifySendError(sesError('InternalFailure', 'Internal failure', 500))).toBe('transient');
+    expect(classifySendError(sesError('RequestTimeout', 'Request timed out', 408))).toBe('ambiguous');
+    expect(classifySendError(sesError('SomethingNew', 'Slow down', 429))).toBe('throttled');
+  });
+
+  test('should classify SMTP errors', () => {
+    expect(classifySendError(Object.assign(new Error('Invalid login'), { code: 'EAUTH', responseCode: 535 }))).toBe('auth');
+    expect(classifySendError(smtpError(421, '421 4.7.0 Too many connections, try again later'))).toBe('throttled');
+    expect(classifySendError(smtpError(451, '451 4.3.0 Temporary local problem'))).toBe('transient');
+    expect(classifySendError(smtpError(550, '550 5.1.1 User unknown'))).toBe('permanent-recipient');
+    expect(classifySendError(smtpError(552, '552 Mailbox full'))).toBe('permanent-recipient');
+    expect(classifySendError(smtpError(554, '554 5.7.1 Relay access denied'))).toBe('permanent-config');
+    expect(classifySendError(smtpError(535, '535 5.7.8 Authentication credentials invalid'))).toBe('auth');
+    expect(classifySendError(Object.assign(new Error('Connection refused'), { code: 'ECONNREFUSED' }))).toBe('transient');
+    expect(classifySendError(Object.assign(new Error('Connection timeout'), { code: 'ETIMEDOUT' }))).toBe('ambiguous');
+    expect(classifySendError(Object.assign(new Error('Connection closed unexpectedly'), { code: 'ECONNRESET' }))).toBe('ambiguous');
+  });
+
+  test('should honour explicit classes and default to ambiguous', () => {
+    expect(classifySendError(new EmailSendError('Quota exhausted', 'throttled'))).toBe('throttled');
+    expect(classifySendError(new Error('Something odd'))).toBe('ambiguous');
+    expect(classifySendError('string failure')).toBe('ambiguous');
+  });
+});
+
+describe('EmailSender failover policy', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should not fail over on permanent recipient errors', async () => {
+    const primary = new ScriptedProvider('primary', [smtpError(550, '550 5.1.1 User unknown')]);
+    const secondary = new ScriptedProvider('secondary', ['secondary-id']);
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [primary, secondary] });
+
+    const result = await sender.send(message);
+
+    expect(result).toMatchObject({ success: false, provider: 'primary', errorClass: 'permanent-recipient' });
+    expect(result.attempts).toEqual([
+      { provider: 'primary', success: false, error: '550 5.1.1 User unknown', errorClass: 'permanent-recipient', action: 'stop' }
+    ]);
+    expect(secondary.calls).toBe(0);
+  });
+
+  test('should not fail over when the first provider may have accepted the message', async () => {
+    const primary = new ScriptedProvider('primary', [sesError('RequestTimeout', 'Request timed out', 408)]);
+    const secondary = new ScriptedProvider('secondary', ['secondary-id']);
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [primary, secondary] });
+
+    const result = await sender.send(message);
+
+    expect(result).toMatchObject({ success: false, provider: 'primary', errorClass: 'ambiguous' });
+    expect(result.attempts?.[0]).toMatchObject({ errorClass: 'ambiguous', action: 'stop' });
+    expect(secondary.calls).toBe(0);
+  });
+
+  test('should fail over on auth errors', async () => {
+    const primary = new ScriptedProvider('primary', [sesError('InvalidClientTokenId', 'Bad token', 403)]);
+    const secondary = new ScriptedProvider('secondary', ['secondary-id']);
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [primary, secondary] });
+
+    const result = await sender.send(message);
+
+    expect(result).toMatchObject({ success: true, provider: 'secondary', messageId: 'secondary-id' });
+    expect(result.attempts?.[0]).toMatchObject({ errorClass: 'auth', action: 'failover' });
+  });
+
+  test('should retry the same provider when the policy says so', async () => {
+    const primary = new ScriptedProvider('primary', [sesError('Throttling'), sesError('Throttling'), 'primary-id']);
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [primary],
+      failover: { policy: { throttled: 'retry' } },
+      clock: instantClock
+    });
+
+    const result = await sender.send(message);
+
+    expect(result).toMatchObject({ success: true, provider: 'primary', messageId: 'primary-id' });
+    expect(result.attempts?.map(attempt => attempt.action)).toEqual(['retry', 'retry', undefined]);
+  });
+
+  test('should fail over once retries are exhausted', async () => {
+    const primary = new ScriptedProvider('primary', [sesError('Throttling')]);
+    const secondary = new ScriptedProvider('secondary', ['secondary-id']);
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [primary, secondary],
+      failover: { policy: { throttled: 'retry' } },
+      retry: { maxAttempts: 2 },
+      clock: instantClock
+    });
+
+    const result = await sender.send(message);
+
+    expect(result.provider).toBe('secondary');
+    expect(result.attempts?.map(attempt => `${attempt.provider}:${attempt.action}`)).toEqual(['primary:retry', 'primary:failover', 'secondary:undefined']);
+  });
+
+  test('should follow the configured chain', async () => {
+    const first = new ScriptedProvider('first', ['first-id']);
+    const second = new ScriptedProvider('second', [Object.assign(new Error('Connection refused'), { code: 'ECONNREFUSED' })]);
+    const sender = new EmailSender({
+      autoDetectFromEnv: false,
+      providers: [first, second],
+      failover: { chain: ['second', 'first'] }
+    });
+
+    expect(sender.getFailoverChain()).toEqual(['second', 'first']);
+    expect(await sender.send(message)).toMatchObject({ success: true, provider: 'first' });
+    expect(second.calls).toBe(1);
+  });
+});
@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SesNotificationHandler,
+  SuppressionList,
+  parseSesNotification,
+  type SesBounceEvent,
+  type SnsEnvelope
+} from '../src/index';
+
+const TOPIC_ARN = 'arn:aws:sns:us-east-1:123456789012:ses-notifications';
+const CERT_URL = 'https://sns.us-east-1.amazonaws.com/SimpleNotificationService-0000000000000000000000.pem';
+
+const mail = {
+  timestamp: '2026-10-12T10:00:00.000Z',
+  source: 'sender@example.com',
+  sourceArn: 'arn:aws:ses:us-east-1:123456789012:identity/example.com',
+  sendingAccountId: '123456789012',
+  messageId: '0100018b2f3c4d5e-6f7a8b9c-0d1e-2f3a-4b5c-6d7e8f9a0b1c-000000',
+  destination: ['missing@example.org'],
+  headersTruncated: false,
+  commonHeaders: {
+    from: ['sender@example.com'],
+    to: ['missing@example.org'],
+    messageId: '<0100018b2f3c4d5e@example.com>',
+    subject: 'Welcome aboard'
+  }
+};
+
+const bounceNotification = {
+  notificationType: 'Bounce',
+  bounce: {
+    bounceType: 'Permanent',
+    bounceSubType: 'General',
+    bouncedRecipients: [{
+      emailAddress: 'missing@example.org',
+      action: 'failed',
+      status: '5.1.1',
+      diagnosticCode: 'smtp; 550 5.1.1 user unknown'
+    }],
+    timestamp: '2026-10-12T10:00:01.000Z',
+    feedbackId: '0100018b2f3c5a6b-00000000-0000-0000-0000-000000000000-000000',
+    reportingMTA: 'dsn; a8-70.smtp-out.amazonses.com',
+    remoteMtaIp: '192.0.2.25'
+  },
+  mail
+};
+
+const complaintEvent = {
+  eventType: 'Complaint',
+  complaint: {
+    complainedRecipients: [{ emailAddress: 'annoyed@example.org' }],
+    timestamp: '2026-10-12T11:00:00.000Z',
+    feedbackId: '0100018b2f3c6b7c-00000000-0000-0000-0000-000000000000-000000',
+    userAgent: 'Mail Provider FBL',
+    complaintFeedbackType: 'abuse',
+    arrivalDate: '2026-10-12T10:59:00.000Z'
+  },
+  mail: { ...mail, destination: ['annoyed@example.org'] }
+};
+
+const deliveryNotification = {
+  notificationType: 'Delivery',
+  mail: { ...mail, destination: ['ok@example.org'] },
+  delivery: {
+    timestamp: '2026-10-12T10:00:02.000Z',
+    processingTimeMillis: 1620,
+    recipients: ['ok@example.org'],
+    smtpResponse: '250 2.6.0 Message received',
+    reportingMTA: 'a8-70.smtp-out.amazonses.com',
+    remoteMtaIp: '192.0.2.26'
+  }
+};
+
+describe('SesNotificationHandler', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const certificate = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  let directory: string;
+
+  /**
+   * Sign an envelope the way SNS does, building the string to sign independently of the handler
+   */
+  function sign(envelope: Omit<SnsEnvelope, 'Signature' | 'SignatureVersion' | 'SigningCertURL'>, version = '1'): SnsEnvelope {
+    const fields = envelope.Type === 'Notification'
+      ? ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type']
+      : ['Message', 'MessageId', 'SubscribeURL', 'Timestamp', 'Token', 'TopicArn', 'Type'];
+    const values = envelope as unknown as Record<string, string | undefined>;
+    const stringToSign = fields.filter(field => values[field] !== undefined).map(field => `${field}\n${values[field]}\n`).join('');
+    const signature = crypto.createSign(version === '2' ? 'RSA-SHA256' : 'RSA-SHA1').update(stringToSign).sign(privateKey, 'base64');
+    return { ...envelope, SignatureVersion: version, Signature: signature, SigningCertURL: CERT_URL };
+  }
+
+  function notification(message: object, version?: string): SnsEnvelope {
+    return sign({
+      Type: 'Notification',
+      MessageId: crypto.randomUUID(),
+      TopicArn: TOPIC_ARN,
+      Message: JSON.stringify(message),
+      Timestamp: '2026-10-12T10:00:03.000Z',
+      UnsubscribeURL: `https://sns.us-east-1.amazonaws.com/?Action=Unsubscribe&SubscriptionArn=${TOPIC_ARN}:1`
+    }, version);
+  }
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ses-notifications-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should verify, correlate and emit bounces, and suppress hard bounces', async () => {
+    const suppressionList = new SuppressionList({ path: path.join(directory, 'suppressions.jsonl') });
+    const handler = new SesNotificationHandler({ certificate, topicArns: [TOPIC_ARN], suppressionList });
+    const bounces: SesBounceEvent[] = [];
+    handler.on('bounce', event => {
+      bounces.push(event);
+    });
+    handler.track({ success: true, provider: 'aws-ses', messageId: mail.messageId }, { campaign: 'welcome' });
+
+    const result = await handler.handle(JSON.stringify(notification(bounceNotification)));
+
+    expect(result).toMatchObject({ accepted: true, type: 'Notification', event: { type: 'bounce', classification: 'hard' } });
+    expect(bounces).toHaveLength(1);
+    expect(bounces[0].sent).toEqual({ messageId: mail.messageId, provider: 'aws-ses', metadata: { campaign: 'welcome' } });
+    expect(bounces[0].bounce.bouncedRecipients[0].status).toBe('5.1.1');
+    expect(bounces[0].suppressed).toEqual([expect.objectContaining({ email: 'missing@example.org', reason: 'hard-bounce', source: 'ses-notification' })]);
+    expect(await suppressionList.isSuppressed('missing@example.org')).toBe(true);
+  });
+
+  test('should handle complaint events and deliveries with SHA256 signatures', async () => {
+    const suppressionList = new SuppressionList({ path: path.join(directory, 'suppressions.jsonl') });
+    const lookupSend = jest.fn(async (messageId: string) => (messageId === mail.messageId ? { messageId, provider: 'aws-ses' } : undefined));
+    const handler = new SesNotificationHandler({ certificate: async () => certificate, suppressionList, lookupSend });
+    const types: string[] = [];
+    handler.on('complaint', event => {
+      types.push(`${event.type}:${event.complaint.complaintFeedbackType}`);
+    });
+    handler.on('delivery', async event => {
+      types.push(`${event.type}:${event.delivery.smtpResponse}`);
+    });
+
+    const complaint = await handler.handle(notification(complaintEvent, '2'));
+    const delivery = await handler.handle(notification(deliveryNotification, '2'));
+
+    expect(complaint).toMatchObject({ accepted: true, event: { type: 'complaint', sent: { provider: 'aws-ses' } } });
+    expect(delivery).toMatchObject({ accepted: true, event: { type: 'delivery', mail: { destination: ['ok@example.org'] } } });
+    expect(types).toEqual(['complaint:abuse', 'delivery:250 2.6.0 Message received']);
+    expect(await suppressionList.get('annoyed@example.org')).toMatchObject({ reason: 'complaint', note: 'abuse' });
+  });
+
+  test('should not weaken a complaint suppression on a later soft bounce', async () => {
+    const suppressionList = new SuppressionList({ path: path.join(directory, 'suppressions.jsonl') });
+    const handler = new SesNotificationHandler({ certificate, suppressionList, softBounceTtlMs: 1000 });
+    const mailboxFull = {
+      ...bounceNotification,
+      bounce: {
+        ...bounceNotification.bounce,
+        bounceType: 'Transient',
+        bounceSubType: 'MailboxFull',
+        bouncedRecipients: [{ emailAddress: 'annoyed@example.org' }, { emailAddress: 'not-an-address' }, { emailAddress: 'full@example.org' }]
+      }
+    };
+
+    await handler.handle(notification(complaintEvent));
+    const result = await handler.handle(notification(mailboxFull));
+
+    expect(result).toMatchObject({ accepted: true, event: { classification: 'soft' } });
+    expect(await suppressionList.get('annoyed@example.org')).toMatchObject({ reason: 'complaint', expiresAt: undefined });
+    expect(await suppressionList.get('full@example.org')).toMatchObject({ reason: 'soft-bounce', expiresAt: expect.any(Number) });
+  });
+
+  test('should reject tampered, unsigned and foreign messages', async () => {
+    const handler = new SesNotificationHandler({ certificate, topicArns: [TOPIC_ARN] });
+    const listener = jest.fn();
+    handler.on('bounce', listener);
+
+    const tampered = notification(bounceNotification);
+    tampered.Message = tampered.Message.replace('Permanent', 'Transient');
+    expect(await handler.handle(tampered)).toEqual({ accepted: false, type: 'Notification', error: 'Invalid SNS signature' });
+
+    const foreign = sign({ ...notification(bounceNotification), TopicArn: 'arn:aws:sns:us-east-1:999999999999:other' });
+    expect((await handler.handle(foreign)).error).toBe('Topic arn:aws:sns:us-east-1:999999999999:other is not accepted');
+
+    expect((await handler.handle(bounceNotification)).error).toContain('raw message delivery requires verifySignatures: false');
+    expect((await handler.handle('{not json')).error).toBe('Body is not valid JSON');
+
+    const fetchCertificate = jest.fn(async () => certificate);
+    const fetching = new SesNotificationHandler({ certificate: fetchCertificate });
+    const spoofed = { ...notification(bounceNotification), SigningCertURL: 'https://attacker.example.com/cert.pem' };
+    expect((await fetching.handle(spoofed)).error).toBe('Signing certificate URL https://attacker.example.com/cert.pem is not an SNS URL');
+    expect(fetchCertificate).not.toHaveBeenCalled();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('should confirm subscriptions and emit the confirmation', async () => {
+    const confirmSubscription = jest.fn(async () => undefined);
+    const handler = new SesNotificationHandler({ certificate, confirmSubscription });
+    const events: unknown[] = [];
+    handler.on('subscriptionConfirmation', event => {
+      events.push(event);
+    });
+
+    const subscribeUrl = `https://sns.us-east-1.amazonaws.com/?Action=ConfirmSubscription&TopicArn=${TOPIC_ARN}&Token=2336412f37`;
+    const result = await handler.handle(sign({
+      Type: 'SubscriptionConfirmation',
+      MessageId: '165545c9-2a5c-472c-8df2-7ff2be2b3b1b',
+      Token: '2336412f37',
+      TopicArn: TOPIC_ARN,
+      Message: `You have chosen to subscribe to the topic ${TOPIC_ARN}.`,
+      SubscribeURL: subscribeUrl,
+      Timestamp: '2026-10-12T09:00:00.000Z'
+    }));
+
+    expect(result).toMatchObject({ accepted: true, type: 'SubscriptionConfirmation' });
+    expect(confirmSubscription).toHaveBeenCalledWith(subscribeUrl);
+    expect(events).toEqual([expect.objectContaining({ type: 'subscriptionConfirmation', token: '2336412f37', confirmed: true })]);
+  });
+
+  test('should accept raw delivery when verification is off and report listener failures', async () => {
+    const suppressionList = new SuppressionList({ path: path.join(directory, 'suppressions.jsonl') });
+    const handler = new SesNotificationHandler({ verifySignatures: false, suppressionList });
+    const transient = { ...bounceNotification, bounce: { ...bounceNotification.bounce, bounceType: 'Transient', bounceSubType: 'MailboxFull' } };
+
+    expect(await handler.handle(transient)).toMatchObject({ accepted: true, event: { classification: 'soft', suppressed: [] } });
+    expect(await handler.handle({ eventType: 'Open', mail, open: {} })).toEqual({ accepted: true, event: undefined });
+
+    handler.on('bounce', () => {
+      throw new Error('Database unavailable');
+    });
+    expect(await handler.handle(bounceNotification)).toEqual({ accepted: false, type: undefined, error: 'Database unavailable' });
+    expect(parseSesNotification(JSON.stringify(deliveryNotification))?.notificationType).toBe('Delivery');
+  });
+});
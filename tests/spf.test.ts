@@ -0,0 +1,198 @@
+import { SpfEvaluator, FakeDnsResolver, parseSpfRecord, expandSpfMacros, EmailDeliverabilityTester } from '../src/index';
+
+describe('SpfEvaluator', () => {
+  let dnsResolver: FakeDnsResolver;
+  let evaluator: SpfEvaluator;
+
+  beforeEach(() => {
+    dnsResolver = new FakeDnsResolver({
+      'example.com': {
+        txt: [['v=spf1 ip4:192.0.2.0/24 include:_spf.provider.test a:mail.example.com ~all'], ['google-site-verification=abc']]
+      },
+      '_spf.provider.test': { txt: [['v=spf1 ip6:2001:db8::/32 include:_netblocks.provider.test -all']] },
+      '_netblocks.provider.test': { txt: [['v=spf1 ip4:198.51.100.0/24 -all']] },
+      'mail.example.com': { a: ['203.0.113.5'] },
+      'mx.example.org': { txt: [['v=spf1 mx -all']], mx: [{ exchange: 'mx1.example.org', priority: 10 }] },
+      'mx1.example.org': { a: ['203.0.113.25'] },
+      'redirect.example.net': { txt: [['v=spf1 redirect=example.com']] },
+      'double.example.com': { txt: [['v=spf1 -all'], ['v=spf1 +all']] },
+      'open.example.com': { txt: [['v=spf1 +all']] },
+      'loop.example.com': { txt: [['v=spf1 include:loop.example.com -all']] },
+      'broken-include.example.com': { txt: [['v=spf1 include:missing.example.com -all']] },
+      'flaky-include.example.com': { txt: [['v=spf1 include:flaky.example.com -all']] },
+      'flaky.example.com': { error: 'ETIMEOUT' },
+      'nospf.example.com': { txt: [['hello']] }
+    });
+    evaluator = new SpfEvaluator(dnsResolver);
+  });
+
+  test('should pass an IP in a direct ip4 range', async () => {
+    const result = await evaluator.checkHost('192.0.2.44', 'example.com');
+
+    expect(result.result).toBe('pass');
+    expect(result.matchedMechanism).toBe('ip4:192.0.2.0/24');
+    expect(result.lookupCount).toBe(0);
+  });
+
+  test('should follow nested includes and report the include tree', async () => {
+    const result = await evaluator.checkHost('198.51.100.7', 'example.com');
+
+    expect(result.result).toBe('pass');
+    expect(result.matchedMechanism).toBe('include:_spf.provider.test');
+    expect(result.lookupCount).toBe(2);
+    expect(result.tree.children[0]).toMatchObject({
+      domain: '_spf.provider.test',
+      result: 'pass',
+      children: [{ domain: '_netblocks.provider.test', result: 'pass', matched: 'ip4:198.51.100.0/24' }]
+    });
+  });
+
+  test('should match IPv6 ranges and a/mx mechanisms', async () => {
+    expect((await evaluator.checkHost('2001:db8::1', 'example.com')).result).toBe('pass');
+    expect((await evaluator.checkHost('203.0.113.5', 'example.com')).result).toBe('pass');
+    expect((await evaluator.checkHost('203.0.113.25', 'mx.example.org')).result).toBe('pass');
+    expect((await evaluator.checkHost('203.0.113.26', 'mx.example.org')).result).toBe('fail');
+  });
+
+  test('should return softfail for unlisted hosts under ~all', async () => {
+    const result = await evaluator.checkHost('203.0.113.99', 'example.com');
+
+    expect(result.result).toBe('softfail');
+    expect(result.matchedMechanism).toBe('~all');
+  });
+
+  test('should follow redirect modifiers', async () => {
+    const result = await evaluator.checkHost('192.0.2.1', 'redirect.example.net');
+
+    expect(result.result).toBe('pass');
+    expect(result.tree.children[0].via).toBe('redirect=example.com');
+  });
+
+  test('should return none when no SPF record is published', async () => {
+    expect((await evaluator.checkHost('192.0.2.1', 'nospf.example.com')).result).toBe('none');
+    expect((await evaluator.checkHost('192.0.2.1', 'unknown.example.com')).result).toBe('none');
+  });
+
+  test('should return permerror for multiple SPF records', async () => {
+    const result = await evaluator.checkHost('192.0.2.1', 'double.example.com');
+
+    expect(result.result).toBe('permerror');
+    expect(result.explanation).toContain('2 SPF records');
+  });
+
+  test('should return permerror when the lookup limit is exceeded', async () => {
+    const result = await evaluator.checkHost('192.0.2.1', 'loop.example.com');
+
+    expect(result.result).toBe('permerror');
+    expect(result.explanation).toContain('10 DNS lookups');
+    expect(result.lookupCount).toBe(11);
+  });
+
+  test('should return permerror for includes without a record', async () => {
+    expect((await evaluator.checkHost('192.0.2.1', 'broken-include.example.com')).result).toBe('permerror');
+  });
+
+  test('should return temperror on transient DNS failures', async () => {
+    expect((await evaluator.checkHost('192.0.2.1', 'flaky-include.example.com')).result).toBe('temperror');
+  });
+
+  test('should warn about weak all qualifiers', async () => {
+    const result = await evaluator.checkHost('192.0.2.1', 'open.example.com');
+
+    expect(result.result).toBe('pass');
+    expect(result.allQualifier).toBe('+');
+    expect(result.warnings[0]).toContain('+all');
+  });
+
+  test('should inspect a policy without a sending source', async () => {
+    const result = await evaluator.inspect('example.com');
+
+    expect(result.ip).toBeUndefined();
+    expect(result.result).toBe('softfail');
+    expect(result.lookupCount).toBe(3);
+    expect(result.tree.children.map(child => child.domain)).toEqual(['_spf.provider.test']);
+  });
+});
+
+describe('parseSpfRecord', () => {
+  test('should parse mechanisms, qualifiers and dual CIDR lengths', () => {
+    const record = parseSpfRecord('v=spf1 -a:example.com/24//64 mx/28 ?exists:%{i}.bl.example redirect=_spf.example.com');
+
+    expect(record.mechanisms).toEqual([
+      { qualifier: '-', name: 'a', value: 'example.com', ip4Cidr: 24, ip6Cidr: 64, term: '-a:example.com/24//64' },
+      { qualifier: '+', name: 'mx', value: undefined, ip4Cidr: 28, ip6Cidr: undefined, term: 'mx/28' },
+      { qualifier: '?', name: 'exists', value: '%{i}.bl.example', term: '?exists:%{i}.bl.example' }
+    ]);
+    expect(record.redirect).toBe('_spf.example.com');
+  });
+
+  test('should reject syntax errors', () => {
+    expect(() => parseSpfRecord('v=spf1 foo:bar')).toThrow('Unknown mechanism');
+    expect(() => parseSpfRecord('v=spf1 ip4:300.1.1.1')).toThrow('Invalid network');
+    expect(() => parseSpfRecord('v=spf1 redirect=a.com redirect=b.com')).toThrow('Duplicate redirect');
+  });
+});
+
+describe('expandSpfMacros', () => {
+  test('should expand RFC 7208 macro examples', () => {
+    const context = { domain: 'email.example.com', sender: 'strong-bad@email.example.com', ip: '192.0.2.3' };
+
+    expect(expandSpfMacros('%{s}', context)).toBe('strong-bad@email.example.com');
+    expect(expandSpfMacros('%{d4}', context)).toBe('email.example.com');
+    expect(expandSpfMacros('%{d2}', context)).toBe('example.com');
+    expect(expandSpfMacros('%{dr}', context)).toBe('com.example.email');
+    expect(expandSpfMacros('%{l-}', context)).toBe('strong.bad');
+    expect(expandSpfMacros('%{ir}.%{v}._spf.%{d2}', context)).toBe('3.2.0.192.in-addr._spf.example.com');
+    expect(expandSpfMacros('%{ir}.%{v}._spf.%{d2}', { ...context, ip: '2001:db8::cb01' }))
+      .toBe('1.0.b.c.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6._spf.example.com');
+  });
+});
+
+describe('EmailDeliverabilityTester SPF evaluation', () => {
+  test('should evaluate the sender domain against the sending source', async () => {
+    const dnsResolver = new FakeDnsResolver({
+      'example.com': { mx: [{ exchange: 'mx.example.com', priority: 10 }] },
+      'sender.test': { txt: [['v=spf1 ip4:192.0.2.0/24 ?all']] }
+    });
+    const tester = new EmailDeliverabilityTester(undefined, 'news@sender.test', { dnsResolver });
+
+    const authorised = await tester.testEmailDeliverability({
+      email: 'user@example.com',
+      skipActualDelivery: true,
+      spfSource: { ip: '192.0.2.10' }
+    });
+    const unauthorised = await tester.testEmailDeliverability({
+      email: 'user@example.com',
+      skipActualDelivery: true,
+      spfSource: { ip: '203.0.113.10' }
+    });
+
+    expect(authorised.spf?.result).toBe('pass');
+    expect(unauthorised.spf?.result).toBe('neutral');
+    expect(unauthorised.recommendations).toContain(
+      'Sending source 203.0.113.10 is not authorised by the SPF record for sender.test (neutral). Add it to the record.'
+    );
+    expect(unauthorised.recommendations.some(rec => rec.includes('"?all"'))).toBe(true);
+  });
+
+  test('should report an invalid sending source instead of rejecting', async () => {
+    const dnsResolver = new FakeDnsResolver({ 'sender.test': { txt: [['v=spf1 ip4:192.0.2.0/24 -all']] } });
+    const tester = new EmailDeliverabilityTester(undefined, 'news@sender.test', { dnsResolver });
+
+    const result = await tester.testEmailDeliverability({
+      email: 'user@example.com',
+      skipActualDelivery: true,
+      spfSource: { ip: '192.0.2.300' }
+    });
+
+    expect(result.spf).toMatchObject({ domain: 'sender.test', ip: undefined });
+    expect(result.recommendations).toContain('SPF (sender.test): Sending source "192.0.2.300" is not a valid IP address, so the policy was inspected without it.');
+  });
+
+  test('should skip sender SPF evaluation in validation-only mode', async () => {
+    const tester = new EmailDeliverabilityTester(undefined, undefined, { dnsResolver: new FakeDnsResolver() });
+    const result = await tester.testEmailDeliverability({ email: 'user@example.com', skipActualDelivery: true });
+
+    expect(result.spf).toBeUndefined();
+  });
+});
@@ -0,0 +1,183 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SuppressionList,
+  EmailSender,
+  EmailDeliverabilityTester,
+  FakeDnsResolver,
+  type Clock,
+  type EmailProvider,
+  type ProviderMessage
+} from '../src/index';
+
+class FakeClock implements Clock {
+  time = Date.UTC(2026, 0, 1);
+
+  now() {
+    return this.time;
+  }
+
+  async sleep(ms: number) {
+    this.time += ms;
+  }
+}
+
+class RecordingProvider implements EmailProvider {
+  readonly name = 'relay';
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false };
+  readonly messages: ProviderMessage[] = [];
+
+  async send(message: ProviderMessage) {
+    this.messages.push(message);
+    return { messageId: 'relay-id' };
+  }
+
+  async verify() {}
+}
+
+describe('SuppressionList', () => {
+  let directory: string;
+  let listPath: string;
+  let clock: FakeClock;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'suppression-list-'));
+    listPath = path.join(directory, 'lists', 'suppressions.jsonl');
+    clock = new FakeClock();
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should add, replace and remove entries and survive a restart', async () => {
+    const list = new SuppressionList({ path: listPath, clock });
+
+    await list.add('Ada <Ada@Example.com>', { reason: 'hard-bounce', source: 'ses' });
+    await list.add('bob@example.com', { reason: 'complaint' });
+    await list.add('ada@example.com', { reason: 'unsubscribe', note: 'Clicked the footer link' });
+    expect(await list.remove('BOB@example.com')).toBe(true);
+    expect(await list.remove('bob@example.com')).toBe(false);
+    await expect(list.add('not-an-address')).rejects.toThrow('Invalid email address "not-an-address"');
+
+    const reopened = new SuppressionList({ path: listPath, clock });
+    expect(await reopened.list()).toEqual([
+      { email: 'ada@example.com', reason: 'unsubscribe', createdAt: clock.time, note: 'Clicked the footer link' }
+    ]);
+    expect(await reopened.isSuppressed('ADA@example.com')).toBe(true);
+    expect(await reopened.isSuppressed('bob@example.com')).toBe(false);
+  });
+
+  test('should ignore expired entries and drop them on compaction', async () => {
+    const list = new SuppressionList({ path: listPath, clock });
+    await list.add('full@example.com', { reason: 'soft-bounce', ttlMs: 1000 });
+    await list.add('gone@example.com', { reason: 'hard-bounce' });
+
+    clock.time += 1001;
+
+    expect(await list.get('full@example.com')).toBeUndefined();
+    expect((await list.list()).map(entry => entry.email)).toEqual(['gone@example.com']);
+    expect(await list.list(undefined, true)).toHaveLength(2);
+
+    await list.compact();
+    expect((await fs.readFile(listPath, 'utf8')).trim().split('\n')).toHaveLength(1);
+  });
+
+  test('should import JSON, CSV and plain lists and export CSV', async () => {
+    const list = new SuppressionList({ path: listPath, clock });
+
+    expect(await list.import(JSON.stringify(['a@example.com', { email: 'b@example.com', reason: 'complaint' }]))).toEqual({ imported: 2, invalid: [] });
+    expect(await list.import('Email,Reason,ExpiresAt\nc@example.com,hard-bounce,\n"d@example.com",bogus,2027-01-01T00:00:00Z\nnope,manual,\n')).toEqual({
+      imported: 2,
+      invalid: ['nope']
+    });
+    expect(await list.import('# exported from SES\ne@example.com\n', { reason: 'hard-bounce', source: 'ses' })).toEqual({ imported: 1, invalid: [] });
+
+    expect(await list.get('b@example.com')).toMatchObject({ reason: 'complaint', source: 'import' });
+    expect(await list.get('d@example.com')).toMatchObject({ reason: 'manual', expiresAt: Date.UTC(2027, 0, 1) });
+    expect(await list.get('e@example.com')).toMatchObject({ reason: 'hard-bounce', source: 'ses' });
+
+    await list.add('f@example.com', { note: 'Asked by phone, "twice"' });
+    const csv = await list.export('csv');
+    expect(csv.split('\n')[0]).toBe('email,reason,source,createdAt,expiresAt,note');
+    expect(csv).toContain('f@example.com,manual,,2026-01-01T00:00:00.000Z,,"Asked by phone, ""twice"""');
+
+    const copy = new SuppressionList({ path: path.join(directory, 'copy.jsonl'), clock });
+    expect(await copy.import(csv)).toEqual({ imported: 6, invalid: [] });
+    expect(await copy.get('f@example.com')).toMatchObject({ note: 'Asked by phone, "twice"' });
+  });
+});
+
+describe('Suppression in EmailSender and EmailDeliverabilityTester', () => {
+  let directory: string;
+  let list: SuppressionList;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'suppression-send-'));
+    list = new SuppressionList({ path: path.join(directory, 'suppressions.jsonl') });
+    await list.add('bounced@example.org', { reason: 'hard-bounce' });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('should not send when every recipient is suppressed', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider], suppressionList: list });
+
+    const result = await sender.send({ to: 'Bounced <bounced@example.org>', subject: 'Hi', text: 'Hello' });
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'All recipients are suppressed: bounced@example.org (hard-bounce)',
+      errorClass: 'permanent-recipient',
+      provider: 'relay',
+      suppressed: [{ email: 'bounced@example.org', reason: 'hard-bounce' }]
+    });
+    expect(provider.messages).toHaveLength(0);
+  });
+
+  test('should send to the remaining recipients', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider], suppressionList: list });
+
+    const result = await sender.send({ to: ['ok@example.org', 'bounced@example.org'], bcc: 'BOUNCED@example.org', subject: 'Hi', text: 'Hello' });
+
+    expect(result.success).toBe(true);
+    expect(result.suppressed).toHaveLength(1);
+    expect(provider.messages[0].recipients).toEqual(['ok@example.org']);
+  });
+
+  test('should count suppressed messages in bulk sends', async () => {
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [new RecordingProvider()], suppressionList: list });
+
+    const result = await sender.sendBulk([
+      { to: 'ok@example.org', subject: 'Hi', text: 'Hello' },
+      { to: 'bounced@example.org', subject: 'Hi', text: 'Hello' }
+    ], { stopOnError: true });
+
+    expect(result).toMatchObject({ successful: 1, failed: 0, suppressed: 1, skipped: 0 });
+    expect(result.results[1].status).toBe('suppressed');
+  });
+
+  test('should validate but not send test messages to suppressed addresses', async () => {
+    const provider = new RecordingProvider();
+    const tester = new EmailDeliverabilityTester(undefined, 'sender@example.com', {
+      dnsResolver: new FakeDnsResolver({ 'example.org': { mx: [{ exchange: 'mx.example.org', priority: 10 }] } }),
+      providers: [provider],
+      suppressionList: list
+    });
+
+    const result = await tester.testEmailDeliverability({ email: 'bounced@example.org', provider: 'relay' });
+
+    expect(result.suppressed).toMatchObject({ reason: 'hard-bounce' });
+    expect(result.mxRecords).toHaveLength(1);
+    expect(result.deliverabilityTests).toEqual({});
+    expect(result.recommendations[0]).toContain('Address is on the suppression list (hard-bounce');
+    expect(provider.messages).toHaveLength(0);
+  });
+});
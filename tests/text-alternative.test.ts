@@ -0,0 +1,99 @@
+import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses';
+import { htmlToText, textToHtml, EmailSender, type EmailProvider, type ProviderMessage } from '../src/index';
+
+class RecordingProvider implements EmailProvider {
+  readonly name = 'relay';
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false };
+  readonly messages: ProviderMessage[] = [];
+
+  async send(message: ProviderMessage) {
+    this.messages.push(message);
+    return { messageId: 'relay-id' };
+  }
+
+  async verify() {}
+}
+
+describe('htmlToText', () => {
+  test('should turn blocks, headings and links into readable text', () => {
+    const html = `<html><head><title>Ignored</title><style>p { color: red }</style></head><body>
+      <h1>Welcome &amp; hello</h1>
+      <p>Hi <b>Ada</b>,   please <a href="https://example.com/confirm?a=1&amp;b=2">confirm your address</a>.</p>
+      <p>Questions? <a href="mailto:help@example.com">help@example.com</a> or <a href="https://example.com/faq">our FAQ</a>.</p>
+      <script>alert(1)</script>
+    </body></html>`;
+
+    expect(htmlToText(html)).toBe([
+      'WELCOME & HELLO',
+      '',
+      'Hi Ada, please confirm your address [1].',
+      '',
+      'Questions? help@example.com or our FAQ [2].',
+      '',
+      '[1] https://example.com/confirm?a=1&b=2',
+      '[2] https://example.com/faq'
+    ].join('\n'));
+  });
+
+  test('should flatten lists and tables', () => {
+    const html = '<ul><li>One</li><li>Two<ol start="3"><li>Three</li><li>Four</li></ol></li></ul>'
+      + '<table><tr><th>Plan</th><th>Price</th></tr><tr><td>Pro</td><td>&euro;10</td></tr></table>';
+
+    expect(htmlToText(html)).toBe('* One\n* Two\n  3. Three\n  4. Four\n\nPlan | Price\nPro | €10');
+  });
+
+  test('should keep line breaks, preformatted text and image descriptions', () => {
+    const html = '<p>Thanks<br>The team</p><img src="logo.png" alt="Example logo"><hr><pre>  indented\n  code</pre>';
+
+    expect(htmlToText(html)).toBe('Thanks\nThe team\n\n[Example logo]\n\n----------------------------------------\n\n  indented\n  code');
+  });
+});
+
+describe('textToHtml', () => {
+  test('should escape text into paragraphs with links', () => {
+    expect(textToHtml('Hello <Ada> & co,\nsee https://example.com/x?a=1&b=2.\n\nBye')).toBe(
+      '<p>Hello &lt;Ada&gt; &amp; co,<br>\nsee <a href="https://example.com/x?a=1&amp;b=2">https://example.com/x?a=1&amp;b=2</a>.</p>\n<p>Bye</p>'
+    );
+  });
+});
+
+describe('EmailSender alternatives', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should send both parts through SES', async () => {
+    const send = jest.spyOn(SESClient.prototype, 'send').mockResolvedValue({ MessageId: 'ses-id' } as never);
+    const sender = new EmailSender({ aws: { accessKeyId: 'key', secretAccessKey: 'secret' }, autoDetectFromEnv: false });
+
+    await sender.sendWithSes({ to: 'recipient@example.org', subject: 'Hi', html: '<p>Hello <a href="https://example.com">there</a></p>' });
+    await sender.sendWithSes({ to: 'recipient@example.org', subject: 'Hi', text: 'Hello <you>' });
+
+    const [htmlOnly, textOnly] = send.mock.calls.map(([command]) => (command as SendEmailCommand).input.Message?.Body);
+    expect(htmlOnly?.Text?.Data).toBe('Hello there [1]\n\n[1] https://example.com');
+    expect(textOnly?.Html?.Data).toBe('<p>Hello &lt;you&gt;</p>');
+  });
+
+  test('should build multipart/alternative raw messages', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider] });
+
+    await sender.send({ to: 'recipient@example.org', subject: 'Hi', html: '<h2>News</h2>' });
+
+    expect(provider.messages[0].options.text).toBe('NEWS');
+    expect(provider.messages[0].buildRaw().raw.toString()).toContain('multipart/alternative');
+  });
+
+  test('should leave parts alone when generation is disabled', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider], generateAlternatives: false });
+
+    await sender.send({ to: 'recipient@example.org', subject: 'Hi', html: '<p>Hi</p>' });
+
+    expect(provider.messages[0].options.text).toBeUndefined();
+  });
+});
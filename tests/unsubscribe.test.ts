@@ -0,0 +1,195 @@
+import { SESClient, SendRawEmailCommand } from '@aws-sdk/client-ses';
+import {
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  buildUnsubscribeUrl,
+  buildListUnsubscribeHeaders,
+  checkListUnsubscribe,
+  isOneClickUnsubscribeRequest,
+  EmailSender,
+  EmailDeliverabilityTester,
+  FakeDnsResolver,
+  type EmailProvider,
+  type ProviderMessage
+} from '../src/index';
+
+class RecordingProvider implements EmailProvider {
+  readonly name = 'relay';
+  readonly capabilities = { attachments: true, rawMime: true, customHeaders: true, tags: false, smtpUtf8: false };
+  readonly messages: ProviderMessage[] = [];
+
+  async send(message: ProviderMessage) {
+    this.messages.push(message);
+    return { messageId: 'relay-id' };
+  }
+
+  async verify() {}
+}
+
+describe('Unsubscribe tokens', () => {
+  test('should round-trip the recipient and list', () => {
+    const token = createUnsubscribeToken('ada@example.com', 'secret', { list: 'news', expiresAt: 2000 });
+
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(verifyUnsubscribeToken(token, 'secret', 1000)).toEqual({ valid: true, email: 'ada@example.com', list: 'news' });
+    expect(verifyUnsubscribeToken(token, 'secret', 3000)).toEqual({ valid: false, email: 'ada@example.com', list: 'news', error: 'Token has expired' });
+  });
+
+  test('should reject tampered tokens and wrong secrets', () => {
+    const token = createUnsubscribeToken('ada@example.com', 'secret');
+    const forged = `${Buffer.from(JSON.stringify({ e: 'bob@example.com' })).toString('base64url')}.${token.split('.')[1]}`;
+
+    expect(verifyUnsubscribeToken(token, 'other')).toEqual({ valid: false, error: 'Invalid signature' });
+    expect(verifyUnsubscribeToken(forged, 'secret')).toEqual({ valid: false, error: 'Invalid signature' });
+    expect(verifyUnsubscribeToken('garbage', 'secret')).toEqual({ valid: false, error: 'Malformed token' });
+  });
+
+  test('should add the token to the URL', () => {
+    const url = new URL(buildUnsubscribeUrl('https://example.com/unsubscribe?campaign=7', 'ada@example.com', 'secret'));
+
+    expect(url.searchParams.get('campaign')).toBe('7');
+    expect(verifyUnsubscribeToken(url.searchParams.get('token')!, 'secret').email).toBe('ada@example.com');
+  });
+
+  test('should recognise one-click POST bodies', () => {
+    expect(isOneClickUnsubscribeRequest('List-Unsubscribe=One-Click')).toBe(true);
+    expect(isOneClickUnsubscribeRequest({ 'List-Unsubscribe': 'One-Click' })).toBe(true);
+    expect(isOneClickUnsubscribeRequest('--b\r\nContent-Disposition: form-data; name="List-Unsubscribe"\r\n\r\nOne-Click\r\n--b--')).toBe(true);
+    expect(isOneClickUnsubscribeRequest('')).toBe(false);
+  });
+});
+
+describe('List-Unsubscribe headers', () => {
+  test('should build mailto and one-click headers', () => {
+    expect(buildListUnsubscribeHeaders({ mailto: 'unsubscribe@example.com?subject=stop', url: 'https://example.com/u' })).toEqual({
+      'List-Unsubscribe': '<mailto:unsubscribe@example.com?subject=stop>, <https://example.com/u>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    });
+    expect(buildListUnsubscribeHeaders({ mailto: 'mailto:unsubscribe@example.com' })).toEqual({
+      'List-Unsubscribe': '<mailto:unsubscribe@example.com>'
+    });
+    expect(buildListUnsubscribeHeaders({ url: 'https://example.com/u', oneClick: false })).toEqual({
+      'List-Unsubscribe': '<https://example.com/u>'
+    });
+  });
+
+  test('should reject unusable options', () => {
+    expect(() => buildListUnsubscribeHeaders({})).toThrow('need a url or a mailto address');
+    expect(() => buildListUnsubscribeHeaders({ mailto: 'not an address' })).toThrow('Invalid unsubscribe mailto');
+    expect(() => buildListUnsubscribeHeaders({ url: 'ftp://example.com/u' })).toThrow('HTTP or HTTPS URL');
+    expect(() => buildListUnsubscribeHeaders({ url: 'http://example.com/u', oneClick: true })).toThrow('requires an HTTPS URL');
+  });
+
+  test('should check headers against the bulk-sender rules', () => {
+    expect(checkListUnsubscribe({
+      'list-unsubscribe': '<mailto:u@example.com>, <https://example.com/u>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    })).toEqual({ present: true, oneClick: true, mailto: 'mailto:u@example.com', url: 'https://example.com/u', issues: [] });
+
+    expect(checkListUnsubscribe({ 'List-Unsubscribe': '<mailto:u@example.com>' }).issues).toEqual([
+      'List-Unsubscribe has no HTTPS URL, which one-click unsubscribe requires.',
+      expect.stringContaining('List-Unsubscribe-Post header is missing')
+    ]);
+    expect(checkListUnsubscribe()).toMatchObject({ present: false, oneClick: false });
+  });
+});
+
+describe('EmailSender unsubscribe', () => {
+  const clock = { now: () => Date.UTC(2026, 0, 1), sleep: async () => undefined };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should send the headers through SES with a signed URL', async () => {
+    const send = jest.spyOn(SESClient.prototype, 'send').mockResolvedValue({ MessageId: 'ses-id' } as never);
+    const sender = new EmailSender({
+      aws: { accessKeyId: 'key', secretAccessKey: 'secret' },
+      autoDetectFromEnv: false,
+      clock,
+      unsubscribe: { secret: 'hmac-secret', tokenTtlMs: 1000 }
+    });
+
+    const result = await sender.sendWithSes({
+      to: 'Ada <ada@example.com>',
+      subject: 'News',
+      text: 'Hello',
+      headers: { 'list-unsubscribe': '<mailto:old@example.com>' },
+      unsubscribe: { url: 'https://example.com/u', mailto: 'unsubscribe@example.com', list: 'news' }
+    });
+
+    expect(result.success).toBe(true);
+    const raw = String((send.mock.calls[0][0] as SendRawEmailCommand).input.RawMessage?.Data).replace(/\r\n /g, ' ');
+    const token = raw.match(/token=([\w.-]+)>/)?.[1] ?? '';
+    expect(raw).toContain('List-Unsubscribe: <mailto:unsubscribe@example.com>, <https://example.com/u?token=');
+    expect(raw).toContain('List-Unsubscribe-Post: List-Unsubscribe=One-Click');
+    expect(raw).not.toContain('old@example.com');
+    expect(verifyUnsubscribeToken(token, 'hmac-secret', clock.now())).toEqual({ valid: true, email: 'ada@example.com', list: 'news' });
+    expect(verifyUnsubscribeToken(token, 'hmac-secret', clock.now() + 1001).valid).toBe(false);
+  });
+
+  test('should not send with invalid unsubscribe options', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider] });
+
+    const result = await sender.send({ to: 'ada@example.com', subject: 'News', text: 'Hi', unsubscribe: { url: 'http://example.com/u', oneClick: true } });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'One-click unsubscribe (RFC 8058) requires an HTTPS URL',
+      errorClass: 'permanent-config',
+      provider: 'relay'
+    });
+    expect(provider.messages).toHaveLength(0);
+  });
+
+  test('should refuse signed unsubscribe URLs for several recipients', async () => {
+    const provider = new RecordingProvider();
+    const sender = new EmailSender({ autoDetectFromEnv: false, providers: [provider], unsubscribe: { secret: 'hmac-secret' } });
+    const unsubscribe = { url: 'https://example.com/u' };
+
+    const result = await sender.send({ to: 'ada@example.com', bcc: 'bob@example.com', subject: 'News', text: 'Hi', unsubscribe });
+
+    expect(result).toMatchObject({ success: false, errorClass: 'permanent-config', error: expect.stringContaining('one recipient per message') });
+    expect(provider.messages).toHaveLength(0);
+    expect((await sender.send({ to: 'ada@example.com', subject: 'News', text: 'Hi', unsubscribe })).success).toBe(true);
+  });
+});
+
+describe('EmailDeliverabilityTester bulk check', () => {
+  const createTester = (provider: EmailProvider) => new EmailDeliverabilityTester(undefined, 'sender@example.com', {
+    dnsResolver: new FakeDnsResolver({ 'example.com': { mx: [{ exchange: 'mx.example.com', priority: 10 }] } }),
+    providers: [provider]
+  });
+
+  test('should warn when a bulk message cannot be unsubscribed from in one click', async () => {
+    const result = await createTester(new RecordingProvider()).testEmailDeliverability({
+      email: 'ada@example.com',
+      provider: 'relay',
+      skipActualDelivery: true,
+      testMessage: { subject: 'News', text: 'Hi', bulk: true }
+    });
+
+    expect(result.listUnsubscribe).toMatchObject({ present: false, oneClick: false });
+    expect(result.recommendations).toContain(result.listUnsubscribe!.issues[0]);
+  });
+
+  test('should send and accept compliant bulk messages', async () => {
+    const provider = new RecordingProvider();
+    const result = await createTester(provider).testEmailDeliverability({
+      email: 'ada@example.com',
+      provider: 'relay',
+      testMessage: { subject: 'News', text: 'Hi', bulk: true, unsubscribe: { url: 'https://example.com/u' } }
+    });
+
+    expect(result.listUnsubscribe).toMatchObject({ present: true, oneClick: true, issues: [] });
+    expect(provider.messages[0].options.headers).toEqual({
+      'List-Unsubscribe': '<https://example.com/u>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    });
+  });
+});